@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import fs from "node:fs";
+import path from "node:path";
+
+const require = createRequire(import.meta.url);
+const rootDir = process.cwd();
+const distLib = path.join(rootDir, "dist", "lib");
+
+if (!fs.existsSync(path.join(distLib, "migrations.js"))) {
+  console.error("[db] dist/lib не найден, сначала выполните npm run build");
+  process.exit(1);
+}
+
+const { openDatabase, resolveDatabasePath } = require(path.join(distLib, "sqlite-db.js"));
+const { getMigrationStatus, runMigrations } = require(path.join(distLib, "migrations.js"));
+
+function printStatus(db) {
+  const status = getMigrationStatus(db);
+  console.log(`База: ${path.relative(rootDir, resolveDatabasePath())}`);
+  console.log(`Версия схемы: ${status.currentVersion} (код: ${status.latestVersion})`);
+
+  for (const item of status.applied) {
+    console.log(`  [x] ${String(item.version).padStart(3, "0")} ${item.name} — ${item.appliedAt}`);
+  }
+  for (const item of status.pending) {
+    console.log(`  [ ] ${String(item.version).padStart(3, "0")} ${item.name}`);
+  }
+
+  if (status.currentVersion > status.latestVersion) {
+    console.log("База данных новее кода: сервер откажется запускаться.");
+    return 2;
+  }
+  return status.pending.length ? 1 : 0;
+}
+
+const command = process.argv[2] || "status";
+const db = openDatabase();
+
+try {
+  if (command === "status") {
+    const code = printStatus(db);
+    process.exitCode = code === 2 ? 2 : 0;
+  } else if (command === "up") {
+    const applied = runMigrations(db);
+    console.log(applied.length ? `Применены миграции: ${applied.join(", ")}` : "Новых миграций нет");
+    printStatus(db);
+  } else {
+    console.error(`Неизвестная команда: ${command}. Используйте status или up.`);
+    process.exitCode = 1;
+  }
+} catch (error) {
+  console.error(`[db] ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import fs from "node:fs/promises";
+import { existsSync } from "node:fs";
+import path from "node:path";
+
+const require = createRequire(import.meta.url);
+const rootDir = process.cwd();
+const distLib = path.join(rootDir, "dist", "lib");
+
+if (!existsSync(path.join(distLib, "site-bundle.js"))) {
+  console.error("[bundle] dist/lib не найден, сначала выполните npm run build");
+  process.exit(1);
+}
+
+const { createSiteBundle, readSiteBundle, previewSiteBundle, applySiteBundle } = require(path.join(distLib, "site-bundle.js"));
+
+function printPreview(preview) {
+  console.log(`Пакет: ${preview.siteName || "—"}, создан ${preview.createdAt}`);
+  console.log(`Контент: ${preview.site.changed ? `изменятся поля ${preview.site.changedFields.join(", ")}` : "без изменений"}`);
+  console.log(
+    `Медиатека: +${preview.media.added.length} / -${preview.media.removed.length} / ~${preview.media.changed.length} (всего ${preview.media.total})`
+  );
+  console.log(
+    `Файлы: новых ${preview.files.added}, заменится ${preview.files.replaced}, без изменений ${preview.files.unchanged}, удалится ${preview.files.removed}`
+  );
+  for (const warning of preview.warnings) {
+    console.log(`  ! ${warning}`);
+  }
+}
+
+async function exportBundle(target) {
+  const { archive, manifest } = await createSiteBundle();
+  const stamp = manifest.createdAt.slice(0, 16).replace(/[-:]/g, "").replace("T", "-");
+  const filePath = path.resolve(rootDir, target || `white-lab-bundle-${stamp}.tar.gz`);
+  await fs.writeFile(filePath, archive);
+  console.log(`Пакет сохранён: ${path.relative(rootDir, filePath)} (${manifest.files.length} файлов, ${(archive.length / 1024).toFixed(1)} КБ)`);
+}
+
+async function importBundle(source, apply) {
+  if (!source) {
+    throw new Error("Укажите путь к пакету: bundle:import -- <файл> [--apply]");
+  }
+
+  const bundle = readSiteBundle(await fs.readFile(path.resolve(rootDir, source)));
+  if (!apply) {
+    printPreview(await previewSiteBundle(bundle));
+    console.log("Это предпросмотр. Добавьте --apply, чтобы применить пакет.");
+    return;
+  }
+
+  printPreview(await applySiteBundle(bundle, { author: "cli" }));
+  console.log("Пакет применён. Кэш страниц работающего сервера обновится по истечении TTL или после перезапуска.");
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+try {
+  if (command === "export") {
+    await exportBundle(args[0]);
+  } else if (command === "import") {
+    await importBundle(args.find((arg) => !arg.startsWith("--")), args.includes("--apply"));
+  } else {
+    console.error("Использование: site-bundle.mjs export [файл] | import <файл> [--apply]");
+    process.exitCode = 1;
+  }
+} catch (error) {
+  console.error(`[bundle] ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
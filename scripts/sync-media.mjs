@@ -449,7 +449,10 @@ async function main() {
   console.log(`total links: ${deduped.length}`);
 
   const media = await downloadAndOptimize(deduped);
-  await fs.writeFile(mediaJsonPath, `${JSON.stringify(media, null, 2)}\n`, "utf8");
+  // Same temp-file + rename scheme as the server, so a running server never reads a half-written file.
+  const tempPath = path.join(path.dirname(mediaJsonPath), `.media.json.${createHash("sha1").update(String(Date.now())).digest("hex").slice(0, 8)}.tmp`);
+  await fs.writeFile(tempPath, `${JSON.stringify(media, null, 2)}\n`, "utf8");
+  await fs.rename(tempPath, mediaJsonPath);
 
   console.log(`saved ${media.length} media items -> content/media.json`);
 }
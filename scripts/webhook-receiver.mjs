@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+// Local webhook receiver for testing: prints every delivery and checks its signature.
+// Usage: WEBHOOK_SECRET=whsec_… node scripts/webhook-receiver.mjs [port]
+// The server only posts to loopback when started with WEBHOOK_ALLOW_ADDRESSES=127.0.0.1.
+import crypto from "node:crypto";
+import http from "node:http";
+
+const port = Number(process.argv[2] || process.env.PORT || 4545);
+const secret = String(process.env.WEBHOOK_SECRET || "");
+// Same window receivers are expected to use in production against replayed requests.
+const TOLERANCE_SECONDS = 300;
+
+function verifySignature(header, body) {
+  const parts = Object.fromEntries(
+    String(header || "")
+      .split(",")
+      .map((part) => part.split("=", 2))
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) {
+    return "нет подписи";
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    return "подпись устарела";
+  }
+
+  const expected = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  const valid = expected.length === parts.v1.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+  return valid ? "ok" : "неверная подпись";
+}
+
+const server = http.createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = secret ? verifySignature(req.headers["x-whitelab-signature"], body) : "не проверялась (нет WEBHOOK_SECRET)";
+    console.log(`[webhook] ${req.headers["x-whitelab-event"] || "?"} доставка #${req.headers["x-whitelab-delivery"] || "?"}, подпись: ${signature}`);
+    console.log(body);
+
+    const accepted = !secret || signature === "ok";
+    res.writeHead(accepted ? 204 : 401).end();
+  });
+});
+
+server.listen(port, "127.0.0.1", () => {
+  console.log(`[webhook] приём на http://127.0.0.1:${port}/`);
+});
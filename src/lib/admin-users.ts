@@ -0,0 +1,408 @@
+const crypto = require("node:crypto") as typeof import("node:crypto");
+const { getDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+};
+const { verifyTotp } = require("./totp") as {
+  verifyTotp: (secret: string, code: string, lastUsedStep?: number) => number | null;
+};
+
+type AdminRole = "owner" | "editor" | "media_manager" | "viewer";
+
+type AdminPermission =
+  | "content.view"
+  | "content.edit"
+  | "content.publish"
+  | "media.edit"
+  | "site.manage"
+  | "users.manage";
+
+interface AdminUser {
+  id: number;
+  username: string;
+  displayName: string;
+  role: AdminRole;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt: string;
+  totpEnabled: boolean;
+}
+
+interface AdminUserInput {
+  username: string;
+  displayName?: string;
+  password: string;
+  role?: AdminRole;
+}
+
+interface AdminUserPatch {
+  displayName?: string;
+  role?: AdminRole;
+  disabled?: boolean;
+}
+
+const ADMIN_ROLES: AdminRole[] = ["owner", "editor", "media_manager", "viewer"];
+
+// Every admin route asks for one of these permissions; roles are fixed bundles of them.
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: ["content.view", "content.edit", "content.publish", "media.edit", "site.manage", "users.manage"],
+  editor: ["content.view", "content.edit", "content.publish", "media.edit"],
+  media_manager: ["content.view", "media.edit"],
+  viewer: ["content.view"]
+};
+const PASSWORD_MIN_LENGTH = 10;
+function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{2,39}$/i;
+
+// scrypt parameters are stored with every hash, so they can be raised later without breaking old logins.
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+
+function scrypt(password: string, salt: Buffer, keyLength: number, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, { ...params, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(key);
+    });
+  });
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, SCRYPT_KEY_LENGTH, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `scrypt$${N}$${r}$${p}$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, rawN, rawR, rawP, rawSalt, rawKey] = String(stored || "").split("$");
+  if (scheme !== "scrypt" || !rawSalt || !rawKey) {
+    return false;
+  }
+
+  const expected = Buffer.from(rawKey, "base64");
+  const actual = await scrypt(password, Buffer.from(rawSalt, "base64"), expected.length, {
+    N: Number(rawN),
+    r: Number(rawR),
+    p: Number(rawP)
+  });
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Used when the login is unknown, so a missing user costs as much time as a wrong password.
+let dummyHash: Promise<string> | null = null;
+
+function validatePassword(password: string): void {
+  if (String(password || "").length < PASSWORD_MIN_LENGTH) {
+    throw new Error(`Пароль должен быть не короче ${PASSWORD_MIN_LENGTH} символов`);
+  }
+}
+
+function normalizeUserRow(row: Record<string, unknown>): AdminUser {
+  return {
+    id: Number(row.id || 0),
+    username: String(row.username || ""),
+    displayName: String(row.display_name || ""),
+    role: (ADMIN_ROLES.includes(row.role as AdminRole) ? row.role : "viewer") as AdminRole,
+    disabled: Boolean(row.disabled),
+    createdAt: String(row.created_at || ""),
+    updatedAt: String(row.updated_at || ""),
+    lastLoginAt: String(row.last_login_at || ""),
+    totpEnabled: Boolean(row.totp_enabled_at)
+  };
+}
+
+const USER_COLUMNS = "id, username, display_name, role, disabled, created_at, updated_at, last_login_at, totp_enabled_at";
+const RECOVERY_CODE_COUNT = 10;
+
+function countAdminUsers(): number {
+  const db = getDatabase();
+  const row = db.prepare("SELECT COUNT(*) AS total FROM admin_users").get() as { total?: number } | undefined;
+  return Number(row?.total || 0);
+}
+
+function countActiveOwners(): number {
+  const db = getDatabase();
+  const row = db.prepare("SELECT COUNT(*) AS total FROM admin_users WHERE role = 'owner' AND disabled = 0").get() as
+    | { total?: number }
+    | undefined;
+  return Number(row?.total || 0);
+}
+
+function listAdminUsers(): AdminUser[] {
+  const db = getDatabase();
+  const rows = db.prepare(`SELECT ${USER_COLUMNS} FROM admin_users ORDER BY id ASC`).all() as Record<string, unknown>[];
+  return rows.map(normalizeUserRow);
+}
+
+function getAdminUser(id: number): AdminUser | null {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT ${USER_COLUMNS} FROM admin_users WHERE id = ? LIMIT 1`).get(id) as
+    | Record<string, unknown>
+    | undefined;
+  return row ? normalizeUserRow(row) : null;
+}
+
+async function createAdminUser(input: AdminUserInput): Promise<AdminUser> {
+  const username = String(input.username || "").trim();
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new Error("Логин: 3–40 символов, латиница, цифры, точка, дефис и подчёркивание");
+  }
+  validatePassword(input.password);
+  const role = input.role && ADMIN_ROLES.includes(input.role) ? input.role : "editor";
+
+  const db = getDatabase();
+  const existing = db.prepare("SELECT id FROM admin_users WHERE username = ? LIMIT 1").get(username);
+  if (existing) {
+    throw new Error(`Пользователь ${username} уже существует`);
+  }
+
+  const passwordHash = await hashPassword(input.password);
+  const now = new Date().toISOString();
+  const result = db
+    .prepare(`
+      INSERT INTO admin_users (username, display_name, password_hash, role, disabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 0, ?, ?)
+    `)
+    .run(username, String(input.displayName || "").trim().slice(0, 120), passwordHash, role, now, now);
+
+  return getAdminUser(Number(result.lastInsertRowid)) as AdminUser;
+}
+
+// The last active owner can never be demoted, disabled or removed, so the site cannot be locked out.
+function assertKeepsAnOwner(user: AdminUser, next: { role: AdminRole; disabled: boolean } | null): void {
+  const losesOwner = user.role === "owner" && !user.disabled && (!next || next.role !== "owner" || next.disabled);
+  if (losesOwner && countActiveOwners() <= 1) {
+    throw new Error("Нельзя лишить сайт последнего владельца");
+  }
+}
+
+function updateAdminUser(id: number, patch: AdminUserPatch): AdminUser {
+  const user = getAdminUser(id);
+  if (!user) {
+    throw new Error("Пользователь не найден");
+  }
+
+  const next = {
+    displayName: patch.displayName === undefined ? user.displayName : String(patch.displayName).trim().slice(0, 120),
+    role: patch.role && ADMIN_ROLES.includes(patch.role) ? patch.role : user.role,
+    disabled: patch.disabled === undefined ? user.disabled : Boolean(patch.disabled)
+  };
+  assertKeepsAnOwner(user, next);
+
+  const db = getDatabase();
+  db.prepare("UPDATE admin_users SET display_name = ?, role = ?, disabled = ?, updated_at = ? WHERE id = ?").run(
+    next.displayName,
+    next.role,
+    next.disabled ? 1 : 0,
+    new Date().toISOString(),
+    id
+  );
+  return getAdminUser(id) as AdminUser;
+}
+
+async function setAdminUserPassword(id: number, password: string): Promise<void> {
+  validatePassword(password);
+  if (!getAdminUser(id)) {
+    throw new Error("Пользователь не найден");
+  }
+
+  const passwordHash = await hashPassword(password);
+  const db = getDatabase();
+  db.prepare("UPDATE admin_users SET password_hash = ?, updated_at = ? WHERE id = ?").run(
+    passwordHash,
+    new Date().toISOString(),
+    id
+  );
+}
+
+function deleteAdminUser(id: number): void {
+  const user = getAdminUser(id);
+  if (!user) {
+    throw new Error("Пользователь не найден");
+  }
+  assertKeepsAnOwner(user, null);
+
+  const db = getDatabase();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    db.prepare("DELETE FROM admin_recovery_codes WHERE user_id = ?").run(id);
+    db.prepare("DELETE FROM api_tokens WHERE user_id = ?").run(id);
+    db.prepare("DELETE FROM admin_users WHERE id = ?").run(id);
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+async function verifyAdminUserPassword(id: number, password: string): Promise<boolean> {
+  const db = getDatabase();
+  const row = db.prepare("SELECT password_hash FROM admin_users WHERE id = ? LIMIT 1").get(id) as
+    | { password_hash?: string }
+    | undefined;
+  return row ? verifyPassword(String(password || ""), String(row.password_hash || "")) : false;
+}
+
+async function authenticateAdminUser(username: string, password: string): Promise<AdminUser | null> {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT ${USER_COLUMNS}, password_hash FROM admin_users WHERE username = ? LIMIT 1`)
+    .get(String(username || "").trim()) as Record<string, unknown> | undefined;
+
+  if (!row) {
+    dummyHash = dummyHash || hashPassword(crypto.randomBytes(16).toString("hex"));
+    await verifyPassword(String(password || ""), await dummyHash);
+    return null;
+  }
+
+  const valid = await verifyPassword(String(password || ""), String(row.password_hash || ""));
+  const user = normalizeUserRow(row);
+  if (!valid || user.disabled) {
+    return null;
+  }
+
+  db.prepare("UPDATE admin_users SET last_login_at = ? WHERE id = ?").run(new Date().toISOString(), user.id);
+  return user;
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = String(code || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+// Codes are shown once in plain text and stored only as hashes; each is 10 hex characters, i.e. 40 bits
+// of entropy, so a fast hash is enough.
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(8).toString("hex").slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+function replaceRecoveryCodes(db: import("node:sqlite").DatabaseSync, userId: number): string[] {
+  const codes = generateRecoveryCodes();
+  const now = new Date().toISOString();
+  db.prepare("DELETE FROM admin_recovery_codes WHERE user_id = ?").run(userId);
+  const insert = db.prepare("INSERT INTO admin_recovery_codes (user_id, code_hash, created_at) VALUES (?, ?, ?)");
+  for (const code of codes) {
+    insert.run(userId, hashRecoveryCode(code), now);
+  }
+  return codes;
+}
+
+// Activation needs a valid code from the pending secret, which proves the app was set up correctly.
+function enableAdminUserTotp(id: number, secret: string, code: string): string[] {
+  const user = getAdminUser(id);
+  if (!user) {
+    throw new Error("Пользователь не найден");
+  }
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    throw new Error("Код не подошёл. Проверьте время на телефоне и введите новый код");
+  }
+
+  const db = getDatabase();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    db.prepare(
+      "UPDATE admin_users SET totp_secret = ?, totp_enabled_at = ?, totp_last_step = ?, updated_at = ? WHERE id = ?"
+    ).run(secret, new Date().toISOString(), step, new Date().toISOString(), id);
+    const codes = replaceRecoveryCodes(db, id);
+    db.exec("COMMIT");
+    return codes;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+function disableAdminUserTotp(id: number): void {
+  const db = getDatabase();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    db.prepare(
+      "UPDATE admin_users SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = -1, updated_at = ? WHERE id = ?"
+    ).run(new Date().toISOString(), id);
+    db.prepare("DELETE FROM admin_recovery_codes WHERE user_id = ?").run(id);
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+function regenerateRecoveryCodes(id: number): string[] {
+  const user = getAdminUser(id);
+  if (!user?.totpEnabled) {
+    throw new Error("Двухфакторная аутентификация не включена");
+  }
+
+  const db = getDatabase();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    const codes = replaceRecoveryCodes(db, id);
+    db.exec("COMMIT");
+    return codes;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+function countUnusedRecoveryCodes(id: number): number {
+  const db = getDatabase();
+  const row = db.prepare("SELECT COUNT(*) AS total FROM admin_recovery_codes WHERE user_id = ? AND used_at IS NULL").get(id) as
+    | { total?: number }
+    | undefined;
+  return Number(row?.total || 0);
+}
+
+// Accepts either a current TOTP code or an unused recovery code; both are single-use.
+function verifyAdminUserSecondFactor(id: number, code: string): "totp" | "recovery" | null {
+  const db = getDatabase();
+  const row = db.prepare("SELECT totp_secret, totp_enabled_at, totp_last_step FROM admin_users WHERE id = ? LIMIT 1").get(id) as
+    | { totp_secret?: string | null; totp_enabled_at?: string | null; totp_last_step?: number }
+    | undefined;
+  if (!row?.totp_secret || !row.totp_enabled_at) {
+    return null;
+  }
+
+  const step = verifyTotp(row.totp_secret, code, Number(row.totp_last_step ?? -1));
+  if (step !== null) {
+    db.prepare("UPDATE admin_users SET totp_last_step = ? WHERE id = ?").run(step, id);
+    return "totp";
+  }
+
+  const result = db
+    .prepare("UPDATE admin_recovery_codes SET used_at = ? WHERE user_id = ? AND code_hash = ? AND used_at IS NULL")
+    .run(new Date().toISOString(), id, hashRecoveryCode(code));
+  return Number(result.changes || 0) > 0 ? "recovery" : null;
+}
+
+module.exports = {
+  ADMIN_ROLES,
+  ROLE_PERMISSIONS,
+  hasPermission,
+  PASSWORD_MIN_LENGTH,
+  countAdminUsers,
+  listAdminUsers,
+  getAdminUser,
+  createAdminUser,
+  updateAdminUser,
+  setAdminUserPassword,
+  deleteAdminUser,
+  verifyAdminUserPassword,
+  authenticateAdminUser,
+  enableAdminUserTotp,
+  disableAdminUserTotp,
+  regenerateRecoveryCodes,
+  countUnusedRecoveryCodes,
+  verifyAdminUserSecondFactor
+};
@@ -0,0 +1,242 @@
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+type SchemaNode = Record<string, unknown> & { kind: string; optional?: boolean; description?: string };
+type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+const t = require("./schema") as {
+  string: (options?: Record<string, unknown>) => SchemaNode;
+  object: (properties: Record<string, SchemaNode>, options?: Record<string, unknown>) => SchemaNode;
+  validate: (node: SchemaNode, value: unknown) => ValidationIssue[];
+  toJsonSchema: (node: SchemaNode) => Record<string, unknown>;
+};
+
+interface ApiResponseSpec {
+  description: string;
+  schema?: SchemaNode;
+}
+
+// One API route: its address, who may call it, the shape of its input and of its answers.
+// The same description validates requests at runtime and produces the OpenAPI document.
+interface ApiOperation {
+  method: HttpMethod;
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  // "public" routes need no login; otherwise the admin permission the route requires,
+  // or "session" for routes open to any signed-in user.
+  access: string;
+  params?: Record<string, SchemaNode>;
+  query?: Record<string, SchemaNode>;
+  body?: SchemaNode;
+  // Multipart routes: file fields, documented next to the text fields from `body`.
+  files?: string[];
+  // Draft-backed writes take the version from If-Match; public reads answer If-None-Match.
+  conditional?: "if-match" | "if-none-match";
+  responses: Record<number, ApiResponseSpec>;
+}
+
+interface OpenApiInfo {
+  title: string;
+  version: string;
+  description: string;
+  serverUrl: string;
+}
+
+const errorSchema = t.object(
+  {
+    error: t.object({
+      code: t.string({ description: "Машинный код ошибки: not_found, validation_failed, content_conflict и т. д." }),
+      message: t.string({ description: "Сообщение для человека" }),
+      details: t.object({}, { description: "Подробности, зависят от кода" })
+    })
+  },
+  { description: "Ошибка" }
+);
+
+const STANDARD_ERRORS: Record<number, string> = {
+  400: "Некорректный запрос",
+  401: "Нужен вход в панель или действующий API-токен",
+  403: "Недостаточно прав, область токена или CSRF-токен",
+  404: "Не найдено",
+  409: "Конфликт версий или уже существует",
+  413: "Файл слишком большой",
+  422: "Данные не прошли проверку"
+};
+
+// Path and query values arrive as strings; numbers and booleans are converted before checking.
+function coerceParameter(node: SchemaNode, value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  if (node.kind === "number" && value.trim() !== "" && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  if (node.kind === "boolean" && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  return value;
+}
+
+function validateParameters(
+  location: "params" | "query",
+  nodes: Record<string, SchemaNode> | undefined,
+  values: Record<string, unknown>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const [name, node] of Object.entries(nodes || {})) {
+    for (const issue of t.validate(node, coerceParameter(node, values?.[name]))) {
+      issues.push({ ...issue, path: `${location}.${name}` });
+    }
+  }
+  return issues;
+}
+
+function validateApiRequest(
+  operation: ApiOperation,
+  request: { params: Record<string, unknown>; query: Record<string, unknown>; body: unknown }
+): ValidationIssue[] {
+  const issues = [
+    ...validateParameters("params", operation.params, request.params),
+    ...validateParameters("query", operation.query, request.query)
+  ];
+  if (operation.body) {
+    issues.push(...t.validate(operation.body, request.body ?? (operation.files ? {} : undefined)));
+  }
+  return issues;
+}
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+function describeParameters(location: "path" | "query", nodes: Record<string, SchemaNode> | undefined): Record<string, unknown>[] {
+  return Object.entries(nodes || {}).map(([name, node]) => {
+    const { description, ...schema } = t.toJsonSchema(node);
+    return {
+      name,
+      in: location,
+      required: location === "path" || !node.optional,
+      ...(description ? { description } : {}),
+      schema
+    };
+  });
+}
+
+function describeRequestBody(operation: ApiOperation): Record<string, unknown> | undefined {
+  if (!operation.body) {
+    return undefined;
+  }
+
+  const schema = t.toJsonSchema(operation.body);
+  if (!operation.files) {
+    return { required: !operation.body.optional, content: { "application/json": { schema } } };
+  }
+
+  const fileProperties = Object.fromEntries(
+    operation.files.map((field) => [field, { type: "string", contentMediaType: "application/octet-stream" }])
+  );
+  return {
+    required: true,
+    content: {
+      "multipart/form-data": {
+        schema: {
+          ...schema,
+          properties: { ...(schema.properties as Record<string, unknown>), ...fileProperties },
+          required: [...((schema.required as string[]) || []), ...operation.files]
+        }
+      }
+    }
+  };
+}
+
+function describeResponses(operation: ApiOperation): Record<string, unknown> {
+  const statuses = new Set(Object.keys(operation.responses).map(Number));
+  if (operation.access !== "public") {
+    statuses.add(401);
+    if (operation.access !== "session") {
+      statuses.add(403);
+    }
+  }
+  if (operation.body || operation.query || operation.params) {
+    statuses.add(422);
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const status of [...statuses].sort((a, b) => a - b)) {
+    const spec = operation.responses[status];
+    const schema = spec ? spec.schema : status >= 400 ? errorSchema : undefined;
+    responses[String(status)] = {
+      description: spec?.description || STANDARD_ERRORS[status] || "",
+      ...(schema ? { content: { "application/json": { schema: t.toJsonSchema(schema) } } } : {})
+    };
+  }
+  return responses;
+}
+
+function describeOperation(operation: ApiOperation): Record<string, unknown> {
+  const parameters = [...describeParameters("path", operation.params), ...describeParameters("query", operation.query)];
+  if (operation.conditional) {
+    parameters.push({
+      name: operation.conditional === "if-match" ? "If-Match" : "If-None-Match",
+      in: "header",
+      required: false,
+      description:
+        operation.conditional === "if-match"
+          ? "ETag черновика, с которым работал клиент; если черновик изменился, ответ 409"
+          : "ETag из прошлого ответа; если данные не изменились, ответ 304",
+      schema: { type: "string" }
+    });
+  }
+
+  const notes = [operation.description || ""];
+  if (operation.access !== "public" && operation.access !== "session") {
+    notes.push(`Право: \`${operation.access}\`.`);
+  }
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    ...(notes.join(" ").trim() ? { description: notes.join(" ").trim() } : {}),
+    tags: [operation.tag],
+    ...(parameters.length ? { parameters } : {}),
+    ...(operation.body ? { requestBody: describeRequestBody(operation) } : {}),
+    responses: describeResponses(operation),
+    security: operation.access === "public" ? [] : [{ bearerToken: [] }, { sessionCookie: [], csrfHeader: [] }],
+    ...(operation.access !== "public" && operation.access !== "session" ? { "x-permission": operation.access } : {})
+  };
+}
+
+function buildOpenApiDocument(operations: ApiOperation[], info: OpenApiInfo): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of operations) {
+    const path = toOpenApiPath(operation.path);
+    paths[path] = { ...(paths[path] || {}), [operation.method]: describeOperation(operation) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: info.title, version: info.version, description: info.description },
+    servers: [{ url: info.serverUrl }],
+    tags: [...new Set(operations.map((operation) => operation.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerToken: { type: "http", scheme: "bearer", description: "API-токен из раздела «API-токены» панели" },
+        sessionCookie: { type: "apiKey", in: "cookie", name: "white_lab_session", description: "Сессия панели после входа" },
+        csrfHeader: { type: "apiKey", in: "header", name: "X-CSRF-Token", description: "Для изменяющих запросов по сессии" }
+      }
+    }
+  };
+}
+
+module.exports = {
+  errorSchema,
+  validateApiRequest,
+  toOpenApiPath,
+  buildOpenApiDocument
+};
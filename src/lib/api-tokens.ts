@@ -0,0 +1,149 @@
+const crypto = require("node:crypto") as typeof import("node:crypto");
+const { getDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+};
+
+type ApiTokenScope = "read" | "write";
+
+interface ApiToken {
+  id: number;
+  userId: number;
+  name: string;
+  prefix: string;
+  scope: ApiTokenScope;
+  createdAt: string;
+  createdBy: string;
+  expiresAt: string;
+  lastUsedAt: string;
+  lastUsedIp: string;
+  revokedAt: string;
+}
+
+interface CreateApiTokenInput {
+  userId: number;
+  name: string;
+  scope: ApiTokenScope;
+  expiresAt?: string;
+  createdBy: string;
+}
+
+const API_TOKEN_SCOPES: ApiTokenScope[] = ["read", "write"];
+const TOKEN_PREFIX = "wl_";
+const LAST_USED_INTERVAL_MS = 60_000;
+
+// Tokens carry 256 random bits, so a plain SHA-256 is enough to keep the stored value useless.
+function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function normalizeRow(row: Record<string, unknown>): ApiToken {
+  return {
+    id: Number(row.id || 0),
+    userId: Number(row.user_id || 0),
+    name: String(row.name || ""),
+    prefix: String(row.token_prefix || ""),
+    scope: row.scope === "write" ? "write" : "read",
+    createdAt: String(row.created_at || ""),
+    createdBy: String(row.created_by || ""),
+    expiresAt: String(row.expires_at || ""),
+    lastUsedAt: String(row.last_used_at || ""),
+    lastUsedIp: String(row.last_used_ip || ""),
+    revokedAt: String(row.revoked_at || "")
+  };
+}
+
+function isApiTokenActive(token: ApiToken, now = Date.now()): boolean {
+  return !token.revokedAt && (!token.expiresAt || Date.parse(token.expiresAt) > now);
+}
+
+// The plain token is returned once and never stored.
+function createApiToken(input: CreateApiTokenInput): { token: string; record: ApiToken } {
+  const name = String(input.name || "").trim();
+  if (!name || name.length > 80) {
+    throw new Error("Название токена: от 1 до 80 символов");
+  }
+  if (!API_TOKEN_SCOPES.includes(input.scope)) {
+    throw new Error("Неизвестная область доступа токена");
+  }
+  if (input.expiresAt && !(Date.parse(input.expiresAt) > Date.now())) {
+    throw new Error("Срок действия токена должен быть в будущем");
+  }
+
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  const db = getDatabase();
+  const result = db
+    .prepare(`
+      INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, scope, created_at, created_by, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      input.userId,
+      name,
+      hashApiToken(token),
+      token.slice(0, TOKEN_PREFIX.length + 6),
+      input.scope,
+      new Date().toISOString(),
+      input.createdBy,
+      input.expiresAt || null
+    );
+
+  return { token, record: getApiToken(Number(result.lastInsertRowid)) as ApiToken };
+}
+
+function getApiToken(id: number): ApiToken | null {
+  const row = getDatabase().prepare("SELECT * FROM api_tokens WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+  return row ? normalizeRow(row) : null;
+}
+
+function listApiTokens(): ApiToken[] {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM api_tokens ORDER BY revoked_at IS NOT NULL, id DESC")
+    .all() as Record<string, unknown>[];
+  return rows.map(normalizeRow);
+}
+
+function revokeApiToken(id: number): boolean {
+  const result = getDatabase()
+    .prepare("UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+    .run(new Date().toISOString(), id);
+  return Number(result.changes || 0) > 0;
+}
+
+// Returns the token record for a valid, unexpired, unrevoked token. The last-used time is
+// written at most once a minute so busy scripts do not turn every read into a write.
+function authenticateApiToken(token: string, ip = ""): ApiToken | null {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const db = getDatabase();
+  const row = db.prepare("SELECT * FROM api_tokens WHERE token_hash = ?").get(hashApiToken(token)) as
+    | Record<string, unknown>
+    | undefined;
+  if (!row) {
+    return null;
+  }
+
+  const record = normalizeRow(row);
+  if (!isApiTokenActive(record)) {
+    return null;
+  }
+
+  const now = new Date();
+  if (!record.lastUsedAt || now.getTime() - Date.parse(record.lastUsedAt) > LAST_USED_INTERVAL_MS || record.lastUsedIp !== ip) {
+    db.prepare("UPDATE api_tokens SET last_used_at = ?, last_used_ip = ? WHERE id = ?").run(now.toISOString(), ip, record.id);
+    record.lastUsedAt = now.toISOString();
+    record.lastUsedIp = ip;
+  }
+  return record;
+}
+
+module.exports = {
+  API_TOKEN_SCOPES,
+  createApiToken,
+  getApiToken,
+  listApiTokens,
+  revokeApiToken,
+  authenticateApiToken,
+  isApiTokenActive
+};
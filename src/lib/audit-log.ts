@@ -0,0 +1,112 @@
+const { getDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+};
+
+type AuditOutcome = "allowed" | "denied";
+
+interface AuditEventInput {
+  userId?: number | null;
+  actor: string;
+  action: string;
+  target?: string;
+  outcome?: AuditOutcome;
+  ip?: string;
+  details?: Record<string, unknown>;
+}
+
+interface AuditEvent {
+  id: number;
+  createdAt: string;
+  userId: number | null;
+  actor: string;
+  action: string;
+  target: string;
+  outcome: AuditOutcome;
+  ip: string;
+  details: Record<string, unknown>;
+}
+
+interface AuditListFilters {
+  outcome?: AuditOutcome;
+  limit?: number;
+  offset?: number;
+}
+
+function parseDetails(raw: unknown): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(String(raw || "{}")) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function normalizeAuditRow(row: Record<string, unknown>): AuditEvent {
+  return {
+    id: Number(row.id || 0),
+    createdAt: String(row.created_at || ""),
+    userId: row.user_id === null || row.user_id === undefined ? null : Number(row.user_id),
+    actor: String(row.actor || ""),
+    action: String(row.action || ""),
+    target: String(row.target || ""),
+    outcome: row.outcome === "denied" ? "denied" : "allowed",
+    ip: String(row.ip || ""),
+    details: parseDetails(row.details)
+  };
+}
+
+// Audit writes must never break the request that triggered them, so failures are only logged.
+function recordAuditEvent(input: AuditEventInput): void {
+  try {
+    const db = getDatabase();
+    db.prepare(`
+      INSERT INTO admin_audit_log (created_at, user_id, actor, action, target, outcome, ip, details)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      new Date().toISOString(),
+      input.userId ?? null,
+      String(input.actor || "anonymous"),
+      String(input.action),
+      String(input.target || "").slice(0, 500),
+      input.outcome === "denied" ? "denied" : "allowed",
+      String(input.ip || ""),
+      JSON.stringify(input.details || {})
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[audit] cannot record ${input.action}: ${message}`);
+  }
+}
+
+function buildAuditWhere(filters: AuditListFilters): { where: string; params: string[] } {
+  if (filters.outcome) {
+    return { where: "WHERE outcome = ?", params: [filters.outcome] };
+  }
+  return { where: "", params: [] };
+}
+
+function listAuditEvents(filters: AuditListFilters = {}): AuditEvent[] {
+  const db = getDatabase();
+  const { where, params } = buildAuditWhere(filters);
+  const limit = Number.isFinite(filters.limit) ? Math.max(1, Math.floor(Number(filters.limit))) : 100;
+  const offset = Number.isFinite(filters.offset) ? Math.max(0, Math.floor(Number(filters.offset))) : 0;
+  const rows = db
+    .prepare(`SELECT * FROM admin_audit_log ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+    .all(...params, limit, offset) as Record<string, unknown>[];
+  return rows.map(normalizeAuditRow);
+}
+
+function countAuditEvents(filters: AuditListFilters = {}): number {
+  const db = getDatabase();
+  const { where, params } = buildAuditWhere(filters);
+  const row = db.prepare(`SELECT COUNT(*) AS total FROM admin_audit_log ${where}`).get(...params) as
+    | { total?: number }
+    | undefined;
+  return Number(row?.total || 0);
+}
+
+module.exports = {
+  recordAuditEvent,
+  listAuditEvents,
+  countAuditEvents
+};
@@ -0,0 +1,212 @@
+import type { MediaItem, SiteData } from "../types/content";
+
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+type SchemaNode = Record<string, unknown>;
+type NodeOptions = Record<string, unknown>;
+
+const t = require("./schema") as {
+  string: (options?: NodeOptions) => SchemaNode;
+  number: (options?: NodeOptions) => SchemaNode;
+  boolean: (options?: NodeOptions) => SchemaNode;
+  array: (items: SchemaNode, options?: NodeOptions) => SchemaNode;
+  object: (properties: Record<string, SchemaNode>, options?: NodeOptions) => SchemaNode;
+  optional: (node: SchemaNode) => SchemaNode;
+  validate: (node: SchemaNode, value: unknown) => ValidationIssue[];
+};
+
+const HOME_SECTION_KEYS = ["services", "process", "materials", "about", "gallery", "contacts"];
+
+const shortText = () => t.optional(t.string({ maxLength: 300 }));
+const longText = () => t.optional(t.string({ maxLength: 5000 }));
+const textList = (maxItems = 100) => t.optional(t.array(t.string({ maxLength: 1000 }), { maxItems }));
+const scheduleDate = () => t.optional(t.string({ format: "date-time", allowEmpty: true }));
+
+const seoSchema = t.object(
+  {
+    title: t.optional(t.string({ maxLength: 200 })),
+    description: t.optional(t.string({ maxLength: 500 })),
+    keywords: t.optional(t.string({ maxLength: 1000 })),
+    ogTitle: t.optional(t.string({ maxLength: 200 })),
+    ogDescription: t.optional(t.string({ maxLength: 500 }))
+  },
+  { optional: true }
+);
+
+const brandSchema = t.object(
+  {
+    name: shortText(),
+    legalName: shortText(),
+    category: shortText(),
+    city: shortText(),
+    address: shortText(),
+    postalCode: t.optional(t.string({ maxLength: 20 })),
+    region: shortText(),
+    country: shortText(),
+    coordinates: t.object(
+      {
+        lat: t.optional(t.number({ min: -90, max: 90 })),
+        lng: t.optional(t.number({ min: -180, max: 180 }))
+      },
+      { optional: true }
+    ),
+    phoneDisplay: t.optional(t.string({ maxLength: 40 })),
+    phoneValue: t.optional(t.string({ maxLength: 40, pattern: /^\+?[0-9\-() ]*$/, patternMessage: "Только цифры, пробелы, скобки и +" })),
+    email: t.optional(t.string({ maxLength: 200, format: "email", allowEmpty: true })),
+    workHours: shortText(),
+    workHoursIso: shortText(),
+    instagram: t.optional(t.string({ maxLength: 1000 })),
+    orderLink: t.optional(t.string({ maxLength: 1000 })),
+    map2gis: t.optional(t.string({ maxLength: 1000 })),
+    mapYandex: t.optional(t.string({ maxLength: 1000 }))
+  },
+  { optional: true }
+);
+
+const ctaSchema = t.object({ text: shortText(), url: t.optional(t.string({ maxLength: 1000 })) }, { optional: true });
+
+const heroSchema = t.object(
+  {
+    badge: shortText(),
+    title: shortText(),
+    subtitle: t.optional(t.string({ maxLength: 1000 })),
+    primaryCta: ctaSchema,
+    secondaryCta: ctaSchema
+  },
+  { optional: true }
+);
+
+const aboutSchema = t.object({ title: shortText(), text: longText(), facts: textList() }, { optional: true });
+
+const serviceItemSchema = t.object({
+  slug: t.string({
+    minLength: 1,
+    maxLength: 120,
+    pattern: /^[a-z0-9][a-z0-9-]*$/i,
+    patternMessage: "Slug: латиница, цифры и дефисы"
+  }),
+  title: t.string({ minLength: 1, maxLength: 200 }),
+  short: t.optional(t.string({ maxLength: 500 })),
+  description: longText(),
+  materials: textList(),
+  mediaIds: textList(200)
+});
+
+const faqItemSchema = t.object({
+  q: t.string({ minLength: 1, maxLength: 500 }),
+  a: t.string({ minLength: 1, maxLength: 5000 })
+});
+
+const metricsSchema = t.object(
+  {
+    instagramFollowers: t.optional(t.number({ integer: true, min: 0 })),
+    instagramPosts: t.optional(t.number({ integer: true, min: 0 })),
+    instagramHighlights: t.optional(t.number({ integer: true, min: 0 })),
+    twoGisRating: t.optional(t.number({ min: 0, max: 5 })),
+    twoGisReviews: t.optional(t.number({ integer: true, min: 0 }))
+  },
+  { optional: true }
+);
+
+const sectionVisibility = {
+  enabled: t.optional(t.boolean()),
+  visibleFrom: scheduleDate(),
+  visibleTo: scheduleDate()
+};
+
+const sectionBlockSchema = t.object({ title: shortText(), description: longText(), ...sectionVisibility }, { optional: true });
+
+const sectionsSchema = t.object(
+  {
+    order: t.optional(t.array(t.string({ enum: HOME_SECTION_KEYS }), { maxItems: HOME_SECTION_KEYS.length })),
+    services: sectionBlockSchema,
+    process: t.object(
+      { title: shortText(), description: longText(), steps: textList(20), ...sectionVisibility },
+      { optional: true }
+    ),
+    materials: sectionBlockSchema,
+    about: sectionBlockSchema,
+    gallery: sectionBlockSchema,
+    contacts: t.object({ title: shortText(), ...sectionVisibility }, { optional: true })
+  },
+  { optional: true }
+);
+
+const siteDataSchema = t.object({
+  seo: seoSchema,
+  brand: brandSchema,
+  hero: heroSchema,
+  about: aboutSchema,
+  services: t.optional(t.array(serviceItemSchema, { maxItems: 200, uniqueBy: "slug" })),
+  advantages: textList(),
+  faq: t.optional(t.array(faqItemSchema, { maxItems: 200 })),
+  metrics: metricsSchema,
+  sourceLinks: textList(),
+  sections: sectionsSchema
+});
+
+const mediaItemSchema = t.object({
+  id: t.string({ minLength: 1, maxLength: 200 }),
+  title: t.string({ maxLength: 300 }),
+  alt: t.string({ maxLength: 500 }),
+  source: t.string({ minLength: 1, maxLength: 40 }),
+  type: t.string({ enum: ["image", "video"] }),
+  originalUrl: t.string({ maxLength: 4000 }),
+  localOriginal: t.string({ maxLength: 500 }),
+  localOptimized: t.string({ minLength: 1, maxLength: 500, pattern: /^\/media\//, patternMessage: "Путь должен начинаться с /media/" }),
+  createdAt: t.string({ format: "date-time" }),
+  width: t.optional(t.number({ integer: true, min: 1 })),
+  height: t.optional(t.number({ integer: true, min: 1 })),
+  renditions: t.optional(
+    t.array(
+      t.object({
+        format: t.string({ enum: ["avif", "webp"] }),
+        width: t.number({ integer: true, min: 1 }),
+        src: t.string({ minLength: 1, maxLength: 500, pattern: /^\/media\//, patternMessage: "Путь должен начинаться с /media/" })
+      }),
+      { maxItems: 20 }
+    )
+  )
+});
+
+const mediaListSchema = t.array(mediaItemSchema, { uniqueBy: "id" });
+
+class ContentValidationError extends Error {
+  code: string;
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const first = issues[0];
+    super(first ? `Ошибка в поле ${first.path}: ${first.message}` : "Данные не прошли проверку");
+    this.name = "ContentValidationError";
+    this.code = "validation_failed";
+    this.issues = issues;
+  }
+}
+
+function validateSiteData(value: SiteData | unknown): ValidationIssue[] {
+  return t.validate(siteDataSchema, value);
+}
+
+function validateMediaItem(value: MediaItem | unknown): ValidationIssue[] {
+  return t.validate(mediaItemSchema, value);
+}
+
+function validateMediaList(value: MediaItem[] | unknown): ValidationIssue[] {
+  return t.validate(mediaListSchema, value);
+}
+
+module.exports = {
+  siteDataSchema,
+  serviceItemSchema,
+  faqItemSchema,
+  mediaItemSchema,
+  sectionsSchema,
+  ContentValidationError,
+  validateSiteData,
+  validateMediaItem,
+  validateMediaList
+};
@@ -1,17 +1,143 @@
 import type { MediaItem, SiteData } from "../types/content";
 
+const crypto = require("node:crypto") as typeof import("node:crypto");
 const fs = require("node:fs/promises") as typeof import("node:fs/promises");
 const path = require("node:path") as typeof import("node:path");
 const { getDatabase } = require("./sqlite-db") as {
   getDatabase: () => import("node:sqlite").DatabaseSync;
 };
+const { ContentValidationError, validateSiteData, validateMediaItem, validateMediaList } = require("./content-schema") as {
+  ContentValidationError: new (issues: ValidationIssue[]) => Error & { issues: ValidationIssue[] };
+  validateSiteData: (value: unknown) => ValidationIssue[];
+  validateMediaItem: (value: unknown) => ValidationIssue[];
+  validateMediaList: (value: unknown) => ValidationIssue[];
+};
+const {
+  getMediaStageState,
+  setMediaStageState,
+  listMediaItems,
+  getMediaItem,
+  createMediaItem,
+  updateMediaItem,
+  deleteMediaItem,
+  replaceMediaItems,
+  copyMediaStage,
+  findMissingMediaFiles
+} = require("./media-library") as {
+  getMediaStageState: (stage: MediaStage) => { version: number; updatedAt: string } | null;
+  setMediaStageState: (stage: MediaStage, version: number, updatedAt: string) => void;
+  listMediaItems: (stage: MediaStage) => MediaItem[];
+  getMediaItem: (stage: MediaStage, id: string) => (MediaItem & { version: number }) | null;
+  createMediaItem: (stage: MediaStage, item: MediaItem, version: number) => void;
+  updateMediaItem: (stage: MediaStage, id: string, patch: Partial<MediaItem>, version: number) => boolean;
+  deleteMediaItem: (stage: MediaStage, id: string) => boolean;
+  replaceMediaItems: (stage: MediaStage, items: MediaItem[], version: number) => void;
+  copyMediaStage: (from: MediaStage, to: MediaStage) => void;
+  findMissingMediaFiles: (items: MediaItem[]) => Promise<Array<{ id: string; url: string }>>;
+};
 
 const contentDir = path.join(process.cwd(), "content");
 const sitePath = path.join(contentDir, "site.json");
 const mediaPath = path.join(contentDir, "media.json");
+const quarantineDir = path.join(contentDir, "quarantine");
+
+const REVISION_LIMIT = Math.max(10, Number(process.env.CONTENT_REVISION_LIMIT || 200));
 
 type JsonValue = Record<string, unknown> | Array<unknown>;
 
+type StoreKey = "site" | "media" | "site:draft" | "media:draft";
+
+type MediaStage = "published" | "draft";
+
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+interface QuarantineRecord {
+  file: string;
+  source: string;
+  quarantinedAt: string;
+  issues: ValidationIssue[];
+}
+
+type ConsistencyStatus = "ok" | "restored" | "repaired" | "imported" | "seeded" | "quarantined";
+
+interface ConsistencyEntry {
+  key: StoreKey;
+  file: string;
+  status: ConsistencyStatus;
+  message: string;
+}
+
+interface ConsistencyReport {
+  checkedAt: string;
+  entries: ConsistencyEntry[];
+  removedTempFiles: string[];
+}
+
+interface SaveOptions {
+  author?: string;
+  summary?: string;
+  expectedVersion?: number;
+}
+
+interface ContentRevisionSummary {
+  id: number;
+  key: StoreKey;
+  version: number;
+  author: string;
+  summary: string;
+  createdAt: string;
+  size: number;
+}
+
+interface ContentRevision extends ContentRevisionSummary {
+  value: JsonValue;
+}
+
+// Only published entries are mirrored to JSON; drafts live in SQLite alone.
+const storeFiles: Partial<Record<StoreKey, string>> = {
+  site: sitePath,
+  media: mediaPath
+};
+
+// Media keys are backed by rows of the `media` table instead of a kv_store JSON blob.
+const mediaStages: Partial<Record<StoreKey, MediaStage>> = {
+  media: "published",
+  "media:draft": "draft"
+};
+
+const draftKeys: Partial<Record<StoreKey, StoreKey>> = {
+  site: "site:draft",
+  media: "media:draft"
+};
+
+interface DraftStatus {
+  site: boolean;
+  media: boolean;
+}
+
+interface PublishResult extends DraftStatus {
+  removedMedia: MediaItem[];
+}
+
+class ContentConflictError extends Error {
+  code: string;
+  key: StoreKey;
+  expectedVersion: number;
+  currentVersion: number;
+
+  constructor(key: StoreKey, expectedVersion: number, currentVersion: number) {
+    super(`Данные изменены другим редактором: ваша версия ${expectedVersion}, актуальная ${currentVersion}`);
+    this.name = "ContentConflictError";
+    this.code = "content_conflict";
+    this.key = key;
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
 async function readJson<T extends JsonValue>(filePath: string, fallback: T): Promise<T> {
   try {
     const raw = await fs.readFile(filePath, "utf8");
@@ -21,12 +147,72 @@ async function readJson<T extends JsonValue>(filePath: string, fallback: T): Pro
   }
 }
 
-async function writeJson(filePath: string, value: JsonValue): Promise<void> {
-  await fs.mkdir(path.dirname(filePath), { recursive: true });
-  await fs.writeFile(filePath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+const TEMP_FILE_PATTERN = /^\..+\.[0-9a-f]{8}\.tmp$/;
+
+async function syncDirectory(dirPath: string): Promise<void> {
+  try {
+    const handle = await fs.open(dirPath, "r");
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Not every platform allows fsync on a directory; the rename itself is still atomic.
+  }
+}
+
+// Write to a temp file in the same directory, fsync it and rename over the target,
+// so readers and crashes only ever see the old or the new file, never a truncated one.
+async function writeJson(filePath: string, value: JsonValue, mtimeMs = 0): Promise<void> {
+  const dirPath = path.dirname(filePath);
+  await fs.mkdir(dirPath, { recursive: true });
+
+  const tempPath = path.join(dirPath, `.${path.basename(filePath)}.${crypto.randomBytes(4).toString("hex")}.tmp`);
+  try {
+    const handle = await fs.open(tempPath, "w");
+    try {
+      await handle.writeFile(`${JSON.stringify(value, null, 2)}\n`, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    if (mtimeMs > 0) {
+      await fs.utimes(tempPath, new Date(mtimeMs), new Date(mtimeMs));
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+
+  await syncDirectory(dirPath);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
 }
 
-function readStoreEntry<T extends JsonValue>(key: string, fallback: T): { value: T; updatedAt: number } {
+function readStoreEntry<T extends JsonValue>(key: StoreKey, fallback: T): { value: T; updatedAt: number } {
+  const stage = mediaStages[key];
+  if (stage) {
+    const state = getMediaStageState(stage);
+    if (!state) {
+      return { value: fallback, updatedAt: 0 };
+    }
+    return { value: listMediaItems(stage) as unknown as T, updatedAt: Date.parse(state.updatedAt) || 0 };
+  }
+
   const db = getDatabase();
   const row = db
     .prepare("SELECT value, updated_at FROM kv_store WHERE key = ? LIMIT 1")
@@ -54,18 +240,217 @@ async function readFileMtime(filePath: string): Promise<number> {
   }
 }
 
-function writeStoreEntry(key: string, value: JsonValue): void {
+function getContentVersion(key: StoreKey): number {
+  const stage = mediaStages[key];
+  if (stage) {
+    return getMediaStageState(stage)?.version || 0;
+  }
+
+  const db = getDatabase();
+  const row = db.prepare("SELECT version FROM kv_store WHERE key = ? LIMIT 1").get(key) as { version?: number } | undefined;
+  return Number(row?.version || 0);
+}
+
+function toEtag(key: StoreKey, version: number): string {
+  return `"${key}-v${version}"`;
+}
+
+// Must run inside the caller's transaction.
+function writeStoreEntryLocked(key: StoreKey, value: JsonValue, options: SaveOptions, nowIso: string): number {
+  const db = getDatabase();
+  const serialized = JSON.stringify(value);
+  const currentVersion = getContentVersion(key);
+  if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+    throw new ContentConflictError(key, options.expectedVersion, currentVersion);
+  }
+  const nextVersion = currentVersion + 1;
+
+  const stage = mediaStages[key];
+  if (stage) {
+    replaceMediaItems(stage, value as MediaItem[], nextVersion);
+    setMediaStageState(stage, nextVersion, nowIso);
+  } else {
+    db.prepare(`
+      INSERT INTO kv_store (key, value, updated_at, version)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at, version = excluded.version
+    `).run(key, serialized, nowIso, nextVersion);
+  }
+
+  recordRevision(key, nextVersion, serialized, options, nowIso);
+  return nextVersion;
+}
+
+function writeStoreEntries(entries: Array<{ key: StoreKey; value: JsonValue }>, options: SaveOptions = {}): number[] {
   const db = getDatabase();
   const nowIso = new Date().toISOString();
 
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    const versions = entries.map((entry) => writeStoreEntryLocked(entry.key, entry.value, options, nowIso));
+    db.exec("COMMIT");
+    return versions;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+function writeStoreEntry(key: StoreKey, value: JsonValue, options: SaveOptions = {}): number {
+  return writeStoreEntries([{ key, value }], options)[0];
+}
+
+// Must run inside the caller's transaction.
+function recordRevision(key: StoreKey, version: number, serialized: string, options: SaveOptions, nowIso: string): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO content_revisions (store_key, version, value, author, summary, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    key,
+    version,
+    serialized,
+    String(options.author || "system").slice(0, 120),
+    String(options.summary || "").slice(0, 300),
+    nowIso
+  );
+
+  // Keep history bounded: the oldest revisions of this key are dropped first.
   db.prepare(`
-    INSERT INTO kv_store (key, value, updated_at)
-    VALUES (?, ?, ?)
-    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
-  `).run(key, JSON.stringify(value), nowIso);
+    DELETE FROM content_revisions
+    WHERE store_key = ? AND id NOT IN (
+      SELECT id FROM content_revisions WHERE store_key = ? ORDER BY id DESC LIMIT ?
+    )
+  `).run(key, key, REVISION_LIMIT);
+}
+
+// Row-level edits of the draft library. The worker and admin actions touch different rows,
+// so a finished import can no longer overwrite a concurrent delete (or vice versa).
+function changeDraftMedia(options: SaveOptions, change: (nextVersion: number, currentVersion: number) => void): number {
+  const db = getDatabase();
+  const nowIso = new Date().toISOString();
+  let nextVersion = 0;
+
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    if (!getMediaStageState("draft")) {
+      copyMediaStage("published", "draft");
+    }
+    const currentVersion = getContentVersion("media:draft");
+    nextVersion = currentVersion + 1;
+
+    change(nextVersion, currentVersion);
+    setMediaStageState("draft", nextVersion, nowIso);
+    recordRevision("media:draft", nextVersion, JSON.stringify(listMediaItems("draft")), options, nowIso);
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+
+  return nextVersion;
 }
 
-async function maybeHydrateStoreFromJson<T extends JsonValue>(key: string, filePath: string, fallback: T): Promise<T> {
+// A stale form only conflicts when its own item changed since the form was rendered.
+function findDraftMediaForEdit(id: string, expectedVersion: number | undefined, currentVersion: number) {
+  const record = getMediaItem("draft", id);
+  if (expectedVersion !== undefined && (record ? record.version : currentVersion) > expectedVersion) {
+    throw new ContentConflictError("media:draft", expectedVersion, currentVersion);
+  }
+  if (!record) {
+    throw new Error("Медиа не найдено");
+  }
+  return record;
+}
+
+function validateStoreValue(key: StoreKey, value: unknown): ValidationIssue[] {
+  return key.startsWith("media") ? validateMediaList(value) : validateSiteData(value);
+}
+
+async function readJsonForHydration<T extends JsonValue>(
+  key: StoreKey,
+  filePath: string
+): Promise<{ value: T | null; issues: ValidationIssue[] }> {
+  let raw = "";
+  try {
+    raw = await fs.readFile(filePath, "utf8");
+  } catch {
+    return { value: null, issues: [] };
+  }
+
+  let parsed: T;
+  try {
+    parsed = JSON.parse(raw) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "ошибка разбора";
+    return { value: null, issues: [{ path: "$", message: `Некорректный JSON: ${message}` }] };
+  }
+
+  const issues = validateStoreValue(key, parsed);
+  return { value: issues.length ? null : parsed, issues };
+}
+
+// Invalid external edits are moved aside with their errors instead of being loaded.
+async function quarantineFile(filePath: string, issues: ValidationIssue[]): Promise<void> {
+  await fs.mkdir(quarantineDir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const target = path.join(quarantineDir, `${path.basename(filePath, ".json")}-${stamp}.json`);
+  const record: QuarantineRecord = {
+    file: path.basename(target),
+    source: path.basename(filePath),
+    quarantinedAt: new Date().toISOString(),
+    issues: issues.slice(0, 100)
+  };
+
+  await fs.rename(filePath, target);
+  await writeJson(`${target}.errors`, record as unknown as JsonValue);
+  console.warn(`[content-store] ${record.source} quarantined as ${record.file}: ${issues[0]?.path} ${issues[0]?.message}`);
+}
+
+async function listQuarantinedFiles(): Promise<QuarantineRecord[]> {
+  let names: string[] = [];
+  try {
+    names = await fs.readdir(quarantineDir);
+  } catch {
+    return [];
+  }
+
+  const records = await Promise.all(
+    names
+      .filter((name) => name.endsWith(".json.errors"))
+      .map((name) => readJson<Record<string, unknown>>(path.join(quarantineDir, name), {}))
+  );
+
+  return (records as unknown as QuarantineRecord[])
+    .filter((record) => record && record.file)
+    .sort((a, b) => String(b.quarantinedAt).localeCompare(String(a.quarantinedAt)));
+}
+
+const mirrorWrites = new Map<string, Promise<void>>();
+
+// Mirrors are written one at a time per file from the committed DB state, never from the
+// caller's value, so concurrent saves cannot leave an older version on disk. The file gets
+// the DB timestamp as mtime, which keeps the external-edit check from picking it up again.
+function syncMirror(key: StoreKey): Promise<void> {
+  const filePath = storeFiles[key];
+  if (!filePath) {
+    return Promise.resolve();
+  }
+
+  const previous = mirrorWrites.get(filePath) || Promise.resolve();
+  const next = previous
+    .catch(() => {})
+    .then(async () => {
+      const { value, updatedAt } = readStoreEntry<JsonValue>(key, {});
+      if (updatedAt > 0) {
+        await writeJson(filePath, value, updatedAt);
+      }
+    });
+  mirrorWrites.set(filePath, next);
+  return next;
+}
+
+async function maybeHydrateStoreFromJson<T extends JsonValue>(key: StoreKey, filePath: string, fallback: T): Promise<T> {
   const { value: storeValue, updatedAt } = readStoreEntry<T>(key, fallback);
   const fileMtime = await readFileMtime(filePath);
 
@@ -75,9 +460,21 @@ async function maybeHydrateStoreFromJson<T extends JsonValue>(key: string, fileP
 
   // If JSON was changed externally after DB update, prioritize file and rehydrate DB.
   if (fileMtime > updatedAt + 1000) {
-    const jsonValue = await readJson<T>(filePath, fallback);
-    writeStoreEntry(key, jsonValue);
-    return jsonValue;
+    const { value: jsonValue, issues } = await readJsonForHydration<T>(key, filePath);
+    if (jsonValue) {
+      writeStoreEntry(key, jsonValue, { summary: `Внешнее изменение ${path.basename(filePath)}` });
+      await syncMirror(key);
+      return jsonValue;
+    }
+
+    if (issues.length) {
+      await quarantineFile(filePath, issues);
+    }
+    if (updatedAt > 0) {
+      await syncMirror(key);
+      return storeValue;
+    }
+    return fallback;
   }
 
   if (updatedAt > 0) {
@@ -85,35 +482,407 @@ async function maybeHydrateStoreFromJson<T extends JsonValue>(key: string, fileP
   }
 
   // First start: seed from JSON if available.
-  const initialValue = await readJson<T>(filePath, fallback);
-  writeStoreEntry(key, initialValue);
+  const { value: initialValue, issues } = await readJsonForHydration<T>(key, filePath);
+  if (!initialValue) {
+    if (issues.length) {
+      await quarantineFile(filePath, issues);
+    }
+    return fallback;
+  }
+
+  writeStoreEntry(key, initialValue, { summary: `Начальная загрузка из ${path.basename(filePath)}` });
+  await syncMirror(key);
   return initialValue;
 }
 
-async function saveStoreAndMirror(key: string, filePath: string, value: JsonValue): Promise<void> {
-  await writeJson(filePath, value);
-  writeStoreEntry(key, value);
+async function saveStoreAndMirror(key: StoreKey, value: JsonValue, options: SaveOptions = {}): Promise<number> {
+  const issues = validateStoreValue(key, value);
+  if (issues.length) {
+    throw new ContentValidationError(issues);
+  }
+
+  // SQLite is the source of truth and is committed first (with the version check);
+  // the mirror is only rendered from it afterwards, so a rejected save never touches the file.
+  const version = writeStoreEntry(key, value, options);
+  await syncMirror(key);
+  return version;
+}
+
+let lastConsistencyReport: ConsistencyReport | null = null;
+
+async function removeStaleTempFiles(): Promise<string[]> {
+  let names: string[] = [];
+  try {
+    names = await fs.readdir(contentDir);
+  } catch {
+    return [];
+  }
+
+  const stale = names.filter((name) => TEMP_FILE_PATTERN.test(name));
+  await Promise.all(stale.map((name) => fs.unlink(path.join(contentDir, name)).catch(() => {})));
+  return stale;
+}
+
+async function checkMirror(key: StoreKey, filePath: string): Promise<ConsistencyEntry> {
+  const file = path.basename(filePath);
+  const { value: storeValue, updatedAt } = readStoreEntry<JsonValue>(key, {});
+  const fileMtime = await readFileMtime(filePath);
+  const entry = (status: ConsistencyStatus, message: string): ConsistencyEntry => ({ key, file, status, message });
+
+  if (fileMtime === 0) {
+    if (updatedAt === 0) {
+      return entry("ok", "Нет ни записи в базе, ни файла");
+    }
+    await syncMirror(key);
+    return entry("restored", "Файл отсутствовал и восстановлен из базы");
+  }
+
+  const { value: fileValue, issues } = await readJsonForHydration<JsonValue>(key, filePath);
+  if (!fileValue) {
+    await quarantineFile(filePath, issues);
+    await syncMirror(key);
+    return entry("quarantined", `Файл повреждён или невалиден (${issues[0]?.path}: ${issues[0]?.message}), перемещён в карантин`);
+  }
+
+  if (updatedAt === 0) {
+    writeStoreEntry(key, fileValue, { summary: `Начальная загрузка из ${file}` });
+    await syncMirror(key);
+    return entry("seeded", "База заполнена из файла");
+  }
+
+  if (stableStringify(fileValue) === stableStringify(storeValue)) {
+    if (Math.abs(fileMtime - updatedAt) > 1000) {
+      await fs.utimes(filePath, new Date(updatedAt), new Date(updatedAt));
+    }
+    return entry("ok", "Файл совпадает с базой");
+  }
+
+  // A newer file is an external edit; an older one is a mirror write that never happened.
+  if (fileMtime > updatedAt + 1000) {
+    writeStoreEntry(key, fileValue, { summary: `Внешнее изменение ${file}` });
+    await syncMirror(key);
+    return entry("imported", "Файл новее базы: изменения загружены в базу");
+  }
+
+  await syncMirror(key);
+  return entry("repaired", "Файл расходился с базой и перезаписан из неё");
+}
+
+// Run once at startup, before requests are served.
+async function checkContentConsistency(): Promise<ConsistencyReport> {
+  const removedTempFiles = await removeStaleTempFiles();
+  const entries: ConsistencyEntry[] = [];
+
+  for (const [key, filePath] of Object.entries(storeFiles) as Array<[StoreKey, string]>) {
+    entries.push(await checkMirror(key, filePath));
+  }
+
+  lastConsistencyReport = { checkedAt: new Date().toISOString(), entries, removedTempFiles };
+  return lastConsistencyReport;
+}
+
+// After the database itself was replaced (backup restore) the files must follow it, not the other way round.
+async function rewriteMirrors(): Promise<void> {
+  for (const key of Object.keys(storeFiles) as StoreKey[]) {
+    await syncMirror(key);
+  }
+}
+
+function getConsistencyReport(): ConsistencyReport | null {
+  return lastConsistencyReport;
+}
+
+// Several keys in one transaction: either all of them change or none (used by bundle import).
+async function saveStoresAtomically(
+  entries: Array<{ key: StoreKey; value: JsonValue }>,
+  options: SaveOptions = {}
+): Promise<number[]> {
+  for (const entry of entries) {
+    const issues = validateStoreValue(entry.key, entry.value);
+    if (issues.length) {
+      throw new ContentValidationError(issues);
+    }
+  }
+
+  const versions = writeStoreEntries(entries, options);
+  for (const entry of entries) {
+    await syncMirror(entry.key);
+  }
+  return versions;
 }
 
 async function loadSite(): Promise<SiteData> {
   return maybeHydrateStoreFromJson<SiteData>("site", sitePath, {} as SiteData);
 }
 
-async function saveSite(data: SiteData): Promise<void> {
-  await saveStoreAndMirror("site", sitePath, data);
+async function saveSite(data: SiteData, options: SaveOptions = {}): Promise<number> {
+  return saveStoreAndMirror("site", data, options);
 }
 
 async function loadMedia(): Promise<MediaItem[]> {
   return maybeHydrateStoreFromJson<MediaItem[]>("media", mediaPath, []);
 }
 
-async function saveMedia(data: MediaItem[]): Promise<void> {
-  await saveStoreAndMirror("media", mediaPath, data);
+async function saveMedia(data: MediaItem[], options: SaveOptions = {}): Promise<number> {
+  return saveStoreAndMirror("media", data, options);
+}
+
+// A draft that was never saved is simply a copy of the published entry.
+async function loadDraftSite(): Promise<SiteData> {
+  const published = await loadSite();
+  return readStoreEntry<SiteData>("site:draft", published).value;
+}
+
+async function saveDraftSite(data: SiteData, options: SaveOptions = {}): Promise<number> {
+  return saveStoreAndMirror("site:draft", data, options);
+}
+
+async function loadDraftMedia(): Promise<MediaItem[]> {
+  const published = await loadMedia();
+  return readStoreEntry<MediaItem[]>("media:draft", published).value;
+}
+
+async function saveDraftMedia(data: MediaItem[], options: SaveOptions = {}): Promise<number> {
+  return saveStoreAndMirror("media:draft", data, options);
+}
+
+async function addDraftMediaItem(item: MediaItem, options: SaveOptions = {}): Promise<number> {
+  const issues = validateMediaItem(item);
+  if (issues.length) {
+    throw new ContentValidationError(issues);
+  }
+
+  await loadMedia();
+  return changeDraftMedia(options, (nextVersion) => {
+    if (getMediaItem("draft", item.id)) {
+      throw new ContentValidationError([{ path: "id", message: `Значение «${item.id}» уже используется` }]);
+    }
+    createMediaItem("draft", item, nextVersion);
+  });
+}
+
+async function updateDraftMediaItem(
+  id: string,
+  patch: Partial<Pick<MediaItem, "title" | "alt">>,
+  options: SaveOptions = {}
+): Promise<number> {
+  await loadMedia();
+  return changeDraftMedia(options, (nextVersion, currentVersion) => {
+    const record = findDraftMediaForEdit(id, options.expectedVersion, currentVersion);
+    const { version: _version, ...current } = record;
+    const issues = validateMediaItem({ ...current, ...patch });
+    if (issues.length) {
+      throw new ContentValidationError(issues);
+    }
+    updateMediaItem("draft", id, patch, nextVersion);
+  });
+}
+
+async function removeDraftMediaItem(id: string, options: SaveOptions = {}): Promise<number> {
+  await loadMedia();
+  return changeDraftMedia(options, (_nextVersion, currentVersion) => {
+    findDraftMediaForEdit(id, options.expectedVersion, currentVersion);
+    deleteMediaItem("draft", id);
+  });
+}
+
+async function getDraftStatus(): Promise<DraftStatus> {
+  const [site, draftSite, media, draftMedia] = await Promise.all([loadSite(), loadDraftSite(), loadMedia(), loadDraftMedia()]);
+  return {
+    site: JSON.stringify(site) !== JSON.stringify(draftSite),
+    media: JSON.stringify(media) !== JSON.stringify(draftMedia)
+  };
+}
+
+async function publishDrafts(options: SaveOptions = {}): Promise<PublishResult> {
+  const [site, draftSite, media, draftMedia] = await Promise.all([loadSite(), loadDraftSite(), loadMedia(), loadDraftMedia()]);
+  const result: PublishResult = {
+    site: JSON.stringify(site) !== JSON.stringify(draftSite),
+    media: JSON.stringify(media) !== JSON.stringify(draftMedia),
+    removedMedia: []
+  };
+  const summary = options.summary || "Публикация черновика";
+  const entries: Array<{ key: StoreKey; value: JsonValue }> = [];
+
+  if (result.site) {
+    entries.push({ key: "site", value: draftSite as unknown as JsonValue });
+  }
+
+  if (result.media) {
+    const draftIds = new Set(draftMedia.map((item) => item.id));
+    result.removedMedia = media.filter((item) => !draftIds.has(item.id));
+    entries.push({ key: "media", value: draftMedia as unknown as JsonValue });
+  }
+
+  // Site and media go live together, so pages never reference media that was not published with them.
+  if (entries.length) {
+    await saveStoresAtomically(entries, { author: options.author, summary });
+  }
+  return result;
+}
+
+async function discardDrafts(options: SaveOptions = {}): Promise<DraftStatus> {
+  const [site, draftSite, media, draftMedia] = await Promise.all([loadSite(), loadDraftSite(), loadMedia(), loadDraftMedia()]);
+  const result: DraftStatus = {
+    site: JSON.stringify(site) !== JSON.stringify(draftSite),
+    media: JSON.stringify(media) !== JSON.stringify(draftMedia)
+  };
+  const summary = options.summary || "Черновик сброшен к опубликованной версии";
+  const entries: Array<{ key: StoreKey; value: JsonValue }> = [];
+
+  if (result.site) {
+    entries.push({ key: "site:draft", value: site as unknown as JsonValue });
+  }
+  if (result.media) {
+    entries.push({ key: "media:draft", value: media as unknown as JsonValue });
+  }
+
+  if (entries.length) {
+    await saveStoresAtomically(entries, { author: options.author, summary });
+  }
+  return result;
+}
+
+function normalizeRevisionRow(row: Record<string, unknown>): ContentRevisionSummary {
+  return {
+    id: Number(row.id || 0),
+    key: String(row.store_key || "site") as StoreKey,
+    version: Number(row.version || 0),
+    author: String(row.author || ""),
+    summary: String(row.summary || ""),
+    createdAt: String(row.created_at || ""),
+    size: Number(row.size || 0)
+  };
+}
+
+function listContentRevisions(key?: StoreKey, limit = 100): ContentRevisionSummary[] {
+  const db = getDatabase();
+  const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(500, Math.floor(limit))) : 100;
+  const rows = key
+    ? (db
+        .prepare(`
+          SELECT id, store_key, version, author, summary, created_at, length(value) AS size
+          FROM content_revisions
+          WHERE store_key = ?
+          ORDER BY id DESC
+          LIMIT ?
+        `)
+        .all(key, safeLimit) as Record<string, unknown>[])
+    : (db
+        .prepare(`
+          SELECT id, store_key, version, author, summary, created_at, length(value) AS size
+          FROM content_revisions
+          ORDER BY id DESC
+          LIMIT ?
+        `)
+        .all(safeLimit) as Record<string, unknown>[]);
+
+  return rows.map(normalizeRevisionRow);
+}
+
+function parseRevisionRow(row: Record<string, unknown> | undefined): ContentRevision | null {
+  if (!row || typeof row.value !== "string") {
+    return null;
+  }
+
+  try {
+    return {
+      ...normalizeRevisionRow(row),
+      value: JSON.parse(row.value) as JsonValue
+    };
+  } catch {
+    return null;
+  }
+}
+
+function getContentRevision(id: number): ContentRevision | null {
+  const db = getDatabase();
+  const row = db
+    .prepare(`
+      SELECT id, store_key, version, value, author, summary, created_at, length(value) AS size
+      FROM content_revisions
+      WHERE id = ?
+      LIMIT 1
+    `)
+    .get(id) as Record<string, unknown> | undefined;
+
+  return parseRevisionRow(row);
+}
+
+function getContentRevisionByVersion(key: StoreKey, version: number): ContentRevision | null {
+  const db = getDatabase();
+  const row = db
+    .prepare(`
+      SELECT id, store_key, version, value, author, summary, created_at, length(value) AS size
+      FROM content_revisions
+      WHERE store_key = ? AND version = ?
+      ORDER BY id DESC
+      LIMIT 1
+    `)
+    .get(key, version) as Record<string, unknown> | undefined;
+
+  return parseRevisionRow(row);
+}
+
+async function restoreContentRevision(id: number, options: SaveOptions = {}): Promise<ContentRevision> {
+  const revision = getContentRevision(id);
+  if (!revision) {
+    throw new Error(`Ревизия #${id} не найдена`);
+  }
+
+  // Publishing deletes the files of removed items, so an older media list may point at files that are gone.
+  if (mediaStages[revision.key]) {
+    const missing = await findMissingMediaFiles(revision.value as unknown as MediaItem[]);
+    if (missing.length) {
+      const shown = missing
+        .slice(0, 5)
+        .map((file) => `${file.id}: ${file.url}`)
+        .join(", ");
+      const more = missing.length > 5 ? ` и ещё ${missing.length - 5}` : "";
+      throw new Error(`Ревизия #${id} ссылается на удалённые файлы медиа (${shown}${more}), восстановление отменено`);
+    }
+  }
+
+  // Rolling back published content resets its draft too, otherwise the next publish would bring
+  // the rolled-back content straight back.
+  const entries: Array<{ key: StoreKey; value: JsonValue }> = [{ key: revision.key, value: revision.value }];
+  const draftKey = draftKeys[revision.key];
+  if (draftKey) {
+    entries.push({ key: draftKey, value: revision.value });
+  }
+
+  await saveStoresAtomically(entries, {
+    author: options.author,
+    summary: options.summary || `Откат к ревизии #${revision.id}`
+  });
+  return revision;
 }
 
 module.exports = {
   loadSite,
   saveSite,
   loadMedia,
-  saveMedia
+  saveMedia,
+  loadDraftSite,
+  saveDraftSite,
+  loadDraftMedia,
+  saveDraftMedia,
+  addDraftMediaItem,
+  updateDraftMediaItem,
+  removeDraftMediaItem,
+  saveStoresAtomically,
+  getDraftStatus,
+  publishDrafts,
+  discardDrafts,
+  listQuarantinedFiles,
+  checkContentConsistency,
+  getConsistencyReport,
+  rewriteMirrors,
+  getContentVersion,
+  toEtag,
+  ContentConflictError,
+  listContentRevisions,
+  getContentRevision,
+  getContentRevisionByVersion,
+  restoreContentRevision
 };
@@ -0,0 +1,187 @@
+const crypto = require("node:crypto") as typeof import("node:crypto");
+const { getDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+};
+
+interface CspViolation {
+  directive: string;
+  blockedUri: string;
+  documentUri: string;
+  sourceFile: string;
+  lineNumber: number | null;
+  sample: string;
+  disposition: string;
+}
+
+interface CspReport extends CspViolation {
+  id: number;
+  userAgent: string;
+  hits: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+const CSP_REPORTS_MAX_ROWS = 500;
+
+function field(source: Record<string, unknown>, ...keys: string[]): string {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === "string" || typeof value === "number") {
+      return String(value).slice(0, 500);
+    }
+  }
+  return "";
+}
+
+// Query strings and fragments carry tokens and personal data, and only make fingerprints unique.
+function stripUrlQuery(value: string): string {
+  return value.replace(/[?#].*$/, "");
+}
+
+function toViolation(source: Record<string, unknown>): CspViolation | null {
+  const directive = field(source, "effectiveDirective", "effective-directive", "violated-directive").split(" ")[0];
+  if (!directive) {
+    return null;
+  }
+
+  const lineNumber = Number(field(source, "lineNumber", "line-number"));
+  return {
+    directive,
+    blockedUri: stripUrlQuery(field(source, "blockedURL", "blocked-uri")),
+    documentUri: stripUrlQuery(field(source, "documentURL", "document-uri")),
+    sourceFile: stripUrlQuery(field(source, "sourceFile", "source-file")),
+    lineNumber: Number.isFinite(lineNumber) && lineNumber > 0 ? Math.floor(lineNumber) : null,
+    sample: field(source, "sample", "script-sample").slice(0, 200),
+    disposition: field(source, "disposition") === "report" ? "report" : "enforce"
+  };
+}
+
+// Accepts both the legacy `report-uri` body ({"csp-report": {...}}) and the
+// Reporting API batch ([{type: "csp-violation", body: {...}}]).
+function parseCspReportBody(body: unknown): CspViolation[] {
+  const violations: CspViolation[] = [];
+
+  if (Array.isArray(body)) {
+    for (const entry of body.slice(0, 20)) {
+      const report = entry as Record<string, unknown> | null;
+      if (report?.type !== "csp-violation" || !report.body || typeof report.body !== "object") {
+        continue;
+      }
+      const violation = toViolation(report.body as Record<string, unknown>);
+      if (violation) {
+        violations.push(violation);
+      }
+    }
+    return violations;
+  }
+
+  const legacy = (body as Record<string, unknown> | null)?.["csp-report"];
+  if (legacy && typeof legacy === "object") {
+    const violation = toViolation(legacy as Record<string, unknown>);
+    if (violation) {
+      violations.push(violation);
+    }
+  }
+  return violations;
+}
+
+function fingerprintViolation(violation: CspViolation): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      [violation.directive, violation.blockedUri, violation.documentUri, violation.sourceFile, violation.lineNumber ?? ""].join(
+        "\n"
+      )
+    )
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function recordCspViolations(violations: CspViolation[], userAgent = ""): void {
+  if (!violations.length) {
+    return;
+  }
+
+  const db = getDatabase();
+  const now = new Date().toISOString();
+  const upsert = db.prepare(`
+    INSERT INTO csp_reports (
+      fingerprint, directive, blocked_uri, document_uri, source_file, line_number,
+      sample, disposition, user_agent, hits, first_seen_at, last_seen_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
+    ON CONFLICT(fingerprint) DO UPDATE SET
+      hits = hits + 1,
+      sample = excluded.sample,
+      disposition = excluded.disposition,
+      user_agent = excluded.user_agent,
+      last_seen_at = excluded.last_seen_at
+  `);
+
+  for (const violation of violations) {
+    upsert.run(
+      fingerprintViolation(violation),
+      violation.directive,
+      violation.blockedUri,
+      violation.documentUri,
+      violation.sourceFile,
+      violation.lineNumber,
+      violation.sample,
+      violation.disposition,
+      String(userAgent || "").slice(0, 300),
+      now,
+      now
+    );
+  }
+
+  // Anyone can post reports, so the table is capped instead of growing without bound.
+  db.prepare(`
+    DELETE FROM csp_reports
+    WHERE id NOT IN (SELECT id FROM csp_reports ORDER BY last_seen_at DESC, id DESC LIMIT ?)
+  `).run(CSP_REPORTS_MAX_ROWS);
+}
+
+function normalizeCspReportRow(row: Record<string, unknown>): CspReport {
+  return {
+    id: Number(row.id || 0),
+    directive: String(row.directive || ""),
+    blockedUri: String(row.blocked_uri || ""),
+    documentUri: String(row.document_uri || ""),
+    sourceFile: String(row.source_file || ""),
+    lineNumber: row.line_number === null || row.line_number === undefined ? null : Number(row.line_number),
+    sample: String(row.sample || ""),
+    disposition: String(row.disposition || "enforce"),
+    userAgent: String(row.user_agent || ""),
+    hits: Number(row.hits || 0),
+    firstSeenAt: String(row.first_seen_at || ""),
+    lastSeenAt: String(row.last_seen_at || "")
+  };
+}
+
+function listCspReports(limit = 200): CspReport[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare("SELECT * FROM csp_reports ORDER BY last_seen_at DESC, id DESC LIMIT ?")
+    .all(Math.max(1, Math.floor(limit))) as Record<string, unknown>[];
+  return rows.map(normalizeCspReportRow);
+}
+
+function countCspReports(): number {
+  const db = getDatabase();
+  const row = db.prepare("SELECT COUNT(*) AS total FROM csp_reports").get() as { total?: number } | undefined;
+  return Number(row?.total || 0);
+}
+
+function clearCspReports(): number {
+  const db = getDatabase();
+  const result = db.prepare("DELETE FROM csp_reports").run();
+  return Number(result.changes || 0);
+}
+
+module.exports = {
+  parseCspReportBody,
+  recordCspViolations,
+  listCspReports,
+  countCspReports,
+  clearCspReports
+};
@@ -0,0 +1,407 @@
+import type { MediaItem } from "../types/content";
+
+const fs = require("node:fs/promises") as typeof import("node:fs/promises");
+const path = require("node:path") as typeof import("node:path");
+const sqlite = require("node:sqlite") as typeof import("node:sqlite");
+const { getDatabase, openDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+  openDatabase: (dbPath?: string) => import("node:sqlite").DatabaseSync;
+};
+const { getMigrationStatus, runMigrations, LATEST_SCHEMA_VERSION } = require("./migrations") as {
+  getMigrationStatus: (db: import("node:sqlite").DatabaseSync) => { currentVersion: number };
+  runMigrations: (db: import("node:sqlite").DatabaseSync) => number[];
+  LATEST_SCHEMA_VERSION: number;
+};
+const { rewriteMirrors } = require("./content-store") as {
+  rewriteMirrors: () => Promise<void>;
+};
+const { deleteMediaItem, findMissingMediaFiles } = require("./media-library") as {
+  deleteMediaItem: (stage: MediaStage, id: string) => boolean;
+  findMissingMediaFiles: (items: MediaItem[]) => Promise<Array<{ id: string; url: string }>>;
+};
+
+type BackupKind = "scheduled" | "manual" | "pre-restore";
+
+type MediaStage = "published" | "draft";
+
+interface MediaRowRef {
+  stage: MediaStage;
+  id: string;
+}
+
+interface BackupRecord {
+  file: string;
+  kind: BackupKind;
+  size: number;
+  createdAt: string;
+  keptAs: Array<"daily" | "weekly">;
+}
+
+interface BackupSettings {
+  dir: string;
+  schedule: string;
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+const backupDir = path.resolve(process.cwd(), process.env.BACKUP_DIR || "backups");
+const BACKUP_SCHEDULE = String(process.env.BACKUP_SCHEDULE || "30 3 * * *").trim();
+const KEEP_DAILY = Math.max(1, Number(process.env.BACKUP_KEEP_DAILY || 7));
+const KEEP_WEEKLY = Math.max(0, Number(process.env.BACKUP_KEEP_WEEKLY || 4));
+
+// Accounts, credentials, sessions and the audit trail always keep their live rows: rolling them back
+// would bring back revoked sessions and tokens, old password hashes and lifted lockouts.
+const LIVE_ONLY_TABLES = new Set([
+  "admin_users",
+  "admin_recovery_codes",
+  "sessions",
+  "api_tokens",
+  "login_attempts",
+  "login_throttle",
+  "admin_audit_log"
+]);
+
+const BACKUP_FILE_PATTERN = /^white-lab-(\d{8})-(\d{6})-(scheduled|manual|pre-restore)\.sqlite$/;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatStamp(date: Date): string {
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+function parseStamp(day: string, time: string): Date {
+  return new Date(
+    Number(day.slice(0, 4)),
+    Number(day.slice(4, 6)) - 1,
+    Number(day.slice(6, 8)),
+    Number(time.slice(0, 2)),
+    Number(time.slice(2, 4)),
+    Number(time.slice(4, 6))
+  );
+}
+
+// Monday-based week key, so "weekly" means one copy per calendar week.
+function weekKey(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return `${monday.getFullYear()}-${pad(monday.getMonth() + 1)}-${pad(monday.getDate())}`;
+}
+
+function resolveBackupPath(file: string): string {
+  if (!BACKUP_FILE_PATTERN.test(file)) {
+    throw new Error("Резервная копия не найдена");
+  }
+  return path.join(backupDir, file);
+}
+
+// Five-field cron expression (minute hour day-of-month month day-of-week) with *, lists, ranges and steps.
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+  if (field === "*") {
+    return null;
+  }
+
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    const [startRaw, endRaw] = range === "*" ? [String(min), String(max)] : range.split("-");
+    const start = Number(startRaw);
+    const end = endRaw === undefined ? (stepRaw === undefined ? start : max) : Number(endRaw);
+
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Некорректное поле расписания: ${field}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseCron(expression: string): (date: Date) => boolean {
+  const fields = expression.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Расписание должно состоять из 5 полей: ${expression}`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = [
+    parseCronField(fields[0], 0, 59),
+    parseCronField(fields[1], 0, 23),
+    parseCronField(fields[2], 1, 31),
+    parseCronField(fields[3], 1, 12),
+    parseCronField(fields[4], 0, 7)
+  ];
+  if (weekdays?.has(7)) {
+    weekdays.add(0);
+  }
+
+  return (date) => {
+    const dayMatches = !days || days.has(date.getDate());
+    const weekdayMatches = !weekdays || weekdays.has(date.getDay());
+    // Classic cron: when both day fields are restricted, either one may match.
+    const dateMatches = days && weekdays ? dayMatches || weekdayMatches : dayMatches && weekdayMatches;
+    return (
+      (!minutes || minutes.has(date.getMinutes())) &&
+      (!hours || hours.has(date.getHours())) &&
+      (!months || months.has(date.getMonth() + 1)) &&
+      dateMatches
+    );
+  };
+}
+
+async function listBackups(): Promise<BackupRecord[]> {
+  let names: string[] = [];
+  try {
+    names = await fs.readdir(backupDir);
+  } catch {
+    return [];
+  }
+
+  const records: BackupRecord[] = [];
+  for (const name of names) {
+    const match = BACKUP_FILE_PATTERN.exec(name);
+    if (!match) {
+      continue;
+    }
+    const stats = await fs.stat(path.join(backupDir, name)).catch(() => null);
+    if (!stats) {
+      continue;
+    }
+    records.push({
+      file: name,
+      kind: match[3] as BackupKind,
+      size: stats.size,
+      createdAt: parseStamp(match[1], match[2]).toISOString(),
+      keptAs: []
+    });
+  }
+
+  records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  // Of the scheduled copies, the newest of each of the last N days and of each of the last M weeks survive.
+  // Manual and pre-restore copies are never pruned automatically.
+  const days = new Set<string>();
+  const weeks = new Set<string>();
+  for (const record of records.filter((item) => item.kind === "scheduled")) {
+    const date = new Date(record.createdAt);
+    const day = formatStamp(date).slice(0, 8);
+    const week = weekKey(date);
+    if (!days.has(day) && days.size < KEEP_DAILY) {
+      days.add(day);
+      record.keptAs.push("daily");
+    }
+    if (!weeks.has(week) && weeks.size < KEEP_WEEKLY) {
+      weeks.add(week);
+      record.keptAs.push("weekly");
+    }
+  }
+
+  return records;
+}
+
+async function pruneBackups(): Promise<string[]> {
+  const records = await listBackups();
+  const removed = records
+    .filter((record) => record.kind === "scheduled" && !record.keptAs.length)
+    .map((record) => record.file);
+  await Promise.all(removed.map((file) => fs.unlink(path.join(backupDir, file)).catch(() => {})));
+  return removed;
+}
+
+// VACUUM INTO writes a consistent, compacted snapshot from a single read transaction; the WAL stays as is.
+async function createBackup(kind: BackupKind = "manual"): Promise<BackupRecord> {
+  await fs.mkdir(backupDir, { recursive: true });
+  const file = `white-lab-${formatStamp(new Date())}-${kind}.sqlite`;
+  const target = path.join(backupDir, file);
+  const tempTarget = `${target}.partial`;
+
+  await fs.unlink(tempTarget).catch(() => {});
+  getDatabase().prepare("VACUUM INTO ?").run(tempTarget);
+  await fs.rename(tempTarget, target);
+
+  const stats = await fs.stat(target);
+  await pruneBackups();
+  return { file, kind, size: stats.size, createdAt: new Date(stats.mtimeMs).toISOString(), keptAs: [] };
+}
+
+async function deleteBackup(file: string): Promise<void> {
+  await fs.unlink(resolveBackupPath(file)).catch(() => {
+    throw new Error("Резервная копия не найдена");
+  });
+}
+
+function checkBackupFile(filePath: string): void {
+  const db = new sqlite.DatabaseSync(filePath, { readOnly: true });
+  try {
+    const integrity = db.prepare("PRAGMA integrity_check").get() as { integrity_check?: string } | undefined;
+    if (integrity?.integrity_check !== "ok") {
+      throw new Error(`Копия повреждена: ${integrity?.integrity_check || "нет ответа"}`);
+    }
+    const hasMigrations = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+      .get();
+    const version = hasMigrations
+      ? Number((db.prepare("SELECT MAX(version) AS version FROM schema_migrations").get() as { version?: number }).version || 0)
+      : 0;
+    if (version > LATEST_SCHEMA_VERSION) {
+      throw new Error(`Копия создана более новой версией приложения (схема ${version})`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+function listTables(db: import("node:sqlite").DatabaseSync, schema: string): Map<string, string[]> {
+  const tables = db
+    .prepare(`SELECT name FROM ${schema}.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'`)
+    .all() as Array<{ name: string }>;
+  const result = new Map<string, string[]>();
+  for (const { name } of tables) {
+    const columns = db.prepare(`PRAGMA ${schema}.table_info("${name}")`).all() as Array<{ name: string }>;
+    result.set(name, columns.map((column) => column.name));
+  }
+  return result;
+}
+
+// The live connection stays open: the snapshot is brought to the current schema in a temp copy,
+// attached, and its rows replace the live rows in a single transaction (except LIVE_ONLY_TABLES).
+// Only the database is backed up, not public/media: items whose files were deleted since the copy
+// was taken are dropped from the restored library instead of showing up as broken images.
+// Read from the staged copy, so the file checks happen before the live database is locked.
+async function findMediaWithoutFiles(stagingDb: import("node:sqlite").DatabaseSync): Promise<MediaRowRef[]> {
+  const rows = stagingDb
+    .prepare("SELECT stage, id, local_original, local_optimized, renditions FROM media")
+    .all() as Record<string, unknown>[];
+  const result: MediaRowRef[] = [];
+  for (const row of rows) {
+    let renditions: MediaItem["renditions"] = [];
+    try {
+      renditions = JSON.parse(String(row.renditions || "[]"));
+    } catch {
+      renditions = [];
+    }
+    const item = {
+      id: String(row.id || ""),
+      localOriginal: String(row.local_original || ""),
+      localOptimized: String(row.local_optimized || ""),
+      renditions
+    } as MediaItem;
+    if ((await findMissingMediaFiles([item])).length) {
+      result.push({ stage: row.stage === "draft" ? "draft" : "published", id: item.id });
+    }
+  }
+  return result;
+}
+
+async function restoreBackup(file: string): Promise<{ safetyBackup: string; droppedMedia: string[] }> {
+  const source = resolveBackupPath(file);
+  await fs.access(source).catch(() => {
+    throw new Error("Резервная копия не найдена");
+  });
+  checkBackupFile(source);
+
+  const staging = path.join(backupDir, `.restore-${Date.now()}.sqlite`);
+  await fs.copyFile(source, staging);
+  try {
+    const stagingDb = openDatabase(staging);
+    let withoutFiles: MediaRowRef[] = [];
+    try {
+      runMigrations(stagingDb);
+      withoutFiles = await findMediaWithoutFiles(stagingDb);
+      stagingDb.exec("PRAGMA wal_checkpoint(TRUNCATE);");
+      stagingDb.exec("PRAGMA journal_mode = DELETE;");
+    } finally {
+      stagingDb.close();
+    }
+
+    const safety = await createBackup("pre-restore");
+    const db = getDatabase();
+    db.prepare("ATTACH DATABASE ? AS restore_source").run(staging);
+    try {
+      const liveTables = listTables(db, "main");
+      const sourceTables = listTables(db, "restore_source");
+
+      db.exec("BEGIN IMMEDIATE");
+      try {
+        for (const [table, columns] of liveTables) {
+          if (LIVE_ONLY_TABLES.has(table)) {
+            continue;
+          }
+          db.exec(`DELETE FROM main."${table}"`);
+          const shared = columns.filter((column) => sourceTables.get(table)?.includes(column));
+          if (!shared.length) {
+            continue;
+          }
+          const columnList = shared.map((column) => `"${column}"`).join(", ");
+          db.exec(`INSERT INTO main."${table}" (${columnList}) SELECT ${columnList} FROM restore_source."${table}"`);
+        }
+        if (getMigrationStatus(db).currentVersion !== LATEST_SCHEMA_VERSION) {
+          throw new Error("После восстановления версия схемы не совпадает с кодом");
+        }
+        for (const { stage, id } of withoutFiles) {
+          deleteMediaItem(stage, id);
+        }
+        db.exec("COMMIT");
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    } finally {
+      db.exec("DETACH DATABASE restore_source");
+    }
+
+    await rewriteMirrors();
+    return { safetyBackup: safety.file, droppedMedia: [...new Set(withoutFiles.map((entry) => entry.id))] };
+  } finally {
+    await fs.rm(staging, { force: true });
+    await fs.rm(`${staging}-wal`, { force: true });
+    await fs.rm(`${staging}-shm`, { force: true });
+  }
+}
+
+function getBackupSettings(): BackupSettings {
+  return { dir: backupDir, schedule: BACKUP_SCHEDULE, keepDaily: KEEP_DAILY, keepWeekly: KEEP_WEEKLY };
+}
+
+function startBackupScheduler(): void {
+  if (!BACKUP_SCHEDULE || BACKUP_SCHEDULE === "off") {
+    return;
+  }
+
+  let matches: (date: Date) => boolean;
+  try {
+    matches = parseCron(BACKUP_SCHEDULE);
+  } catch (error) {
+    console.error(`[backup] scheduler disabled: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+  let lastRunMinute = "";
+
+  setInterval(() => {
+    const now = new Date();
+    const minute = formatStamp(now).slice(0, 13);
+    if (minute === lastRunMinute || !matches(now)) {
+      return;
+    }
+    lastRunMinute = minute;
+
+    createBackup("scheduled")
+      .then((record) => console.log(`[backup] ${record.file} (${(record.size / 1024).toFixed(1)} KB)`))
+      .catch((error) => console.error("[backup] scheduled backup failed", error));
+  }, 20_000).unref();
+}
+
+module.exports = {
+  parseCron,
+  listBackups,
+  createBackup,
+  restoreBackup,
+  deleteBackup,
+  resolveBackupPath,
+  getBackupSettings,
+  startBackupScheduler
+};
@@ -0,0 +1,52 @@
+interface JsonDiffEntry {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function joinPath(basePath: string, segment: string | number): string {
+  if (typeof segment === "number") {
+    return `${basePath}[${segment}]`;
+  }
+  return basePath ? `${basePath}.${segment}` : segment;
+}
+
+function collectDiff(before: unknown, after: unknown, basePath: string, out: JsonDiffEntry[], limit: number): void {
+  if (out.length >= limit) {
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index += 1) {
+      collectDiff(before[index], after[index], joinPath(basePath, index), out, limit);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      collectDiff(before[key], after[key], joinPath(basePath, key), out, limit);
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    out.push({ path: basePath || "$", before, after });
+  }
+}
+
+function diffJson(before: unknown, after: unknown, limit = 200): JsonDiffEntry[] {
+  const out: JsonDiffEntry[] = [];
+  collectDiff(before, after, "", out, Math.max(1, limit));
+  return out;
+}
+
+module.exports = {
+  diffJson
+};
@@ -0,0 +1,254 @@
+const { getDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+};
+
+type ThrottleScope = "username" | "ip";
+
+interface ThrottleState {
+  scope: ThrottleScope;
+  subject: string;
+  failures: number;
+  lockouts: number;
+  lockedUntil: string;
+  updatedAt: string;
+}
+
+interface LoginCheck {
+  allowed: boolean;
+  // How long the caller should wait before checking the password (progressive delay).
+  delayMs: number;
+  retryAfterMs: number;
+}
+
+interface LoginAttempt {
+  id: number;
+  createdAt: string;
+  username: string;
+  ip: string;
+  success: boolean;
+  reason: string;
+}
+
+const MAX_USERNAME_FAILURES = Math.max(1, Number(process.env.LOGIN_MAX_FAILURES || 5));
+const MAX_IP_FAILURES = Math.max(1, Number(process.env.LOGIN_MAX_FAILURES_PER_IP || 20));
+const LOCKOUT_MS = Math.max(1, Number(process.env.LOGIN_LOCKOUT_MINUTES || 15)) * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+const MAX_DELAY_MS = 8000;
+const ATTEMPT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+function normalizeSubject(scope: ThrottleScope, value: string): string {
+  const subject = String(value || "").trim().slice(0, 200);
+  return scope === "username" ? subject.toLowerCase() : subject;
+}
+
+// Login failures are counted per login and address, so guessing from elsewhere cannot lock the
+// account's owner out; the IP scope still limits one address across all logins.
+function loginSubject(username: string, ip: string): string {
+  return `${normalizeSubject("username", username)}|${normalizeSubject("ip", ip)}`;
+}
+
+function normalizeThrottleRow(row: Record<string, unknown>): ThrottleState {
+  return {
+    scope: row.scope === "ip" ? "ip" : "username",
+    subject: String(row.subject || ""),
+    failures: Number(row.failures || 0),
+    lockouts: Number(row.lockouts || 0),
+    lockedUntil: String(row.locked_until || ""),
+    updatedAt: String(row.updated_at || "")
+  };
+}
+
+function getThrottleState(scope: ThrottleScope, subject: string): ThrottleState | null {
+  const db = getDatabase();
+  const row = db.prepare("SELECT * FROM login_throttle WHERE scope = ? AND subject = ? LIMIT 1").get(scope, subject) as
+    | Record<string, unknown>
+    | undefined;
+  return row ? normalizeThrottleRow(row) : null;
+}
+
+function lockRemainingMs(state: ThrottleState | null, now: number): number {
+  const until = state?.lockedUntil ? Date.parse(state.lockedUntil) : 0;
+  return Number.isFinite(until) && until > now ? until - now : 0;
+}
+
+// An expired lock starts a new window: the streak that caused it no longer counts.
+function currentFailures(state: ThrottleState | null, now: number): number {
+  if (!state || (state.lockedUntil && lockRemainingMs(state, now) === 0)) {
+    return 0;
+  }
+  return state.failures;
+}
+
+// Delays grow with consecutive failures: 0.5s, 1s, 2s, 4s, 8s (cap).
+function delayForFailures(failures: number): number {
+  return failures > 0 ? Math.min(MAX_DELAY_MS, 500 * 2 ** (failures - 1)) : 0;
+}
+
+function checkLoginAllowed(username: string, ip: string): LoginCheck {
+  const now = Date.now();
+  const byUsername = getThrottleState("username", loginSubject(username, ip));
+  const byIp = getThrottleState("ip", normalizeSubject("ip", ip));
+  const retryAfterMs = Math.max(lockRemainingMs(byUsername, now), lockRemainingMs(byIp, now));
+
+  return {
+    allowed: retryAfterMs === 0,
+    delayMs: delayForFailures(Math.max(currentFailures(byUsername, now), currentFailures(byIp, now))),
+    retryAfterMs
+  };
+}
+
+function insertAttempt(username: string, ip: string, success: boolean, reason: string): void {
+  const db = getDatabase();
+  db.prepare("INSERT INTO login_attempts (created_at, username, ip, success, reason) VALUES (?, ?, ?, ?, ?)").run(
+    new Date().toISOString(),
+    normalizeSubject("username", username),
+    normalizeSubject("ip", ip),
+    success ? 1 : 0,
+    reason
+  );
+}
+
+// Returns the new lock end if this failure locked the subject.
+function bumpFailures(scope: ThrottleScope, subject: string, limit: number): string | null {
+  const db = getDatabase();
+  const now = Date.now();
+  const state = getThrottleState(scope, subject);
+  const failures = currentFailures(state, now) + 1;
+  let lockouts = state?.lockouts || 0;
+  let lockedUntil = lockRemainingMs(state, now) > 0 ? state?.lockedUntil || null : null;
+  let lockedNow: string | null = null;
+
+  if (failures >= limit && lockRemainingMs(state, now) === 0) {
+    // Every repeated lockout doubles, so a slow distributed guess still gets slower.
+    lockedUntil = new Date(now + Math.min(MAX_LOCKOUT_MS, LOCKOUT_MS * 2 ** lockouts)).toISOString();
+    lockouts += 1;
+    lockedNow = lockedUntil;
+  }
+
+  db.prepare(`
+    INSERT INTO login_throttle (scope, subject, failures, lockouts, locked_until, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(scope, subject) DO UPDATE SET
+      failures = excluded.failures,
+      lockouts = excluded.lockouts,
+      locked_until = excluded.locked_until,
+      updated_at = excluded.updated_at
+  `).run(scope, subject, failures, lockouts, lockedUntil, new Date(now).toISOString());
+  return lockedNow;
+}
+
+function recordLoginFailure(
+  username: string,
+  ip: string,
+  reason: string
+): { lockedUsernameUntil: string | null; lockedIpUntil: string | null } {
+  const db = getDatabase();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    insertAttempt(username, ip, false, reason);
+    const lockedUsernameUntil = username.trim() ? bumpFailures("username", loginSubject(username, ip), MAX_USERNAME_FAILURES) : null;
+    const lockedIpUntil = bumpFailures("ip", normalizeSubject("ip", ip), MAX_IP_FAILURES);
+    db.exec("COMMIT");
+    return { lockedUsernameUntil, lockedIpUntil };
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+// A successful login clears the failure streaks but keeps the lockout count, so the next lockout is still longer.
+function recordLoginSuccess(username: string, ip: string): void {
+  const db = getDatabase();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    insertAttempt(username, ip, true, "");
+    const reset = db.prepare("UPDATE login_throttle SET failures = 0, locked_until = NULL, updated_at = ? WHERE scope = ? AND subject = ?");
+    const now = new Date().toISOString();
+    reset.run(now, "username", loginSubject(username, ip));
+    reset.run(now, "ip", normalizeSubject("ip", ip));
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+function unlockLogin(scope: ThrottleScope, subject: string): boolean {
+  const db = getDatabase();
+  const result = db.prepare("DELETE FROM login_throttle WHERE scope = ? AND subject = ?").run(scope, normalizeSubject(scope, subject));
+  return Number(result.changes || 0) > 0;
+}
+
+// Lifts the locks of a login from every address.
+function unlockUserLogins(username: string): number {
+  const db = getDatabase();
+  const prefix = `${normalizeSubject("username", username)}|`;
+  const result = db
+    .prepare("DELETE FROM login_throttle WHERE scope = 'username' AND substr(subject, 1, length(?)) = ? AND locked_until > ?")
+    .run(prefix, prefix, new Date().toISOString());
+  return Number(result.changes || 0);
+}
+
+function listLockouts(): ThrottleState[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare("SELECT * FROM login_throttle WHERE locked_until > ? ORDER BY locked_until DESC")
+    .all(new Date().toISOString()) as Record<string, unknown>[];
+  return rows.map(normalizeThrottleRow);
+}
+
+// The lock of a login that ends last, from any address.
+function getUsernameLockout(username: string): ThrottleState | null {
+  const db = getDatabase();
+  const prefix = `${normalizeSubject("username", username)}|`;
+  const row = db
+    .prepare(`
+      SELECT * FROM login_throttle
+      WHERE scope = 'username' AND substr(subject, 1, length(?)) = ? AND locked_until > ?
+      ORDER BY locked_until DESC
+      LIMIT 1
+    `)
+    .get(prefix, prefix, new Date().toISOString()) as Record<string, unknown> | undefined;
+  return row ? normalizeThrottleRow(row) : null;
+}
+
+function listLoginAttempts(options: { failedOnly?: boolean; limit?: number } = {}): LoginAttempt[] {
+  const db = getDatabase();
+  const limit = Number.isFinite(options.limit) ? Math.max(1, Math.floor(Number(options.limit))) : 100;
+  const rows = db
+    .prepare(`SELECT * FROM login_attempts ${options.failedOnly ? "WHERE success = 0" : ""} ORDER BY id DESC LIMIT ?`)
+    .all(limit) as Record<string, unknown>[];
+
+  return rows.map((row) => ({
+    id: Number(row.id || 0),
+    createdAt: String(row.created_at || ""),
+    username: String(row.username || ""),
+    ip: String(row.ip || ""),
+    success: Boolean(row.success),
+    reason: String(row.reason || "")
+  }));
+}
+
+function pruneLoginAttempts(): number {
+  const db = getDatabase();
+  const cutoff = new Date(Date.now() - ATTEMPT_RETENTION_MS).toISOString();
+  const result = db.prepare("DELETE FROM login_attempts WHERE created_at < ?").run(cutoff);
+  // Every login and address pair gets its own row, so idle rows go once their lock is over, whatever their count.
+  db.prepare("DELETE FROM login_throttle WHERE (locked_until IS NULL OR locked_until < ?) AND updated_at < ?").run(
+    new Date().toISOString(),
+    cutoff
+  );
+  return Number(result.changes || 0);
+}
+
+module.exports = {
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockLogin,
+  unlockUserLogins,
+  listLockouts,
+  getUsernameLockout,
+  listLoginAttempts,
+  pruneLoginAttempts
+};
@@ -28,6 +28,8 @@ interface MediaJobRecord {
   createdAt: string;
   startedAt: string;
   finishedAt: string;
+  // Library id of the media a finished job produced.
+  mediaId: string;
 }
 
 function parsePayload(rawPayload: string): MediaJobPayload {
@@ -48,7 +50,8 @@ function normalizeRow(row: Record<string, unknown>): MediaJobRecord {
     lastError: String(row.last_error || ""),
     createdAt: String(row.created_at || ""),
     startedAt: String(row.started_at || ""),
-    finishedAt: String(row.finished_at || "")
+    finishedAt: String(row.finished_at || ""),
+    mediaId: String(row.result_media_id || "")
   };
 }
 
@@ -65,21 +68,41 @@ function enqueueMediaJob(jobType: MediaJobType, payload: MediaJobPayload): numbe
   return Number(result.lastInsertRowid || 0);
 }
 
-function listMediaJobs(limit = 20): MediaJobRecord[] {
+function listMediaJobs(limit = 20, offset = 0): MediaJobRecord[] {
   const db = getDatabase();
   const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(200, Math.floor(limit))) : 20;
+  const safeOffset = Number.isFinite(offset) ? Math.max(0, Math.floor(offset)) : 0;
   const rows = db
     .prepare(`
-      SELECT id, job_type, payload, status, attempts, last_error, created_at, started_at, finished_at
+      SELECT id, job_type, payload, status, attempts, last_error, created_at, started_at, finished_at, result_media_id
       FROM media_jobs
       ORDER BY id DESC
-      LIMIT ?
+      LIMIT ? OFFSET ?
     `)
-    .all(safeLimit) as Record<string, unknown>[];
+    .all(safeLimit, safeOffset) as Record<string, unknown>[];
 
   return rows.map(normalizeRow);
 }
 
+function countMediaJobs(): number {
+  const db = getDatabase();
+  const row = db.prepare("SELECT COUNT(*) AS total FROM media_jobs").get() as Record<string, unknown> | undefined;
+  return Number(row?.total || 0);
+}
+
+function getMediaJob(jobId: number): MediaJobRecord | null {
+  const db = getDatabase();
+  const row = db
+    .prepare(`
+      SELECT id, job_type, payload, status, attempts, last_error, created_at, started_at, finished_at, result_media_id
+      FROM media_jobs
+      WHERE id = ?
+    `)
+    .get(jobId) as Record<string, unknown> | undefined;
+
+  return row ? normalizeRow(row) : null;
+}
+
 function claimPendingMediaJob(): MediaJobRecord | null {
   const db = getDatabase();
   let jobRow: Record<string, unknown> | undefined;
@@ -89,7 +112,7 @@ function claimPendingMediaJob(): MediaJobRecord | null {
   try {
     jobRow = db
       .prepare(`
-        SELECT id, job_type, payload, status, attempts, last_error, created_at, started_at, finished_at
+        SELECT id, job_type, payload, status, attempts, last_error, created_at, started_at, finished_at, result_media_id
         FROM media_jobs
         WHERE status = 'pending'
         ORDER BY id ASC
@@ -117,13 +140,13 @@ function claimPendingMediaJob(): MediaJobRecord | null {
   return normalizeRow({ ...jobRow, status: "processing", attempts: Number(jobRow.attempts || 0) + 1, started_at: now });
 }
 
-function markMediaJobDone(jobId: number): void {
+function markMediaJobDone(jobId: number, mediaId = ""): void {
   const db = getDatabase();
   db.prepare(`
     UPDATE media_jobs
-    SET status = 'done', finished_at = ?, last_error = NULL
+    SET status = 'done', finished_at = ?, last_error = NULL, result_media_id = ?
     WHERE id = ?
-  `).run(new Date().toISOString(), jobId);
+  `).run(new Date().toISOString(), mediaId || null, jobId);
 }
 
 function markMediaJobFailed(jobId: number, errorMessage: string): void {
@@ -153,6 +176,8 @@ function recycleStalledMediaJobs(stalledMinutes = 20): number {
 module.exports = {
   enqueueMediaJob,
   listMediaJobs,
+  countMediaJobs,
+  getMediaJob,
   claimPendingMediaJob,
   markMediaJobDone,
   markMediaJobFailed,
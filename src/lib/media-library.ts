@@ -0,0 +1,253 @@
+import type { MediaItem, MediaRendition, MediaType } from "../types/content";
+
+const fs = require("node:fs/promises") as typeof import("node:fs/promises");
+const path = require("node:path") as typeof import("node:path");
+const { getDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+};
+
+type MediaStage = "published" | "draft";
+
+interface MediaStageState {
+  version: number;
+  updatedAt: string;
+}
+
+interface MediaRecord extends MediaItem {
+  // Stage version at which the row last changed; used for per-item conflict checks.
+  version: number;
+}
+
+interface MediaListFilters {
+  type?: MediaType;
+  source?: string;
+  limit?: number;
+  offset?: number;
+}
+
+type MediaPatch = Partial<Pick<MediaItem, "title" | "alt">>;
+
+const MEDIA_COLUMNS =
+  "id, position, title, alt, source, type, original_url, local_original, local_optimized, created_at, width, height, renditions, version";
+
+function parseRenditions(raw: unknown): MediaRendition[] {
+  try {
+    const parsed = JSON.parse(String(raw || "[]")) as unknown;
+    return Array.isArray(parsed) ? (parsed as MediaRendition[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Size and renditions are only set when known, so items from before them compare equal to their media.json form.
+function normalizeMediaRow(row: Record<string, unknown>): MediaRecord {
+  const renditions = parseRenditions(row.renditions);
+  return {
+    id: String(row.id || ""),
+    title: String(row.title || ""),
+    alt: String(row.alt || ""),
+    source: String(row.source || ""),
+    type: String(row.type || "image") as MediaType,
+    originalUrl: String(row.original_url || ""),
+    localOriginal: String(row.local_original || ""),
+    localOptimized: String(row.local_optimized || ""),
+    createdAt: String(row.created_at || ""),
+    ...(row.width ? { width: Number(row.width) } : {}),
+    ...(row.height ? { height: Number(row.height) } : {}),
+    ...(renditions.length ? { renditions } : {}),
+    version: Number(row.version || 0)
+  };
+}
+
+function toMediaItem(record: MediaRecord): MediaItem {
+  const { version: _version, ...item } = record;
+  return item;
+}
+
+function getMediaStageState(stage: MediaStage): MediaStageState | null {
+  const db = getDatabase();
+  const row = db.prepare("SELECT version, updated_at FROM media_stages WHERE stage = ? LIMIT 1").get(stage) as
+    | { version?: number; updated_at?: string }
+    | undefined;
+
+  if (!row) {
+    return null;
+  }
+  return { version: Number(row.version || 0), updatedAt: String(row.updated_at || "") };
+}
+
+function setMediaStageState(stage: MediaStage, version: number, updatedAt: string): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO media_stages (stage, version, updated_at)
+    VALUES (?, ?, ?)
+    ON CONFLICT(stage) DO UPDATE SET version = excluded.version, updated_at = excluded.updated_at
+  `).run(stage, version, updatedAt);
+}
+
+function buildFilterClause(stage: MediaStage, filters: MediaListFilters): { where: string; params: string[] } {
+  const clauses = ["stage = ?"];
+  const params: string[] = [stage];
+
+  if (filters.type) {
+    clauses.push("type = ?");
+    params.push(filters.type);
+  }
+  if (filters.source) {
+    clauses.push("source = ?");
+    params.push(filters.source);
+  }
+
+  return { where: clauses.join(" AND "), params };
+}
+
+function listMediaItems(stage: MediaStage, filters: MediaListFilters = {}): MediaItem[] {
+  const db = getDatabase();
+  const { where, params } = buildFilterClause(stage, filters);
+  const limit = Number.isFinite(filters.limit) ? Math.max(1, Math.floor(Number(filters.limit))) : -1;
+  const offset = Number.isFinite(filters.offset) ? Math.max(0, Math.floor(Number(filters.offset))) : 0;
+  const rows = db
+    .prepare(`SELECT ${MEDIA_COLUMNS} FROM media WHERE ${where} ORDER BY position ASC, id ASC LIMIT ? OFFSET ?`)
+    .all(...params, limit, offset) as Record<string, unknown>[];
+
+  return rows.map((row) => toMediaItem(normalizeMediaRow(row)));
+}
+
+function countMediaItems(stage: MediaStage, filters: MediaListFilters = {}): number {
+  const db = getDatabase();
+  const { where, params } = buildFilterClause(stage, filters);
+  const row = db.prepare(`SELECT COUNT(*) AS total FROM media WHERE ${where}`).get(...params) as { total?: number } | undefined;
+  return Number(row?.total || 0);
+}
+
+function getMediaItem(stage: MediaStage, id: string): MediaRecord | null {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT ${MEDIA_COLUMNS} FROM media WHERE stage = ? AND id = ? LIMIT 1`).get(stage, id) as
+    | Record<string, unknown>
+    | undefined;
+
+  return row ? normalizeMediaRow(row) : null;
+}
+
+function insertMediaRow(stage: MediaStage, item: MediaItem, position: number, version: number): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO media
+      (stage, id, position, title, alt, source, type, original_url, local_original, local_optimized, created_at,
+       width, height, renditions, version)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    stage,
+    item.id,
+    position,
+    item.title,
+    item.alt,
+    item.source,
+    item.type,
+    item.originalUrl,
+    item.localOriginal,
+    item.localOptimized,
+    item.createdAt,
+    item.width || null,
+    item.height || null,
+    item.renditions?.length ? JSON.stringify(item.renditions) : null,
+    version
+  );
+}
+
+// New items go to the top of the library, like the old `media.unshift(...)`.
+function createMediaItem(stage: MediaStage, item: MediaItem, version: number): void {
+  const db = getDatabase();
+  const row = db.prepare("SELECT MIN(position) AS first FROM media WHERE stage = ?").get(stage) as
+    | { first?: number | null }
+    | undefined;
+  const position = row?.first === null || row?.first === undefined ? 0 : Number(row.first) - 1;
+  insertMediaRow(stage, item, position, version);
+}
+
+function updateMediaItem(stage: MediaStage, id: string, patch: MediaPatch, version: number): boolean {
+  const db = getDatabase();
+  const current = getMediaItem(stage, id);
+  if (!current) {
+    return false;
+  }
+
+  db.prepare("UPDATE media SET title = ?, alt = ?, version = ? WHERE stage = ? AND id = ?").run(
+    patch.title ?? current.title,
+    patch.alt ?? current.alt,
+    version,
+    stage,
+    id
+  );
+  return true;
+}
+
+function deleteMediaItem(stage: MediaStage, id: string): boolean {
+  const db = getDatabase();
+  const result = db.prepare("DELETE FROM media WHERE stage = ? AND id = ?").run(stage, id);
+  return Number(result.changes || 0) > 0;
+}
+
+// Full-list writes (publish, rollback, external media.json edits) keep the versions of unchanged rows.
+function replaceMediaItems(stage: MediaStage, items: MediaItem[], version: number): void {
+  const db = getDatabase();
+  const previous = new Map(
+    (db.prepare(`SELECT ${MEDIA_COLUMNS} FROM media WHERE stage = ?`).all(stage) as Record<string, unknown>[])
+      .map(normalizeMediaRow)
+      .map((record) => [record.id, record] as const)
+  );
+
+  db.prepare("DELETE FROM media WHERE stage = ?").run(stage);
+  items.forEach((item, position) => {
+    const before = previous.get(item.id);
+    const unchanged = before && JSON.stringify(toMediaItem(before)) === JSON.stringify(item);
+    insertMediaRow(stage, item, position, unchanged ? before.version : version);
+  });
+}
+
+function copyMediaStage(from: MediaStage, to: MediaStage): void {
+  const db = getDatabase();
+  db.prepare("DELETE FROM media WHERE stage = ?").run(to);
+  db.prepare(`
+    INSERT INTO media
+      (stage, id, position, title, alt, source, type, original_url, local_original, local_optimized, created_at,
+       width, height, renditions, version)
+    SELECT ?, id, position, title, alt, source, type, original_url, local_original, local_optimized, created_at,
+      width, height, renditions, 0
+    FROM media WHERE stage = ?
+  `).run(to, from);
+}
+
+// Files are removed from disk when their item leaves the published library, while revisions and
+// backups can still list the item. Returns every referenced file that is gone, with its item.
+async function findMissingMediaFiles(items: MediaItem[]): Promise<Array<{ id: string; url: string }>> {
+  const publicDir = path.join(process.cwd(), "public");
+  const missing: Array<{ id: string; url: string }> = [];
+  for (const item of items) {
+    const urls = [item.localOriginal, item.localOptimized, ...(item.renditions || []).map((rendition) => rendition.src)];
+    for (const url of urls.filter((value) => value && value.startsWith("/media/"))) {
+      const exists = await fs
+        .access(path.join(publicDir, url))
+        .then(() => true)
+        .catch(() => false);
+      if (!exists) {
+        missing.push({ id: item.id, url });
+      }
+    }
+  }
+  return missing;
+}
+
+module.exports = {
+  getMediaStageState,
+  setMediaStageState,
+  listMediaItems,
+  countMediaItems,
+  getMediaItem,
+  createMediaItem,
+  updateMediaItem,
+  deleteMediaItem,
+  replaceMediaItems,
+  copyMediaStage,
+  findMissingMediaFiles
+};
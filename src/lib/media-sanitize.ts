@@ -0,0 +1,656 @@
+import type { MediaType } from "../types/content";
+
+const fs = require("node:fs/promises") as typeof import("node:fs/promises");
+
+type MediaFormat = "jpeg" | "png" | "gif" | "webp" | "mp4" | "mov" | "webm";
+
+interface MediaFormatInfo {
+  label: string;
+  type: MediaType;
+  ext: string;
+  mimeTypes: string[];
+}
+
+interface SanitizedMedia {
+  format: MediaFormat | "avif";
+  type: MediaType;
+  ext: string;
+  size: number;
+}
+
+interface ImageInfo {
+  width: number;
+  height: number;
+  alpha: boolean;
+  animated: boolean;
+}
+
+interface SanitizedImage {
+  output: Buffer;
+  // Metadata and other non-pixel regions; scanned for embedded documents before being dropped.
+  inspected: Buffer[];
+  trailing: Buffer;
+}
+
+const MEDIA_FORMATS: Record<MediaFormat, MediaFormatInfo> = {
+  jpeg: { label: "JPEG", type: "image", ext: "jpg", mimeTypes: ["image/jpeg", "image/jpg", "image/pjpeg"] },
+  png: { label: "PNG", type: "image", ext: "png", mimeTypes: ["image/png", "image/apng"] },
+  gif: { label: "GIF", type: "image", ext: "gif", mimeTypes: ["image/gif"] },
+  webp: { label: "WebP", type: "image", ext: "webp", mimeTypes: ["image/webp"] },
+  mp4: { label: "MP4", type: "video", ext: "mp4", mimeTypes: ["video/mp4", "video/x-m4v", "video/quicktime"] },
+  mov: { label: "MOV", type: "video", ext: "mov", mimeTypes: ["video/quicktime", "video/mp4"] },
+  webm: { label: "WebM", type: "video", ext: "webm", mimeTypes: ["video/webm", "video/x-matroska"] }
+};
+
+const IMAGE_MAX_BYTES = Math.max(1, Number(process.env.MEDIA_MAX_IMAGE_MB || 25)) * 1024 * 1024;
+const VIDEO_MAX_BYTES = Math.max(1, Number(process.env.MEDIA_MAX_VIDEO_MB || 500)) * 1024 * 1024;
+const MEDIA_UPLOAD_MAX_BYTES = Math.max(IMAGE_MAX_BYTES, VIDEO_MAX_BYTES);
+const MOOV_MAX_BYTES = 64 * 1024 * 1024;
+const EDGE_SCAN_BYTES = 1024;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+const HEIF_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1", "avif", "avis"]);
+// Markers of documents that browsers, PDF readers or unzip would pick up from inside an image.
+const EMBEDDED_SIGNATURES: Array<[string, string]> = [
+  ["<script", "HTML"],
+  ["<html", "HTML"],
+  ["<!doctype", "HTML"],
+  ["<body", "HTML"],
+  ["<iframe", "HTML"],
+  ["<svg", "SVG"],
+  ["<?php", "PHP"],
+  ["%pdf-", "PDF"],
+  ["pk\x03\x04", "ZIP"],
+  ["pk\x05\x06", "ZIP"]
+];
+const PNG_KEPT_CHUNKS = new Set([
+  "IHDR",
+  "PLTE",
+  "IDAT",
+  "IEND",
+  "tRNS",
+  "gAMA",
+  "cHRM",
+  "sRGB",
+  "iCCP",
+  "sBIT",
+  "bKGD",
+  "pHYs",
+  "cICP",
+  "acTL",
+  "fcTL",
+  "fdAT"
+]);
+const WEBP_KEPT_CHUNKS = new Set(["VP8 ", "VP8L", "VP8X", "ALPH", "ANIM", "ANMF", "ICCP"]);
+const ISOBMFF_METADATA_BOXES = new Set(["udta", "meta", "uuid"]);
+
+function rejectMedia(reason: string): Error {
+  return new Error(`Файл отклонён: ${reason}`);
+}
+
+function sniffMediaFormat(head: Buffer): MediaFormat | null {
+  if (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) {
+    return "jpeg";
+  }
+  if (head.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return "png";
+  }
+
+  const ascii = head.toString("latin1", 0, Math.min(head.length, 12));
+  if (ascii.startsWith("GIF87a") || ascii.startsWith("GIF89a")) {
+    return "gif";
+  }
+  if (ascii.startsWith("RIFF") && ascii.slice(8, 12) === "WEBP") {
+    return "webp";
+  }
+  if (ascii.slice(4, 8) === "ftyp") {
+    const brand = ascii.slice(8, 12);
+    if (HEIF_BRANDS.has(brand)) {
+      throw rejectMedia("фото HEIC и AVIF не поддерживаются, сохраните его в JPEG");
+    }
+    return brand === "qt  " ? "mov" : "mp4";
+  }
+  if (head.length >= 4 && head.readUInt32BE(0) === 0x1a45dfa3) {
+    return "webm";
+  }
+  return null;
+}
+
+// Extension of the format found in the first bytes, or null; unlike sniffMediaFormat it never throws
+// and also recognises AVIF, which the app writes itself as image renditions.
+function detectMediaExtension(head: Buffer): string | null {
+  if (head.toString("latin1", 4, 8) === "ftyp" && AVIF_BRANDS.has(head.toString("latin1", 8, 12))) {
+    return "avif";
+  }
+  try {
+    const format = sniffMediaFormat(head);
+    return format ? MEDIA_FORMATS[format].ext : null;
+  } catch {
+    return null;
+  }
+}
+
+function assertNoEmbeddedContent(regions: Buffer[]): void {
+  for (const region of regions) {
+    const text = region.toString("latin1").toLowerCase();
+    const match = EMBEDDED_SIGNATURES.find(([signature]) => text.includes(signature));
+    if (match) {
+      throw rejectMedia(`внутри медиафайла спрятан документ ${match[1]}`);
+    }
+  }
+}
+
+function readExifOrientation(tiff: Buffer): number {
+  if (tiff.length < 8) {
+    return 1;
+  }
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") {
+    return 1;
+  }
+  const littleEndian = order === "II";
+  const readUInt16 = (offset: number) => (littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const ifdOffset = littleEndian ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+  if (ifdOffset + 2 > tiff.length) {
+    return 1;
+  }
+
+  const count = readUInt16(ifdOffset);
+  for (let index = 0; index < count; index += 1) {
+    const entry = ifdOffset + 2 + index * 12;
+    if (entry + 12 > tiff.length) {
+      break;
+    }
+    if (readUInt16(entry) === 0x0112) {
+      const value = readUInt16(entry + 8);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return 1;
+}
+
+// Phone photos are often stored sideways with the rotation in EXIF, so the Orientation tag
+// is the only one carried over into a fresh, minimal EXIF segment.
+function buildOrientationExif(orientation: number): Buffer {
+  const segment = Buffer.alloc(36);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(segment.length - 2, 2);
+  segment.write("Exif\0\0", 4, "latin1");
+  segment.write("MM", 10, "latin1");
+  segment.writeUInt16BE(42, 12);
+  segment.writeUInt32BE(8, 14);
+  segment.writeUInt16BE(1, 18);
+  segment.writeUInt16BE(0x0112, 20);
+  segment.writeUInt16BE(3, 22);
+  segment.writeUInt32BE(1, 24);
+  segment.writeUInt16BE(orientation, 28);
+  return segment;
+}
+
+function keepJpegAppSegment(marker: number, payload: Buffer): boolean {
+  const prefix = payload.toString("latin1", 0, 12);
+  if (marker === 0xe0) {
+    return prefix.startsWith("JFIF\0") || prefix.startsWith("JFXX\0");
+  }
+  if (marker === 0xe2) {
+    return prefix === "ICC_PROFILE\0";
+  }
+  if (marker === 0xee) {
+    return prefix.startsWith("Adobe");
+  }
+  return false;
+}
+
+// Keeps the image and colour segments and drops EXIF, XMP, IPTC, comments and anything after EOI.
+function sanitizeJpeg(data: Buffer): SanitizedImage {
+  const parts: Buffer[] = [data.subarray(0, 2)];
+  const inspected: Buffer[] = [];
+  let offset = 2;
+
+  while (offset + 1 < data.length) {
+    if (data[offset] !== 0xff) {
+      throw rejectMedia("повреждённый JPEG");
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xd9) {
+      parts.push(data.subarray(offset, offset + 2));
+      return { output: Buffer.concat(parts), inspected, trailing: data.subarray(offset + 2) };
+    }
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      parts.push(data.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+
+    if (offset + 4 > data.length) {
+      throw rejectMedia("повреждённый JPEG");
+    }
+    const segmentEnd = offset + 2 + data.readUInt16BE(offset + 2);
+    if (segmentEnd < offset + 4 || segmentEnd > data.length) {
+      throw rejectMedia("повреждённый JPEG");
+    }
+    const payload = data.subarray(offset + 4, segmentEnd);
+
+    if ((marker >= 0xe0 && marker <= 0xef) || marker === 0xfe) {
+      inspected.push(payload);
+      if (keepJpegAppSegment(marker, payload)) {
+        parts.push(data.subarray(offset, segmentEnd));
+      } else if (marker === 0xe1 && payload.toString("latin1", 0, 6) === "Exif\0\0") {
+        const orientation = readExifOrientation(payload.subarray(6));
+        if (orientation !== 1) {
+          parts.push(buildOrientationExif(orientation));
+        }
+      }
+      offset = segmentEnd;
+      continue;
+    }
+
+    parts.push(data.subarray(offset, segmentEnd));
+    offset = segmentEnd;
+
+    if (marker === 0xda) {
+      // Entropy-coded data runs up to the next marker that is neither a stuffed 0xFF00 nor a restart marker.
+      let scan = offset;
+      while (
+        scan + 1 < data.length &&
+        !(data[scan] === 0xff && data[scan + 1] !== 0x00 && !(data[scan + 1] >= 0xd0 && data[scan + 1] <= 0xd7))
+      ) {
+        scan += 1;
+      }
+      parts.push(data.subarray(offset, scan));
+      offset = scan;
+    }
+  }
+
+  throw rejectMedia("JPEG обрывается до маркера конца изображения");
+}
+
+// Keeps critical, colour and animation chunks; text chunks (where XMP lives), eXIf and unknown ones are dropped.
+function sanitizePng(data: Buffer): SanitizedImage {
+  const parts: Buffer[] = [data.subarray(0, 8)];
+  const inspected: Buffer[] = [];
+  let offset = 8;
+
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > data.length) {
+      throw rejectMedia("повреждённый PNG");
+    }
+
+    if (PNG_KEPT_CHUNKS.has(type)) {
+      parts.push(data.subarray(offset, end));
+    } else {
+      inspected.push(data.subarray(offset + 8, offset + 8 + length));
+    }
+    offset = end;
+
+    if (type === "IEND") {
+      return { output: Buffer.concat(parts), inspected, trailing: data.subarray(offset) };
+    }
+  }
+
+  throw rejectMedia("PNG обрывается до блока IEND");
+}
+
+// Keeps frames, frame timing and the looping extension; comments and other application blocks (XMP) are dropped.
+function sanitizeGif(data: Buffer): SanitizedImage {
+  if (data.length < 13) {
+    throw rejectMedia("повреждённый GIF");
+  }
+
+  const skipSubBlocks = (start: number): number => {
+    let position = start;
+    while (position < data.length) {
+      const size = data[position];
+      position += 1;
+      if (size === 0) {
+        return position;
+      }
+      position += size;
+    }
+    throw rejectMedia("повреждённый GIF");
+  };
+
+  let offset = 13;
+  if (data[10] & 0x80) {
+    offset += 3 * 2 ** ((data[10] & 0x07) + 1);
+  }
+  const parts: Buffer[] = [data.subarray(0, offset)];
+  const inspected: Buffer[] = [];
+
+  while (offset < data.length) {
+    const introducer = data[offset];
+    if (introducer === 0x3b) {
+      parts.push(data.subarray(offset, offset + 1));
+      return { output: Buffer.concat(parts), inspected, trailing: data.subarray(offset + 1) };
+    }
+
+    if (introducer === 0x21) {
+      const label = data[offset + 1];
+      const end = skipSubBlocks(offset + 2);
+      const isLoopBlock =
+        label === 0xff &&
+        data[offset + 2] === 11 &&
+        ["NETSCAPE2.0", "ANIMEXTS1.0"].includes(data.toString("latin1", offset + 3, offset + 14));
+      if (label === 0xf9 || label === 0x01 || isLoopBlock) {
+        parts.push(data.subarray(offset, end));
+      } else {
+        inspected.push(data.subarray(offset, end));
+      }
+      offset = end;
+      continue;
+    }
+
+    if (introducer === 0x2c) {
+      if (offset + 10 > data.length) {
+        throw rejectMedia("повреждённый GIF");
+      }
+      let position = offset + 10;
+      if (data[offset + 9] & 0x80) {
+        position += 3 * 2 ** ((data[offset + 9] & 0x07) + 1);
+      }
+      const end = skipSubBlocks(position + 1);
+      parts.push(data.subarray(offset, end));
+      offset = end;
+      continue;
+    }
+
+    throw rejectMedia("повреждённый GIF");
+  }
+
+  throw rejectMedia("GIF обрывается до завершающего блока");
+}
+
+// Drops EXIF, XMP and unknown chunks and clears the matching VP8X flags.
+function sanitizeWebp(data: Buffer): SanitizedImage {
+  const riffEnd = data.length >= 20 ? 8 + data.readUInt32LE(4) : Infinity;
+  if (riffEnd > data.length) {
+    throw rejectMedia("повреждённый WebP");
+  }
+
+  const chunks: Buffer[] = [];
+  const inspected: Buffer[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= riffEnd) {
+    const type = data.toString("latin1", offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    if (offset + 8 + size > riffEnd) {
+      throw rejectMedia("повреждённый WebP");
+    }
+    const end = Math.min(riffEnd, offset + 8 + size + (size % 2));
+    const chunk = data.subarray(offset, end);
+
+    if (type === "VP8X") {
+      const header = Buffer.from(chunk);
+      header[8] &= ~0x0c;
+      chunks.push(header);
+    } else if (WEBP_KEPT_CHUNKS.has(type)) {
+      chunks.push(chunk);
+    } else {
+      inspected.push(chunk.subarray(8));
+    }
+    offset = end;
+  }
+
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WEBP", 8, "latin1");
+  return { output: Buffer.concat([header, body]), inspected, trailing: data.subarray(riffEnd) };
+}
+
+const IMAGE_SANITIZERS: Partial<Record<MediaFormat, (data: Buffer) => SanitizedImage>> = {
+  jpeg: sanitizeJpeg,
+  png: sanitizePng,
+  gif: sanitizeGif,
+  webp: sanitizeWebp
+};
+
+function freeMetadataBoxes(buffer: Buffer, start: number, end: number): void {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      throw rejectMedia("повреждённый заголовок видео");
+    }
+
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    if (ISOBMFF_METADATA_BOXES.has(type)) {
+      buffer.write("free", offset + 4, "latin1");
+      buffer.fill(0, offset + headerSize, offset + size);
+    } else if (type === "trak") {
+      freeMetadataBoxes(buffer, offset + headerSize, offset + size);
+    }
+    offset += size;
+  }
+}
+
+// MP4/MOV keep location (©xyz, Apple location keys) and XMP in udta/meta/uuid boxes of the
+// movie and its tracks. They are retyped as zero-filled `free` boxes, which players skip, so no
+// offsets move and the media data itself is left untouched.
+async function stripIsoBmffMetadata(filePath: string): Promise<void> {
+  const handle = await fs.open(filePath, "r+");
+  try {
+    const { size: fileSize } = await handle.stat();
+    const header = Buffer.alloc(16);
+    let offset = 0;
+
+    while (offset + 8 <= fileSize) {
+      await handle.read(header, 0, 16, offset);
+      let size = header.readUInt32BE(0);
+      let headerSize = 8;
+      if (size === 1) {
+        size = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = fileSize - offset;
+      }
+      if (size < headerSize || offset + size > fileSize) {
+        throw rejectMedia("повреждённый файл видео");
+      }
+
+      const type = header.toString("latin1", 4, 8);
+      if (ISOBMFF_METADATA_BOXES.has(type)) {
+        await handle.write(Buffer.from("free", "latin1"), 0, 4, offset + 4);
+        const zeros = Buffer.alloc(Math.min(size - headerSize, 64 * 1024));
+        for (let position = offset + headerSize; position < offset + size; position += zeros.length) {
+          await handle.write(zeros, 0, Math.min(zeros.length, offset + size - position), position);
+        }
+      } else if (type === "moov") {
+        if (size > MOOV_MAX_BYTES) {
+          throw rejectMedia("слишком большой заголовок видео");
+        }
+        const moov = Buffer.alloc(size);
+        await handle.read(moov, 0, size, offset);
+        freeMetadataBoxes(moov, headerSize, size);
+        await handle.write(moov, 0, size, offset);
+      }
+      offset += size;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+// Detects the real format from magic bytes, enforces the per-type size limit, rejects files that
+// hide another document, and rewrites the file in place without location or camera metadata.
+// `declaredMime` is what the client claimed; pass "" when there is nothing to cross-check.
+// `allowRenditions` also accepts AVIF, which only ever comes from the app's own rendition step:
+// its metadata lives in the same box as the image structure, so it gets the document check only.
+async function sanitizeMediaFile(
+  filePath: string,
+  declaredMime = "",
+  options: { allowRenditions?: boolean } = {}
+): Promise<SanitizedMedia> {
+  const handle = await fs.open(filePath, "r");
+  let size = 0;
+  let head: Buffer;
+  let tail: Buffer;
+  try {
+    size = (await handle.stat()).size;
+    head = Buffer.alloc(Math.min(size, EDGE_SCAN_BYTES));
+    tail = Buffer.alloc(Math.min(size, EDGE_SCAN_BYTES));
+    await handle.read(head, 0, head.length, 0);
+    await handle.read(tail, 0, tail.length, size - tail.length);
+  } finally {
+    await handle.close();
+  }
+
+  if (!size) {
+    throw rejectMedia("пустой файл");
+  }
+
+  if (options.allowRenditions && detectMediaExtension(head) === "avif") {
+    if (size > IMAGE_MAX_BYTES) {
+      throw rejectMedia(`изображение больше ${Math.round(IMAGE_MAX_BYTES / 1024 / 1024)} МБ`);
+    }
+    assertNoEmbeddedContent([head, tail]);
+    return { format: "avif", type: "image", ext: "avif", size };
+  }
+
+  const format = sniffMediaFormat(head);
+  if (!format) {
+    throw rejectMedia("формат не распознан (поддерживаются JPEG, PNG, GIF, WebP, MP4, MOV и WebM)");
+  }
+
+  const info = MEDIA_FORMATS[format];
+  const declared = declaredMime.split(";")[0].trim().toLowerCase();
+  if (declared && declared !== "application/octet-stream" && !info.mimeTypes.includes(declared)) {
+    throw rejectMedia(`содержимое (${info.label}) не совпадает с заявленным типом ${declared}`);
+  }
+
+  const maxBytes = info.type === "image" ? IMAGE_MAX_BYTES : VIDEO_MAX_BYTES;
+  if (size > maxBytes) {
+    throw rejectMedia(`${info.type === "image" ? "изображение" : "видео"} больше ${Math.round(maxBytes / 1024 / 1024)} МБ`);
+  }
+
+  assertNoEmbeddedContent([head, tail]);
+
+  const sanitizeImage = IMAGE_SANITIZERS[format];
+  if (sanitizeImage) {
+    const result = sanitizeImage(await fs.readFile(filePath));
+    // Bytes after the end of the image never reach the output; only their edges are checked,
+    // which is where an appended archive or page starts and where a ZIP keeps its directory.
+    const trailing = result.trailing;
+    assertNoEmbeddedContent([
+      ...result.inspected,
+      trailing.subarray(0, EDGE_SCAN_BYTES),
+      trailing.subarray(Math.max(0, trailing.length - EDGE_SCAN_BYTES))
+    ]);
+    await fs.writeFile(filePath, result.output);
+    return { format, type: info.type, ext: info.ext, size: result.output.length };
+  }
+
+  if (format === "mp4" || format === "mov") {
+    await stripIsoBmffMetadata(filePath);
+  }
+  return { format, type: info.type, ext: info.ext, size };
+}
+
+function readJpegInfo(data: Buffer): ImageInfo | null {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    // SOF0..SOF15 carry the frame size; C4, C8 and CC share the range but are tables.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5), alpha: false, animated: false };
+    }
+    if (marker === 0xda || marker === 0xd9) {
+      return null;
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readPngInfo(data: Buffer): ImageInfo | null {
+  if (data.length < 33 || data.toString("latin1", 12, 16) !== "IHDR") {
+    return null;
+  }
+  const colorType = data[25];
+  const info = { width: data.readUInt32BE(16), height: data.readUInt32BE(20), alpha: colorType === 4 || colorType === 6, animated: false };
+
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    if (type === "tRNS") {
+      info.alpha = true;
+    } else if (type === "acTL") {
+      info.animated = true;
+    } else if (type === "IDAT" || type === "IEND") {
+      break;
+    }
+    offset += 12 + data.readUInt32BE(offset);
+  }
+  return info;
+}
+
+function readWebpInfo(data: Buffer): ImageInfo | null {
+  if (data.length < 30) {
+    return null;
+  }
+  const type = data.toString("latin1", 12, 16);
+  if (type === "VP8X") {
+    const flags = data[20];
+    return {
+      width: data.readUIntLE(24, 3) + 1,
+      height: data.readUIntLE(27, 3) + 1,
+      alpha: Boolean(flags & 0x10),
+      animated: Boolean(flags & 0x02)
+    };
+  }
+  if (type === "VP8 ") {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff, alpha: false, animated: false };
+  }
+  if (type === "VP8L") {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, alpha: Boolean((bits >> 28) & 1), animated: false };
+  }
+  return null;
+}
+
+const IMAGE_INFO_READERS: Partial<Record<MediaFormat, (data: Buffer) => ImageInfo | null>> = {
+  jpeg: readJpegInfo,
+  png: readPngInfo,
+  webp: readWebpInfo
+};
+
+// Pixel size and the traits that decide which renditions can be made; null for GIFs and unreadable headers.
+// Expects a file that has already been through sanitizeMediaFile, so only the header is parsed.
+async function readImageInfo(filePath: string): Promise<ImageInfo | null> {
+  const data = await fs.readFile(filePath);
+  const format = sniffMediaFormat(data.subarray(0, EDGE_SCAN_BYTES));
+  const reader = format ? IMAGE_INFO_READERS[format] : undefined;
+  const info = reader ? reader(data) : null;
+  return info && info.width > 0 && info.height > 0 ? info : null;
+}
+
+module.exports = {
+  MEDIA_UPLOAD_MAX_BYTES,
+  sanitizeMediaFile,
+  detectMediaExtension,
+  readImageInfo
+};
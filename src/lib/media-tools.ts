@@ -1,11 +1,35 @@
-import type { MediaItem, MediaType } from "../types/content";
+import type { MediaItem, MediaRendition, MediaType } from "../types/content";
 
 const { spawn } = require("node:child_process") as typeof import("node:child_process");
 const fs = require("node:fs/promises") as typeof import("node:fs/promises");
 const path = require("node:path") as typeof import("node:path");
+const { fetchRemoteFile } = require("./remote-fetch") as {
+  fetchRemoteFile: (
+    url: string,
+    destination: string,
+    options?: {
+      maxBytes?: number;
+      connectTimeoutMs?: number;
+      readTimeoutMs?: number;
+      headers?: Record<string, string>;
+      acceptContentType?: (contentType: string) => boolean;
+    }
+  ) => Promise<{ finalUrl: string; contentType: string; bytes: number }>;
+};
+const { MEDIA_UPLOAD_MAX_BYTES, sanitizeMediaFile, readImageInfo } = require("./media-sanitize") as {
+  MEDIA_UPLOAD_MAX_BYTES: number;
+  sanitizeMediaFile: (filePath: string, declaredMime?: string) => Promise<{ type: MediaType; ext: string; size: number }>;
+  readImageInfo: (filePath: string) => Promise<{ width: number; height: number; alpha: boolean; animated: boolean } | null>;
+};
 
 const sourceDir = path.join(process.cwd(), "public", "media", "source");
 const optimizedDir = path.join(process.cwd(), "public", "media", "optimized");
+// Downloads are checked and stripped here before anything is moved into the public folders.
+const incomingDir = path.join(process.cwd(), "uploads");
+const IMPORT_MAX_BYTES = Math.max(1, Number(process.env.MEDIA_IMPORT_MAX_MB || 100)) * 1024 * 1024;
+const IMPORT_CONNECT_TIMEOUT_MS = Math.max(1, Number(process.env.MEDIA_IMPORT_CONNECT_TIMEOUT_SECONDS || 10)) * 1000;
+const IMPORT_READ_TIMEOUT_MS = Math.max(1, Number(process.env.MEDIA_IMPORT_READ_TIMEOUT_SECONDS || 30)) * 1000;
+const RENDITION_WIDTHS = [480, 960, 1600, 2400];
 
 type MediaSource = "instagram" | "2gis" | "yandex" | "vk" | "youtube" | "upload" | "web";
 
@@ -13,6 +37,9 @@ interface OptimizeResult {
   type: MediaType;
   optimizedFile: string;
   ext: string;
+  width?: number;
+  height?: number;
+  renditions?: MediaRendition[];
 }
 
 interface UploadedFile {
@@ -92,16 +119,100 @@ function runCommand(command: string, args: string[]): Promise<void> {
 async function ensureDirs(): Promise<void> {
   await fs.mkdir(sourceDir, { recursive: true });
   await fs.mkdir(optimizedDir, { recursive: true });
+  await fs.mkdir(incomingDir, { recursive: true });
+}
+
+// Widths from the list that do not upscale, plus the image's own width when it is below the largest one.
+function pickRenditionWidths(sourceWidth: number): number[] {
+  const widths = RENDITION_WIDTHS.filter((width) => width <= sourceWidth);
+  if (sourceWidth < RENDITION_WIDTHS[RENDITION_WIDTHS.length - 1] && !widths.includes(sourceWidth)) {
+    widths.push(sourceWidth);
+  }
+  return widths;
+}
+
+function renditionUrl(file: string): string {
+  return `/media/optimized/${path.basename(file)}`;
+}
+
+// AVIF goes through ffmpeg, which drops the alpha channel, so transparent images only get WebP copies.
+// An encoder that is missing or fails only costs its own format; the single optimized file is always there.
+async function createImageRenditions(
+  inputFile: string,
+  outputBaseName: string,
+  info: { width: number; alpha: boolean }
+): Promise<MediaRendition[]> {
+  const renditions: MediaRendition[] = [];
+  const widths = pickRenditionWidths(info.width);
+
+  for (const width of widths) {
+    const file = path.join(optimizedDir, `${outputBaseName}-${width}w.webp`);
+    try {
+      await runCommand("cwebp", ["-quiet", "-q", "82", "-resize", String(width), "0", inputFile, "-o", file]);
+      renditions.push({ format: "webp", width, src: renditionUrl(file) });
+    } catch {
+      await fs.unlink(file).catch(() => {});
+      break;
+    }
+  }
+
+  if (info.alpha) {
+    return renditions;
+  }
+  for (const width of widths) {
+    const file = path.join(optimizedDir, `${outputBaseName}-${width}w.avif`);
+    try {
+      await runCommand("ffmpeg", [
+        "-y",
+        "-i",
+        inputFile,
+        "-map_metadata",
+        "-1",
+        "-vf",
+        `scale=${width}:-2`,
+        "-frames:v",
+        "1",
+        "-pix_fmt",
+        "yuv420p",
+        "-c:v",
+        "libaom-av1",
+        "-still-picture",
+        "1",
+        "-crf",
+        "30",
+        "-cpu-used",
+        "6",
+        file
+      ]);
+      renditions.push({ format: "avif", width, src: renditionUrl(file) });
+    } catch {
+      await fs.unlink(file).catch(() => {});
+      break;
+    }
+  }
+  return renditions;
 }
 
 async function optimizeImage(inputFile: string, outputBaseName: string): Promise<OptimizeResult> {
   const optimizedFile = path.join(optimizedDir, `${outputBaseName}.webp`);
   try {
     await runCommand("cwebp", ["-quiet", "-q", "82", inputFile, "-o", optimizedFile]);
+    // Renditions need a known size, and animated images keep just the single file.
+    const info = await readImageInfo(inputFile);
+    if (!info || info.animated) {
+      return {
+        type: "image",
+        optimizedFile,
+        ext: "webp"
+      };
+    }
     return {
       type: "image",
       optimizedFile,
-      ext: "webp"
+      ext: "webp",
+      width: info.width,
+      height: info.height,
+      renditions: await createImageRenditions(inputFile, outputBaseName, info)
     };
   } catch {
     const ext = path.extname(inputFile) || ".jpg";
@@ -122,6 +233,8 @@ async function optimizeVideo(inputFile: string, outputBaseName: string): Promise
       "-y",
       "-i",
       inputFile,
+      "-map_metadata",
+      "-1",
       "-movflags",
       "+faststart",
       "-vcodec",
@@ -154,31 +267,44 @@ async function optimizeVideo(inputFile: string, outputBaseName: string): Promise
   }
 }
 
-async function importRemoteMedia(url: string, title?: string): Promise<MediaItem> {
-  const source = detectSourceFromUrl(url);
-  const response = await fetch(url, {
-    headers: {
-      "user-agent": "Mozilla/5.0"
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`Не удалось загрузить медиа: HTTP ${response.status}`);
+function describeRenditions(optimized: OptimizeResult): Pick<MediaItem, "width" | "height" | "renditions"> {
+  if (!optimized.width || !optimized.height) {
+    return {};
   }
+  return {
+    width: optimized.width,
+    height: optimized.height,
+    ...(optimized.renditions?.length ? { renditions: optimized.renditions } : {})
+  };
+}
 
-  const contentType = (response.headers.get("content-type") || "").toLowerCase();
-  const isImage = contentType.startsWith("image/");
-  const isVideo = contentType.startsWith("video/");
-
-  if (!isImage && !isVideo) {
-    throw new Error("Неподдерживаемый тип медиа");
+async function importRemoteMedia(url: string, title?: string): Promise<MediaItem> {
+  const source = detectSourceFromUrl(url);
+  const fileBase = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  // The real format is only known once the body is on disk, so it is downloaded under a
+  // temporary name outside `public/` and moved there after sniffing and stripping metadata.
+  const partialFile = path.join(incomingDir, `${fileBase}.part`);
+  let sanitized: { type: MediaType; ext: string };
+  try {
+    await fetchRemoteFile(url, partialFile, {
+      maxBytes: IMPORT_MAX_BYTES,
+      connectTimeoutMs: IMPORT_CONNECT_TIMEOUT_MS,
+      readTimeoutMs: IMPORT_READ_TIMEOUT_MS,
+      headers: {
+        "user-agent": "Mozilla/5.0"
+      },
+      acceptContentType: (contentType) => contentType.startsWith("image/") || contentType.startsWith("video/")
+    });
+    // Servers mislabel formats too often for their Content-Type to be cross-checked; the bytes decide.
+    sanitized = await sanitizeMediaFile(partialFile);
+  } catch (error) {
+    await fs.unlink(partialFile).catch(() => {});
+    throw error;
   }
 
-  const extGuess = contentType.split("/")[1]?.split(";")[0] || (isImage ? "jpg" : "mp4");
-  const fileBase = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-  const sourceFile = path.join(sourceDir, `${fileBase}.${extGuess}`);
-  const bytes = Buffer.from(await response.arrayBuffer());
-  await fs.writeFile(sourceFile, bytes);
+  const isImage = sanitized.type === "image";
+  const sourceFile = path.join(sourceDir, `${fileBase}.${sanitized.ext}`);
+  await fs.rename(partialFile, sourceFile);
 
   const optimized = isImage ? await optimizeImage(sourceFile, fileBase) : await optimizeVideo(sourceFile, fileBase);
 
@@ -191,7 +317,8 @@ async function importRemoteMedia(url: string, title?: string): Promise<MediaItem
     originalUrl: url,
     localOriginal: `/media/source/${path.basename(sourceFile)}`,
     localOptimized: `/media/optimized/${path.basename(optimized.optimizedFile)}`,
-    createdAt: new Date().toISOString()
+    createdAt: new Date().toISOString(),
+    ...describeRenditions(optimized)
   };
 }
 
@@ -200,17 +327,12 @@ async function processUploadedFile(file: UploadedFile, title?: string): Promise<
   const inputPath = file.path;
   const fileBase = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
-  const sourceExt = path.extname(file.originalname) || ".bin";
-  const sourceFile = path.join(sourceDir, `${fileBase}${sourceExt}`);
+  // The client's MIME type is only cross-checked and its file name is not used; the extension comes from the bytes.
+  const sanitized = await sanitizeMediaFile(inputPath, file.mimetype);
+  const isImage = sanitized.type === "image";
+  const sourceFile = path.join(sourceDir, `${fileBase}.${sanitized.ext}`);
   await fs.copyFile(inputPath, sourceFile);
 
-  const isImage = (file.mimetype || "").startsWith("image/");
-  const isVideo = (file.mimetype || "").startsWith("video/");
-
-  if (!isImage && !isVideo) {
-    throw new Error("Неподдерживаемый формат загрузки");
-  }
-
   const optimized = isImage ? await optimizeImage(sourceFile, fileBase) : await optimizeVideo(sourceFile, fileBase);
 
   return {
@@ -222,11 +344,13 @@ async function processUploadedFile(file: UploadedFile, title?: string): Promise<
     originalUrl: "",
     localOriginal: `/media/source/${path.basename(sourceFile)}`,
     localOptimized: `/media/optimized/${path.basename(optimized.optimizedFile)}`,
-    createdAt: new Date().toISOString()
+    createdAt: new Date().toISOString(),
+    ...describeRenditions(optimized)
   };
 }
 
 module.exports = {
+  MEDIA_UPLOAD_MAX_BYTES,
   ensureDirs,
   importRemoteMedia,
   processUploadedFile
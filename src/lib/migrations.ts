@@ -0,0 +1,477 @@
+type Database = import("node:sqlite").DatabaseSync;
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: Array<{ version: number; name: string; appliedAt: string }>;
+  pending: Array<{ version: number; name: string }>;
+}
+
+function addColumnIfMissing(db: Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name?: string }>;
+  if (!columns.some((item) => item.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Append-only: never edit a migration that has shipped, add a new one instead.
+// The first migrations use IF NOT EXISTS because they adopt databases created before versioning.
+const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial_kv_store_and_media_jobs",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS kv_store (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS media_jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_type TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at TEXT NOT NULL,
+          started_at TEXT,
+          finished_at TEXT
+        );
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_media_jobs_status_created
+        ON media_jobs(status, created_at);
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: "content_revisions",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS content_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          store_key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          author TEXT NOT NULL DEFAULT '',
+          summary TEXT NOT NULL DEFAULT '',
+          created_at TEXT NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_content_revisions_key_id
+        ON content_revisions(store_key, id);
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: "content_versions",
+    up(db) {
+      addColumnIfMissing(db, "kv_store", "version", "INTEGER NOT NULL DEFAULT 1");
+      addColumnIfMissing(db, "content_revisions", "version", "INTEGER NOT NULL DEFAULT 0");
+    }
+  },
+  {
+    version: 4,
+    name: "media_table",
+    up(db) {
+      db.exec(`
+        CREATE TABLE media (
+          stage TEXT NOT NULL CHECK (stage IN ('published', 'draft')),
+          id TEXT NOT NULL,
+          position INTEGER NOT NULL DEFAULT 0,
+          title TEXT NOT NULL DEFAULT '',
+          alt TEXT NOT NULL DEFAULT '',
+          source TEXT NOT NULL,
+          type TEXT NOT NULL,
+          original_url TEXT NOT NULL DEFAULT '',
+          local_original TEXT NOT NULL DEFAULT '',
+          local_optimized TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          version INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (stage, id)
+        );
+      `);
+      db.exec("CREATE INDEX idx_media_stage_position ON media(stage, position);");
+      db.exec("CREATE INDEX idx_media_stage_type ON media(stage, type);");
+      db.exec("CREATE INDEX idx_media_stage_source ON media(stage, source);");
+      db.exec("CREATE INDEX idx_media_stage_created ON media(stage, created_at);");
+
+      // Version and timestamp of each stage as a whole; a missing draft row means "same as published".
+      db.exec(`
+        CREATE TABLE media_stages (
+          stage TEXT PRIMARY KEY CHECK (stage IN ('published', 'draft')),
+          version INTEGER NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      const insertItem = db.prepare(`
+        INSERT OR IGNORE INTO media
+          (stage, id, position, title, alt, source, type, original_url, local_original, local_optimized, created_at, version)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const stages: Array<[string, string]> = [
+        ["media", "published"],
+        ["media:draft", "draft"]
+      ];
+
+      for (const [key, stage] of stages) {
+        const row = db.prepare("SELECT value, updated_at, version FROM kv_store WHERE key = ?").get(key) as
+          | { value: string; updated_at: string; version: number }
+          | undefined;
+        if (!row) {
+          continue;
+        }
+
+        let items: Array<Record<string, unknown>> = [];
+        try {
+          const parsed = JSON.parse(row.value) as unknown;
+          items = Array.isArray(parsed) ? (parsed as Array<Record<string, unknown>>) : [];
+        } catch {
+          items = [];
+        }
+
+        const version = Number(row.version || 1);
+        items.forEach((item, position) => {
+          insertItem.run(
+            stage,
+            String(item.id || ""),
+            position,
+            String(item.title || ""),
+            String(item.alt || ""),
+            String(item.source || "upload"),
+            String(item.type || "image"),
+            String(item.originalUrl || ""),
+            String(item.localOriginal || ""),
+            String(item.localOptimized || ""),
+            String(item.createdAt || row.updated_at),
+            version
+          );
+        });
+
+        db.prepare("INSERT INTO media_stages (stage, version, updated_at) VALUES (?, ?, ?)").run(stage, version, row.updated_at);
+        db.prepare("DELETE FROM kv_store WHERE key = ?").run(key);
+      }
+    }
+  },
+  {
+    version: 5,
+    name: "admin_users",
+    up(db) {
+      db.exec(`
+        CREATE TABLE admin_users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          display_name TEXT NOT NULL DEFAULT '',
+          password_hash TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'admin',
+          disabled INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          last_login_at TEXT
+        );
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: "admin_roles_audit_log",
+    up(db) {
+      // The single "admin" role from version 5 becomes "editor"; owners stay owners.
+      db.exec("UPDATE admin_users SET role = 'editor' WHERE role NOT IN ('owner', 'editor', 'media_manager', 'viewer');");
+      db.exec(`
+        CREATE TABLE admin_audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL,
+          user_id INTEGER,
+          actor TEXT NOT NULL,
+          action TEXT NOT NULL,
+          target TEXT NOT NULL DEFAULT '',
+          outcome TEXT NOT NULL CHECK (outcome IN ('allowed', 'denied')),
+          ip TEXT NOT NULL DEFAULT '',
+          details TEXT NOT NULL DEFAULT '{}'
+        );
+      `);
+      db.exec("CREATE INDEX idx_admin_audit_log_created ON admin_audit_log(created_at);");
+      db.exec("CREATE INDEX idx_admin_audit_log_outcome ON admin_audit_log(outcome, created_at);");
+    }
+  },
+  {
+    version: 7,
+    name: "login_throttling",
+    up(db) {
+      db.exec(`
+        CREATE TABLE login_attempts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL,
+          username TEXT NOT NULL,
+          ip TEXT NOT NULL,
+          success INTEGER NOT NULL,
+          reason TEXT NOT NULL DEFAULT ''
+        );
+      `);
+      db.exec("CREATE INDEX idx_login_attempts_created ON login_attempts(created_at);");
+      db.exec("CREATE INDEX idx_login_attempts_username ON login_attempts(username, created_at);");
+
+      // One row per throttled subject: consecutive failures and the current lockout, if any.
+      db.exec(`
+        CREATE TABLE login_throttle (
+          scope TEXT NOT NULL CHECK (scope IN ('username', 'ip')),
+          subject TEXT NOT NULL,
+          failures INTEGER NOT NULL DEFAULT 0,
+          lockouts INTEGER NOT NULL DEFAULT 0,
+          locked_until TEXT,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (scope, subject)
+        );
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: "admin_totp",
+    up(db) {
+      db.exec("ALTER TABLE admin_users ADD COLUMN totp_secret TEXT;");
+      db.exec("ALTER TABLE admin_users ADD COLUMN totp_enabled_at TEXT;");
+      // Last accepted time step; codes from that step or earlier are refused to stop replays.
+      db.exec("ALTER TABLE admin_users ADD COLUMN totp_last_step INTEGER NOT NULL DEFAULT -1;");
+      db.exec(`
+        CREATE TABLE admin_recovery_codes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+          code_hash TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          used_at TEXT
+        );
+      `);
+      db.exec("CREATE INDEX idx_admin_recovery_codes_user ON admin_recovery_codes(user_id);");
+    }
+  },
+  {
+    version: 9,
+    name: "sessions",
+    up(db) {
+      // `handle` is a hash of the session id, so sessions can be listed and revoked without exposing the id.
+      db.exec(`
+        CREATE TABLE sessions (
+          sid TEXT PRIMARY KEY,
+          handle TEXT NOT NULL UNIQUE,
+          data TEXT NOT NULL,
+          user_id INTEGER,
+          ip TEXT NOT NULL DEFAULT '',
+          user_agent TEXT NOT NULL DEFAULT '',
+          created_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+      `);
+      db.exec("CREATE INDEX idx_sessions_expires ON sessions(expires_at);");
+      db.exec("CREATE INDEX idx_sessions_user ON sessions(user_id);");
+    }
+  },
+  {
+    version: 10,
+    name: "csp_reports",
+    up(db) {
+      // Browsers repeat the same violation on every page view, so reports are folded by fingerprint.
+      db.exec(`
+        CREATE TABLE csp_reports (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          fingerprint TEXT NOT NULL UNIQUE,
+          directive TEXT NOT NULL,
+          blocked_uri TEXT NOT NULL DEFAULT '',
+          document_uri TEXT NOT NULL DEFAULT '',
+          source_file TEXT NOT NULL DEFAULT '',
+          line_number INTEGER,
+          sample TEXT NOT NULL DEFAULT '',
+          disposition TEXT NOT NULL DEFAULT 'enforce',
+          user_agent TEXT NOT NULL DEFAULT '',
+          hits INTEGER NOT NULL DEFAULT 1,
+          first_seen_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL
+        );
+      `);
+      db.exec("CREATE INDEX idx_csp_reports_last_seen ON csp_reports(last_seen_at);");
+    }
+  },
+  {
+    version: 11,
+    name: "api_tokens",
+    up(db) {
+      // Only the SHA-256 of a token is kept; `token_prefix` lets admins tell tokens apart.
+      db.exec(`
+        CREATE TABLE api_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          token_prefix TEXT NOT NULL,
+          scope TEXT NOT NULL CHECK (scope IN ('read', 'write')),
+          created_at TEXT NOT NULL,
+          created_by TEXT NOT NULL DEFAULT '',
+          expires_at TEXT,
+          last_used_at TEXT,
+          last_used_ip TEXT NOT NULL DEFAULT '',
+          revoked_at TEXT
+        );
+      `);
+      db.exec("CREATE INDEX idx_api_tokens_user ON api_tokens(user_id);");
+    }
+  },
+  {
+    version: 12,
+    name: "webhooks",
+    up(db) {
+      // The secret signs payloads, so unlike API tokens it has to be kept as is.
+      db.exec(`
+        CREATE TABLE webhooks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          events TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          created_by TEXT NOT NULL DEFAULT ''
+        );
+      `);
+      // One row per event and subscription; the payload is fixed when the event happens,
+      // so every retry sends the same body.
+      db.exec(`
+        CREATE TABLE webhook_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('pending', 'processing', 'delivered', 'failed')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT NOT NULL,
+          last_attempt_at TEXT,
+          last_status_code INTEGER,
+          last_error TEXT,
+          response_excerpt TEXT,
+          created_at TEXT NOT NULL,
+          delivered_at TEXT
+        );
+      `);
+      db.exec("CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);");
+      db.exec("CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id);");
+    }
+  },
+  {
+    version: 13,
+    name: "media_job_result",
+    up(db) {
+      // Lets the job list show what a finished import or upload produced.
+      db.exec("ALTER TABLE media_jobs ADD COLUMN result_media_id TEXT;");
+    }
+  },
+  {
+    version: 14,
+    name: "media_renditions",
+    up(db) {
+      // Renditions are a JSON list of {format, width, src}; items added before this stay without them.
+      db.exec(`
+        ALTER TABLE media ADD COLUMN width INTEGER;
+        ALTER TABLE media ADD COLUMN height INTEGER;
+        ALTER TABLE media ADD COLUMN renditions TEXT;
+      `);
+    }
+  },
+  {
+    version: 15,
+    name: "login_throttle_per_address",
+    up(db) {
+      // Login streaks are now kept per "login|address"; rows keyed by the login alone would never be read again.
+      db.exec(`DELETE FROM login_throttle WHERE scope = 'username' AND instr(subject, '|') = 0;`);
+    }
+  }
+];
+
+const LATEST_SCHEMA_VERSION = migrations.reduce((max, item) => Math.max(max, item.version), 0);
+
+function ensureMigrationsTable(db: Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+function getMigrationStatus(db: Database): MigrationStatus {
+  ensureMigrationsTable(db);
+  const rows = db
+    .prepare("SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC")
+    .all() as Array<{ version: number; name: string; applied_at: string }>;
+  const appliedVersions = new Set(rows.map((row) => Number(row.version)));
+
+  return {
+    currentVersion: rows.reduce((max, row) => Math.max(max, Number(row.version)), 0),
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied: rows.map((row) => ({ version: Number(row.version), name: String(row.name), appliedAt: String(row.applied_at) })),
+    pending: migrations
+      .filter((item) => !appliedVersions.has(item.version))
+      .map((item) => ({ version: item.version, name: item.name }))
+  };
+}
+
+function runMigrations(db: Database): number[] {
+  const status = getMigrationStatus(db);
+
+  if (status.currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Схема базы данных (версия ${status.currentVersion}) новее кода (версия ${LATEST_SCHEMA_VERSION}). Обновите приложение.`
+    );
+  }
+
+  const pendingVersions = new Set(status.pending.map((item) => item.version));
+  const appliedNow: number[] = [];
+
+  for (const migration of migrations) {
+    if (!pendingVersions.has(migration.version)) {
+      continue;
+    }
+
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      migration.up(db);
+      db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)").run(
+        migration.version,
+        migration.name,
+        new Date().toISOString()
+      );
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Миграция ${migration.version} (${migration.name}) не применена: ${message}`);
+    }
+
+    appliedNow.push(migration.version);
+  }
+
+  return appliedNow;
+}
+
+module.exports = {
+  migrations,
+  LATEST_SCHEMA_VERSION,
+  getMigrationStatus,
+  runMigrations
+};
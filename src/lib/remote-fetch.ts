@@ -0,0 +1,322 @@
+import type { LookupAddress } from "node:dns";
+import type { IncomingMessage } from "node:http";
+
+const dns = require("node:dns") as typeof import("node:dns");
+const fs = require("node:fs") as typeof import("node:fs");
+const fsp = require("node:fs/promises") as typeof import("node:fs/promises");
+const http = require("node:http") as typeof import("node:http");
+const https = require("node:https") as typeof import("node:https");
+const net = require("node:net") as typeof import("node:net");
+const { Transform } = require("node:stream") as typeof import("node:stream");
+const { pipeline } = require("node:stream/promises") as typeof import("node:stream/promises");
+
+interface RemoteFetchOptions {
+  maxBytes?: number;
+  connectTimeoutMs?: number;
+  readTimeoutMs?: number;
+  maxRedirects?: number;
+  headers?: Record<string, string>;
+  // Called with the response Content-Type before the body is read; returning false aborts the download.
+  acceptContentType?: (contentType: string) => boolean;
+  // Exact addresses exempt from the private-range check, e.g. a stub server on 127.0.0.1 in tests.
+  allowAddresses?: string[];
+}
+
+interface RemoteFetchResult {
+  finalUrl: string;
+  contentType: string;
+  bytes: number;
+}
+
+interface RemotePostResult {
+  statusCode: number;
+  responseExcerpt: string;
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+const DEFAULT_CONNECT_TIMEOUT_MS = 10_000;
+const DEFAULT_READ_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_RESPONSE_EXCERPT_BYTES = 2048;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Loopback, private, link-local, CGNAT, multicast and documentation ranges. BlockList also
+// applies the IPv4 rules to IPv4-mapped IPv6 addresses such as ::ffff:127.0.0.1.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4]
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function toIpv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.includes("::") ? text.split("::") : [text, undefined];
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros = tail === undefined ? [] : Array<string>(8 - headGroups.length - tailGroups.length).fill("0");
+  return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16));
+}
+
+// NAT64 (64:ff9b::/96) and 6to4 (2002::/16) addresses carry an IPv4 address that the gateway
+// connects to, so the embedded address is what has to pass the IPv4 rules.
+function embeddedIpv4(address: string): string | null {
+  const groups = toIpv6Groups(address);
+  const toIpv4 = (high: number, low: number) => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return toIpv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x2002) {
+    return toIpv4(groups[1], groups[2]);
+  }
+  return null;
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) {
+    return blockedAddresses.check(address, "ipv4");
+  }
+  if (family === 6) {
+    const ipv4 = embeddedIpv4(address);
+    return blockedAddresses.check(address, "ipv6") || (ipv4 !== null && blockedAddresses.check(ipv4, "ipv4"));
+  }
+  return true;
+}
+
+// The connection goes to exactly the addresses checked here, so a DNS answer cannot change
+// between the check and the connect.
+function createGuardedLookup(allowAddresses: string[]) {
+  return (hostname: string, options: { all?: boolean; family?: number }, callback: LookupCallback): void => {
+    dns.lookup(hostname, { family: options.family || 0, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, "");
+        return;
+      }
+
+      const list = addresses as LookupAddress[];
+      const blocked = list.find((item) => isBlockedAddress(item.address) && !allowAddresses.includes(item.address));
+      if (blocked || !list.length) {
+        callback(Object.assign(new Error(`Адрес ${hostname} ведёт во внутреннюю сеть`), { code: "EBLOCKED" }), "");
+        return;
+      }
+
+      if (options.all) {
+        callback(null, list);
+        return;
+      }
+      callback(null, list[0].address, list[0].family);
+    });
+  };
+}
+
+function parseRemoteUrl(rawUrl: string, allowAddresses: string[], base?: URL): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(rawUrl, base);
+  } catch {
+    throw new Error("Некорректная ссылка");
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Поддерживаются только ссылки http и https");
+  }
+
+  // IP literals never go through the lookup, so they are checked here.
+  const literal = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(literal) && isBlockedAddress(literal) && !allowAddresses.includes(literal)) {
+    throw new Error(`Адрес ${literal} ведёт во внутреннюю сеть`);
+  }
+
+  return parsed;
+}
+
+function requestOnce(
+  url: URL,
+  options: Required<Omit<RemoteFetchOptions, "acceptContentType">>,
+  method = "GET",
+  payload?: string
+): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.request(url, {
+      method,
+      headers: options.headers,
+      lookup: createGuardedLookup(options.allowAddresses) as unknown as typeof dns.lookup
+    });
+
+    const connectTimer = setTimeout(() => {
+      request.destroy(new Error(`Сервер ${url.host} не ответил за ${Math.round(options.connectTimeoutMs / 1000)} с`));
+    }, options.connectTimeoutMs);
+
+    request.on("socket", (socket) => {
+      if (!socket.connecting) {
+        clearTimeout(connectTimer);
+        return;
+      }
+      socket.once("connect", () => clearTimeout(connectTimer));
+    });
+    // Idle timeout: applies while waiting for headers and between body chunks. Once the body is
+    // streaming, the response is destroyed so the error reaches the pipeline reading it.
+    let activeResponse: IncomingMessage | null = null;
+    request.setTimeout(options.readTimeoutMs, () => {
+      const error = new Error(`Сервер ${url.host} перестал отвечать`);
+      if (activeResponse) {
+        activeResponse.destroy(error);
+      }
+      request.destroy(error);
+    });
+    request.on("response", (response) => {
+      clearTimeout(connectTimer);
+      activeResponse = response;
+      resolve(response);
+    });
+    request.on("error", (error) => {
+      clearTimeout(connectTimer);
+      reject(error);
+    });
+    request.end(payload);
+  });
+}
+
+function createSizeLimit(maxBytes: number, counter: { bytes: number }) {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      counter.bytes += chunk.length;
+      if (counter.bytes > maxBytes) {
+        callback(new Error(`Файл больше ${Math.round(maxBytes / 1024 / 1024)} МБ`));
+        return;
+      }
+      callback(null, chunk);
+    }
+  });
+}
+
+// Downloads a URL given by an admin straight to `destination`, following redirects by hand
+// so that every hop is checked against the same address and protocol rules.
+async function fetchRemoteFile(rawUrl: string, destination: string, options: RemoteFetchOptions = {}): Promise<RemoteFetchResult> {
+  const settings = {
+    maxBytes: options.maxBytes || DEFAULT_MAX_BYTES,
+    connectTimeoutMs: options.connectTimeoutMs || DEFAULT_CONNECT_TIMEOUT_MS,
+    readTimeoutMs: options.readTimeoutMs || DEFAULT_READ_TIMEOUT_MS,
+    maxRedirects: options.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+    headers: options.headers || {},
+    allowAddresses: options.allowAddresses || []
+  };
+
+  let url = parseRemoteUrl(rawUrl, settings.allowAddresses);
+  let response = await requestOnce(url, settings);
+
+  for (let redirects = 0; REDIRECT_STATUSES.has(Number(response.statusCode)); redirects += 1) {
+    const location = response.headers.location;
+    response.resume();
+    if (!location) {
+      throw new Error(`Перенаправление без адреса: HTTP ${response.statusCode}`);
+    }
+    if (redirects >= settings.maxRedirects) {
+      throw new Error("Слишком много перенаправлений");
+    }
+    url = parseRemoteUrl(location, settings.allowAddresses, url);
+    response = await requestOnce(url, settings);
+  }
+
+  const statusCode = Number(response.statusCode);
+  if (statusCode < 200 || statusCode >= 300) {
+    response.resume();
+    throw new Error(`Не удалось загрузить медиа: HTTP ${statusCode}`);
+  }
+
+  const contentType = String(response.headers["content-type"] || "").toLowerCase();
+  if (options.acceptContentType && !options.acceptContentType(contentType)) {
+    response.destroy();
+    throw new Error("Неподдерживаемый тип медиа");
+  }
+
+  const declaredLength = Number(response.headers["content-length"]);
+  if (Number.isFinite(declaredLength) && declaredLength > settings.maxBytes) {
+    response.destroy();
+    throw new Error(`Файл больше ${Math.round(settings.maxBytes / 1024 / 1024)} МБ`);
+  }
+
+  const counter = { bytes: 0 };
+  try {
+    await pipeline(response, createSizeLimit(settings.maxBytes, counter), fs.createWriteStream(destination));
+  } catch (error) {
+    await fsp.unlink(destination).catch(() => {});
+    throw error;
+  }
+
+  return { finalUrl: url.toString(), contentType, bytes: counter.bytes };
+}
+
+// Sends a JSON body to a configured endpoint (webhooks) under the same address rules. Redirects
+// are not followed, and only the first `maxBytes` of the answer are kept for the delivery log.
+async function postRemoteJson(rawUrl: string, body: string, options: RemoteFetchOptions = {}): Promise<RemotePostResult> {
+  const settings = {
+    maxBytes: options.maxBytes || DEFAULT_RESPONSE_EXCERPT_BYTES,
+    connectTimeoutMs: options.connectTimeoutMs || DEFAULT_CONNECT_TIMEOUT_MS,
+    readTimeoutMs: options.readTimeoutMs || DEFAULT_READ_TIMEOUT_MS,
+    maxRedirects: 0,
+    headers: {
+      ...options.headers,
+      "content-type": "application/json",
+      "content-length": String(Buffer.byteLength(body))
+    },
+    allowAddresses: options.allowAddresses || []
+  };
+
+  const url = parseRemoteUrl(rawUrl, settings.allowAddresses);
+  const response = await requestOnce(url, settings, "POST", body);
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  // Leaving the loop early destroys the response, so a receiver cannot keep the worker reading.
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+    bytes += chunk.length;
+    if (bytes >= settings.maxBytes) {
+      break;
+    }
+  }
+
+  return {
+    statusCode: Number(response.statusCode),
+    responseExcerpt: Buffer.concat(chunks).subarray(0, settings.maxBytes).toString("utf8")
+  };
+}
+
+module.exports = {
+  fetchRemoteFile,
+  postRemoteJson,
+  isBlockedAddress
+};
@@ -0,0 +1,274 @@
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+interface BaseNode {
+  optional?: boolean;
+  nullable?: boolean;
+  description?: string;
+}
+
+interface StringNode extends BaseNode {
+  kind: "string";
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  format?: "date-time" | "email";
+  allowEmpty?: boolean;
+  enum?: string[];
+}
+
+interface NumberNode extends BaseNode {
+  kind: "number";
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+interface BooleanNode extends BaseNode {
+  kind: "boolean";
+}
+
+interface ArrayNode extends BaseNode {
+  kind: "array";
+  items: SchemaNode;
+  maxItems?: number;
+  uniqueBy?: string;
+}
+
+interface ObjectNode extends BaseNode {
+  kind: "object";
+  properties: Record<string, SchemaNode>;
+}
+
+type SchemaNode = StringNode | NumberNode | BooleanNode | ArrayNode | ObjectNode;
+
+type NodeOptions<T extends SchemaNode> = Omit<T, "kind" | "items" | "properties">;
+
+function string(options: NodeOptions<StringNode> = {}): StringNode {
+  return { kind: "string", ...options };
+}
+
+function number(options: NodeOptions<NumberNode> = {}): NumberNode {
+  return { kind: "number", ...options };
+}
+
+function boolean(options: NodeOptions<BooleanNode> = {}): BooleanNode {
+  return { kind: "boolean", ...options };
+}
+
+function array(items: SchemaNode, options: NodeOptions<ArrayNode> = {}): ArrayNode {
+  return { kind: "array", items, ...options };
+}
+
+function object(properties: Record<string, SchemaNode>, options: NodeOptions<ObjectNode> = {}): ObjectNode {
+  return { kind: "object", properties, ...options };
+}
+
+function optional<T extends SchemaNode>(node: T): T {
+  return { ...node, optional: true };
+}
+
+// Same fields with none of them required, for PATCH-style updates.
+function partial(node: ObjectNode, options: NodeOptions<ObjectNode> = {}): ObjectNode {
+  const properties = Object.fromEntries(Object.entries(node.properties).map(([key, child]) => [key, optional(child)]));
+  return { kind: "object", properties, ...options };
+}
+
+function joinPath(basePath: string, segment: string | number): string {
+  if (typeof segment === "number") {
+    return `${basePath}[${segment}]`;
+  }
+  return basePath ? `${basePath}.${segment}` : segment;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function validateString(node: StringNode, value: unknown, path: string, out: ValidationIssue[]): void {
+  if (typeof value !== "string") {
+    out.push({ path, message: "Ожидается строка" });
+    return;
+  }
+
+  if (value === "" && node.allowEmpty) {
+    return;
+  }
+  if (node.minLength !== undefined && value.trim().length < node.minLength) {
+    out.push({ path, message: node.minLength === 1 ? "Поле не может быть пустым" : `Минимум ${node.minLength} символов` });
+    return;
+  }
+  if (node.maxLength !== undefined && value.length > node.maxLength) {
+    out.push({ path, message: `Максимум ${node.maxLength} символов` });
+  }
+  if (node.enum && !node.enum.includes(value)) {
+    out.push({ path, message: `Допустимые значения: ${node.enum.join(", ")}` });
+  }
+  if (node.pattern && !node.pattern.test(value)) {
+    out.push({ path, message: node.patternMessage || "Неверный формат" });
+  }
+  if (node.format === "date-time" && !Number.isFinite(Date.parse(value))) {
+    out.push({ path, message: "Ожидается дата и время" });
+  }
+  if (node.format === "email" && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+    out.push({ path, message: "Некорректный адрес электронной почты" });
+  }
+}
+
+function validateNumber(node: NumberNode, value: unknown, path: string, out: ValidationIssue[]): void {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    out.push({ path, message: "Ожидается число" });
+    return;
+  }
+  if (node.integer && !Number.isInteger(value)) {
+    out.push({ path, message: "Ожидается целое число" });
+  }
+  if (node.min !== undefined && value < node.min) {
+    out.push({ path, message: `Значение не меньше ${node.min}` });
+  }
+  if (node.max !== undefined && value > node.max) {
+    out.push({ path, message: `Значение не больше ${node.max}` });
+  }
+}
+
+function validateNode(node: SchemaNode, value: unknown, path: string, out: ValidationIssue[]): void {
+  if (value === null && node.nullable) {
+    return;
+  }
+  if (value === undefined || value === null) {
+    if (!node.optional) {
+      out.push({ path: path || "$", message: "Обязательное поле" });
+    }
+    return;
+  }
+
+  if (node.kind === "string") {
+    validateString(node, value, path || "$", out);
+    return;
+  }
+
+  if (node.kind === "number") {
+    validateNumber(node, value, path || "$", out);
+    return;
+  }
+
+  if (node.kind === "boolean") {
+    if (typeof value !== "boolean") {
+      out.push({ path: path || "$", message: "Ожидается логическое значение" });
+    }
+    return;
+  }
+
+  if (node.kind === "array") {
+    if (!Array.isArray(value)) {
+      out.push({ path: path || "$", message: "Ожидается список" });
+      return;
+    }
+    if (node.maxItems !== undefined && value.length > node.maxItems) {
+      out.push({ path: path || "$", message: `Не больше ${node.maxItems} элементов` });
+    }
+
+    const seen = new Set<string>();
+    value.forEach((item, index) => {
+      const itemPath = joinPath(path, index);
+      validateNode(node.items, item, itemPath, out);
+
+      if (node.uniqueBy && isPlainObject(item) && typeof item[node.uniqueBy] === "string") {
+        const key = String(item[node.uniqueBy]);
+        if (seen.has(key)) {
+          out.push({ path: joinPath(itemPath, node.uniqueBy), message: `Значение «${key}» уже используется` });
+        }
+        seen.add(key);
+      }
+    });
+    return;
+  }
+
+  if (!isPlainObject(value)) {
+    out.push({ path: path || "$", message: "Ожидается объект" });
+    return;
+  }
+
+  // Unknown keys are tolerated so older content with extra fields still loads.
+  for (const [key, child] of Object.entries(node.properties)) {
+    validateNode(child, value[key], joinPath(path, key), out);
+  }
+}
+
+function validate(node: SchemaNode, value: unknown): ValidationIssue[] {
+  const out: ValidationIssue[] = [];
+  validateNode(node, value, "", out);
+  return out;
+}
+
+// JSON Schema (2020-12, as used by OpenAPI 3.1) for the same node, so documentation is derived
+// from the rules that validation enforces. `uniqueBy` has no JSON Schema keyword and is
+// published as the `x-unique-by` extension; `minLength` is checked on the trimmed value.
+function toJsonSchema(node: SchemaNode): Record<string, unknown> {
+  const schema: Record<string, unknown> = {};
+  if (node.description) {
+    schema.description = node.description;
+  }
+
+  if (node.kind === "string") {
+    if (node.minLength !== undefined) {
+      schema.minLength = node.minLength;
+    }
+    if (node.maxLength !== undefined) {
+      schema.maxLength = node.maxLength;
+    }
+    if (node.enum) {
+      schema.enum = [...node.enum];
+    }
+    if (node.pattern) {
+      schema.pattern = node.pattern.source;
+    }
+    if (node.format) {
+      schema.format = node.format;
+    }
+    if (node.allowEmpty && (node.format || node.pattern || node.minLength)) {
+      return { anyOf: [{ type: node.nullable ? ["string", "null"] : "string", ...schema }, { const: "" }] };
+    }
+  } else if (node.kind === "number") {
+    if (node.min !== undefined) {
+      schema.minimum = node.min;
+    }
+    if (node.max !== undefined) {
+      schema.maximum = node.max;
+    }
+  } else if (node.kind === "array") {
+    schema.items = toJsonSchema(node.items);
+    if (node.maxItems !== undefined) {
+      schema.maxItems = node.maxItems;
+    }
+    if (node.uniqueBy) {
+      schema["x-unique-by"] = node.uniqueBy;
+    }
+  } else if (node.kind === "object") {
+    schema.properties = Object.fromEntries(Object.entries(node.properties).map(([key, child]) => [key, toJsonSchema(child)]));
+    const required = Object.entries(node.properties)
+      .filter(([, child]) => !child.optional)
+      .map(([key]) => key);
+    if (required.length) {
+      schema.required = required;
+    }
+  }
+
+  const type = node.kind === "number" && node.integer ? "integer" : node.kind;
+  return { type: node.nullable ? [type, "null"] : type, ...schema };
+}
+
+module.exports = {
+  string,
+  number,
+  boolean,
+  array,
+  object,
+  optional,
+  partial,
+  validate,
+  toJsonSchema
+};
@@ -0,0 +1,245 @@
+const crypto = require("node:crypto") as typeof import("node:crypto");
+const session = require("express-session") as typeof import("express-session");
+const { getDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+};
+
+type StoreCallback = (error?: unknown, value?: unknown) => void;
+
+interface SessionData {
+  cookie?: { expires?: string | Date | null; maxAge?: number | null; originalMaxAge?: number | null };
+  userId?: number;
+  client?: { ip?: string; userAgent?: string; lastSeenAt?: string };
+  [key: string]: unknown;
+}
+
+interface ActiveSession {
+  handle: string;
+  userId: number | null;
+  ip: string;
+  userAgent: string;
+  device: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 15 * 60 * 1000;
+
+function toSessionHandle(sid: string): string {
+  return crypto.createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+function resolveExpiry(data: SessionData): number {
+  const expires = data.cookie?.expires ? new Date(data.cookie.expires).getTime() : NaN;
+  if (Number.isFinite(expires)) {
+    return expires;
+  }
+  const maxAge = Number(data.cookie?.originalMaxAge || data.cookie?.maxAge || 0);
+  return Date.now() + (maxAge > 0 ? maxAge : DEFAULT_TTL_MS);
+}
+
+// Good enough for "Chrome on Windows"; the raw string is kept for anything more specific.
+function describeUserAgent(userAgent: string): string {
+  const ua = String(userAgent || "");
+  if (!ua) {
+    return "Неизвестное устройство";
+  }
+
+  const browsers: Array<[RegExp, string]> = [
+    [/Edg\//, "Edge"],
+    [/OPR\/|Opera/, "Opera"],
+    [/YaBrowser\//, "Яндекс Браузер"],
+    [/Firefox\//, "Firefox"],
+    [/Chrome\//, "Chrome"],
+    [/Safari\//, "Safari"],
+    [/curl\//, "curl"]
+  ];
+  const systems: Array<[RegExp, string]> = [
+    [/Android/, "Android"],
+    [/iPhone|iPad|iPod/, "iOS"],
+    [/Windows/, "Windows"],
+    [/Mac OS X|Macintosh/, "macOS"],
+    [/Linux/, "Linux"]
+  ];
+  const browser = browsers.find(([pattern]) => pattern.test(ua))?.[1] || "Браузер";
+  const system = systems.find(([pattern]) => pattern.test(ua))?.[1];
+  return system ? `${browser}, ${system}` : browser;
+}
+
+// express-session store on the shared SQLite connection, so sessions survive restarts and deploys.
+class SqliteSessionStore extends session.Store {
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  get(sid: string, callback: StoreCallback): void {
+    try {
+      const db = getDatabase();
+      const row = db.prepare("SELECT data, expires_at FROM sessions WHERE sid = ? LIMIT 1").get(sid) as
+        | { data: string; expires_at: number }
+        | undefined;
+
+      if (!row) {
+        callback(null, null);
+        return;
+      }
+      if (Number(row.expires_at) <= Date.now()) {
+        db.prepare("DELETE FROM sessions WHERE sid = ?").run(sid);
+        callback(null, null);
+        return;
+      }
+      callback(null, JSON.parse(row.data));
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, data: SessionData, callback?: StoreCallback): void {
+    try {
+      const db = getDatabase();
+      const now = new Date().toISOString();
+      db.prepare(`
+        INSERT INTO sessions (sid, handle, data, user_id, ip, user_agent, created_at, last_seen_at, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(sid) DO UPDATE SET
+          data = excluded.data,
+          user_id = excluded.user_id,
+          ip = excluded.ip,
+          user_agent = excluded.user_agent,
+          last_seen_at = excluded.last_seen_at,
+          expires_at = excluded.expires_at
+      `).run(
+        sid,
+        toSessionHandle(sid),
+        JSON.stringify(data),
+        data.userId ? Number(data.userId) : null,
+        String(data.client?.ip || ""),
+        String(data.client?.userAgent || "").slice(0, 300),
+        now,
+        String(data.client?.lastSeenAt || now),
+        resolveExpiry(data)
+      );
+      callback?.(null);
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  touch(sid: string, data: SessionData, callback?: StoreCallback): void {
+    try {
+      const db = getDatabase();
+      db.prepare("UPDATE sessions SET expires_at = ? WHERE sid = ?").run(resolveExpiry(data), sid);
+      callback?.(null);
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  destroy(sid: string, callback?: StoreCallback): void {
+    try {
+      const db = getDatabase();
+      db.prepare("DELETE FROM sessions WHERE sid = ?").run(sid);
+      callback?.(null);
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  length(callback: StoreCallback): void {
+    try {
+      const db = getDatabase();
+      const row = db.prepare("SELECT COUNT(*) AS total FROM sessions WHERE expires_at > ?").get(Date.now()) as
+        | { total?: number }
+        | undefined;
+      callback(null, Number(row?.total || 0));
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  clear(callback?: StoreCallback): void {
+    try {
+      getDatabase().exec("DELETE FROM sessions");
+      callback?.(null);
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  startCleanup(): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+    pruneExpiredSessions();
+    this.cleanupTimer = setInterval(pruneExpiredSessions, CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+}
+
+function pruneExpiredSessions(): number {
+  try {
+    const db = getDatabase();
+    const result = db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(Date.now());
+    const removed = Number(result.changes || 0);
+    if (removed) {
+      console.log(`[sessions] removed ${removed} expired sessions`);
+    }
+    return removed;
+  } catch (error) {
+    console.error(`[sessions] cleanup failed: ${error instanceof Error ? error.message : String(error)}`);
+    return 0;
+  }
+}
+
+function listActiveSessions(userId?: number): ActiveSession[] {
+  const db = getDatabase();
+  const where = userId === undefined ? "user_id IS NOT NULL" : "user_id = ?";
+  const params = userId === undefined ? [Date.now()] : [userId, Date.now()];
+  const rows = db
+    .prepare(`
+      SELECT handle, user_id, ip, user_agent, created_at, last_seen_at, expires_at
+      FROM sessions WHERE ${where} AND expires_at > ? ORDER BY last_seen_at DESC
+    `)
+    .all(...params) as Record<string, unknown>[];
+
+  return rows.map((row) => ({
+    handle: String(row.handle || ""),
+    userId: row.user_id === null || row.user_id === undefined ? null : Number(row.user_id),
+    ip: String(row.ip || ""),
+    userAgent: String(row.user_agent || ""),
+    device: describeUserAgent(String(row.user_agent || "")),
+    createdAt: String(row.created_at || ""),
+    lastSeenAt: String(row.last_seen_at || ""),
+    expiresAt: new Date(Number(row.expires_at || 0)).toISOString()
+  }));
+}
+
+function getSessionHandle(sid: string): string {
+  return toSessionHandle(sid);
+}
+
+// With `userId`, only that user's session can be revoked (the "my sessions" list).
+function revokeSession(handle: string, userId?: number): boolean {
+  const db = getDatabase();
+  const result =
+    userId === undefined
+      ? db.prepare("DELETE FROM sessions WHERE handle = ?").run(handle)
+      : db.prepare("DELETE FROM sessions WHERE handle = ? AND user_id = ?").run(handle, userId);
+  return Number(result.changes || 0) > 0;
+}
+
+function revokeUserSessions(userId: number, exceptHandle = ""): number {
+  const db = getDatabase();
+  const result = db.prepare("DELETE FROM sessions WHERE user_id = ? AND handle != ?").run(userId, exceptHandle);
+  return Number(result.changes || 0);
+}
+
+module.exports = {
+  SqliteSessionStore,
+  listActiveSessions,
+  getSessionHandle,
+  revokeSession,
+  revokeUserSessions,
+  pruneExpiredSessions,
+  describeUserAgent
+};
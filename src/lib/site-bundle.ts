@@ -0,0 +1,484 @@
+import type { MediaItem, SiteData } from "../types/content";
+
+const crypto = require("node:crypto") as typeof import("node:crypto");
+const fs = require("node:fs/promises") as typeof import("node:fs/promises");
+const path = require("node:path") as typeof import("node:path");
+const zlib = require("node:zlib") as typeof import("node:zlib");
+const { loadSite, loadMedia, saveStoresAtomically } = require("./content-store") as {
+  loadSite: () => Promise<SiteData>;
+  loadMedia: () => Promise<MediaItem[]>;
+  saveStoresAtomically: (
+    entries: Array<{ key: "site" | "media" | "site:draft" | "media:draft"; value: unknown }>,
+    options?: { author?: string; summary?: string }
+  ) => Promise<number[]>;
+};
+const { validateSiteData, validateMediaList } = require("./content-schema") as {
+  validateSiteData: (value: unknown) => ValidationIssue[];
+  validateMediaList: (value: unknown) => ValidationIssue[];
+};
+const { detectMediaExtension, sanitizeMediaFile } = require("./media-sanitize") as {
+  detectMediaExtension: (head: Buffer) => string | null;
+  sanitizeMediaFile: (filePath: string, declaredMime?: string, options?: { allowRenditions?: boolean }) => Promise<unknown>;
+};
+const { diffJson } = require("./json-diff") as {
+  diffJson: (before: unknown, after: unknown, limit?: number) => Array<{ path: string; before: unknown; after: unknown }>;
+};
+
+const mediaRoot = path.join(process.cwd(), "public", "media");
+const MEDIA_DIRS = ["source", "optimized"] as const;
+// Only what the media pipeline itself writes; anything else (html, svg, js) would be served from the site's origin.
+const MEDIA_FILE_EXTENSIONS = new Set(["jpg", "png", "gif", "webp", "avif", "mp4", "mov", "webm"]);
+// MP4 and MOV share the ISO BMFF container and are told apart only by brand, which encoders set loosely.
+const MEDIA_EXTENSION_FAMILY: Record<string, string> = { mov: "mp4" };
+
+const BUNDLE_FORMAT = "white-lab-site-bundle";
+const BUNDLE_FORMAT_VERSION = 1;
+const BUNDLE_MAX_BYTES = Math.max(1, Number(process.env.BUNDLE_MAX_MB || 1024)) * 1024 * 1024;
+
+const TAR_BLOCK = 512;
+
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+interface BundleFileEntry {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+interface BundleManifest {
+  format: string;
+  formatVersion: number;
+  createdAt: string;
+  siteName: string;
+  mediaCount: number;
+  files: BundleFileEntry[];
+}
+
+interface SiteBundle {
+  manifest: BundleManifest;
+  site: SiteData;
+  media: MediaItem[];
+  // Keyed by archive path, e.g. "media/optimized/01-instagram-470697377c.webp".
+  mediaFiles: Map<string, Buffer>;
+}
+
+interface BundlePreview {
+  createdAt: string;
+  siteName: string;
+  site: { changed: boolean; changedFields: string[] };
+  media: { added: string[]; removed: string[]; changed: string[]; total: number };
+  files: { added: number; replaced: number; removed: number; unchanged: number; totalBytes: number };
+  warnings: string[];
+}
+
+class BundleError extends Error {
+  code: string;
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = "BundleError";
+    this.code = "invalid_bundle";
+    this.issues = issues;
+  }
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function isMediaFilePath(name: string): boolean {
+  const segments = name.split("/");
+  return (
+    segments.length >= 3 &&
+    segments[0] === "media" &&
+    (MEDIA_DIRS as readonly string[]).includes(segments[1]) &&
+    segments.slice(2).every((segment) => segment && segment !== "." && segment !== "..") &&
+    !/[\\\0]/.test(name)
+  );
+}
+
+function assertMediaFileContent(name: string, data: Buffer): void {
+  const ext = path.extname(name).slice(1).toLowerCase();
+  if (!MEDIA_FILE_EXTENSIONS.has(ext)) {
+    throw new BundleError(`Недопустимый тип файла в пакете: ${name}`);
+  }
+  const detected = detectMediaExtension(data.subarray(0, 1024));
+  const family = (value: string) => MEDIA_EXTENSION_FAMILY[value] || value;
+  if (!detected || family(detected) !== family(ext)) {
+    throw new BundleError(`Содержимое файла не совпадает с расширением: ${name}`);
+  }
+}
+
+// Minimal ustar writer/reader: regular files only, which is all a bundle contains.
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function createTarHeader(name: string, size: number, mtime: number): Buffer {
+  let entryName = name;
+  let prefix = "";
+  if (Buffer.byteLength(entryName) > 100) {
+    const split = name.lastIndexOf("/", name.length - 1);
+    prefix = name.slice(0, split);
+    entryName = name.slice(split + 1);
+    if (split <= 0 || Buffer.byteLength(entryName) > 100 || Buffer.byteLength(prefix) > 155) {
+      throw new BundleError(`Слишком длинное имя файла для архива: ${name}`);
+    }
+  }
+
+  const header = Buffer.alloc(TAR_BLOCK);
+  header.write(entryName, 0, 100, "utf8");
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime / 1000), 136, 12);
+  header.write("        ", 148, 8, "ascii");
+  header.write("0", 156, 1, "ascii");
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+  header.write(prefix, 345, 155, "utf8");
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+  return header;
+}
+
+function packTar(entries: Array<{ name: string; data: Buffer }>, mtime: number): Buffer {
+  const chunks: Buffer[] = [];
+  for (const entry of entries) {
+    chunks.push(createTarHeader(entry.name, entry.data.length, mtime), entry.data);
+    const padding = (TAR_BLOCK - (entry.data.length % TAR_BLOCK)) % TAR_BLOCK;
+    if (padding) {
+      chunks.push(Buffer.alloc(padding));
+    }
+  }
+  chunks.push(Buffer.alloc(TAR_BLOCK * 2));
+  return Buffer.concat(chunks);
+}
+
+function readTarString(block: Buffer, offset: number, length: number): string {
+  const raw = block.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end < 0 ? raw.length : end).toString("utf8");
+}
+
+function unpackTar(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+
+  while (offset + TAR_BLOCK <= archive.length) {
+    const header = archive.subarray(offset, offset + TAR_BLOCK);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    let checksum = 0;
+    header.forEach((byte, index) => {
+      checksum += index >= 148 && index < 156 ? 32 : byte;
+    });
+    if (checksum !== parseInt(readTarString(header, 148, 8).trim(), 8)) {
+      throw new BundleError("Архив повреждён: неверная контрольная сумма заголовка");
+    }
+
+    const prefix = readTarString(header, 345, 155);
+    const name = prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100);
+    const size = parseInt(readTarString(header, 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const dataStart = offset + TAR_BLOCK;
+
+    if (!Number.isFinite(size) || size < 0 || dataStart + size > archive.length) {
+      throw new BundleError(`Архив повреждён: неверный размер файла ${name}`);
+    }
+    if (type !== "0" && type !== "5") {
+      throw new BundleError(`Недопустимый тип записи в архиве: ${name}`);
+    }
+    if (type === "0") {
+      if (entries.has(name)) {
+        throw new BundleError(`Файл повторяется в архиве: ${name}`);
+      }
+      entries.set(name, archive.subarray(dataStart, dataStart + size));
+    }
+
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+  }
+
+  return entries;
+}
+
+async function listFilesRecursive(dirPath: string, prefix: string): Promise<string[]> {
+  let dirents: import("node:fs").Dirent[] = [];
+  try {
+    dirents = await fs.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const nested = await Promise.all(
+    dirents.map(async (dirent) => {
+      const relative = `${prefix}/${dirent.name}`;
+      if (dirent.isDirectory()) {
+        return listFilesRecursive(path.join(dirPath, dirent.name), relative);
+      }
+      return dirent.isFile() ? [relative] : [];
+    })
+  );
+  return nested.flat().sort();
+}
+
+async function listCurrentMediaFiles(): Promise<string[]> {
+  const lists = await Promise.all(MEDIA_DIRS.map((dir) => listFilesRecursive(path.join(mediaRoot, dir), `media/${dir}`)));
+  return lists.flat();
+}
+
+function toDiskPath(archivePath: string, root = mediaRoot): string {
+  return path.join(root, ...archivePath.split("/").slice(1));
+}
+
+function toJsonBuffer(value: unknown): Buffer {
+  return Buffer.from(`${JSON.stringify(value, null, 2)}\n`, "utf8");
+}
+
+// Packs the published site, the media index and all media files into one .tar.gz.
+async function createSiteBundle(): Promise<{ archive: Buffer; manifest: BundleManifest }> {
+  const [site, media, mediaPaths] = await Promise.all([loadSite(), loadMedia(), listCurrentMediaFiles()]);
+  const entries: Array<{ name: string; data: Buffer }> = [
+    { name: "site.json", data: toJsonBuffer(site) },
+    { name: "media.json", data: toJsonBuffer(media) }
+  ];
+
+  // Stray files of other types would make the bundle fail its own import check, so they stay behind.
+  for (const mediaPath of mediaPaths.filter((name) => MEDIA_FILE_EXTENSIONS.has(path.extname(name).slice(1).toLowerCase()))) {
+    entries.push({ name: mediaPath, data: await fs.readFile(toDiskPath(mediaPath)) });
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    siteName: String(site.brand?.name || ""),
+    mediaCount: media.length,
+    files: entries.map((entry) => ({ path: entry.name, size: entry.data.length, sha256: sha256(entry.data) }))
+  };
+
+  const tar = packTar([{ name: "manifest.json", data: toJsonBuffer(manifest) }, ...entries], Date.now());
+  return { archive: zlib.gzipSync(tar), manifest };
+}
+
+function parseJsonEntry<T>(files: Map<string, Buffer>, name: string): T {
+  const data = files.get(name);
+  if (!data) {
+    throw new BundleError(`В архиве нет ${name}`);
+  }
+  try {
+    return JSON.parse(data.toString("utf8")) as T;
+  } catch {
+    throw new BundleError(`${name} в архиве содержит некорректный JSON`);
+  }
+}
+
+function assertValid(fileName: string, issues: ValidationIssue[]): void {
+  if (issues.length) {
+    const first = issues[0];
+    throw new BundleError(`${fileName}: ошибка в поле ${first.path}: ${first.message}`, issues);
+  }
+}
+
+// Verifies the archive completely (manifest, checksums, paths, content schema) without touching the site.
+function readSiteBundle(archive: Buffer): SiteBundle {
+  if (archive.length > BUNDLE_MAX_BYTES) {
+    throw new BundleError("Архив превышает допустимый размер");
+  }
+
+  let tar: Buffer;
+  try {
+    tar = zlib.gunzipSync(archive, { maxOutputLength: BUNDLE_MAX_BYTES * 2 });
+  } catch {
+    throw new BundleError("Файл не является архивом .tar.gz или превышает допустимый размер");
+  }
+
+  const files = unpackTar(tar);
+  const manifest = parseJsonEntry<BundleManifest>(files, "manifest.json");
+  if (manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.files)) {
+    throw new BundleError("Архив не является пакетом сайта White Lab");
+  }
+  if (Number(manifest.formatVersion) > BUNDLE_FORMAT_VERSION) {
+    throw new BundleError(`Пакет создан более новой версией (формат ${manifest.formatVersion}), обновите приложение`);
+  }
+
+  const listed = new Set<string>();
+  for (const entry of manifest.files) {
+    const name = String(entry.path || "");
+    if (name !== "site.json" && name !== "media.json" && !isMediaFilePath(name)) {
+      throw new BundleError(`Недопустимый путь в манифесте: ${name}`);
+    }
+    const data = files.get(name);
+    if (!data) {
+      throw new BundleError(`Файл из манифеста отсутствует в архиве: ${name}`);
+    }
+    if (data.length !== Number(entry.size) || sha256(data) !== entry.sha256) {
+      throw new BundleError(`Контрольная сумма не совпадает: ${name}`);
+    }
+    if (isMediaFilePath(name)) {
+      assertMediaFileContent(name, data);
+    }
+    listed.add(name);
+  }
+
+  for (const name of files.keys()) {
+    if (name !== "manifest.json" && !listed.has(name)) {
+      throw new BundleError(`Файл отсутствует в манифесте: ${name}`);
+    }
+  }
+
+  const site = parseJsonEntry<SiteData>(files, "site.json");
+  const media = parseJsonEntry<MediaItem[]>(files, "media.json");
+  assertValid("site.json", validateSiteData(site));
+  assertValid("media.json", validateMediaList(media));
+
+  const mediaFiles = new Map<string, Buffer>();
+  for (const [name, data] of files) {
+    if (isMediaFilePath(name)) {
+      mediaFiles.set(name, data);
+    }
+  }
+
+  return { manifest, site, media, mediaFiles };
+}
+
+async function hashFileOrEmpty(filePath: string): Promise<string> {
+  try {
+    return sha256(await fs.readFile(filePath));
+  } catch {
+    return "";
+  }
+}
+
+async function previewSiteBundle(bundle: SiteBundle): Promise<BundlePreview> {
+  const [site, media, currentPaths] = await Promise.all([loadSite(), loadMedia(), listCurrentMediaFiles()]);
+  const currentById = new Map(media.map((item) => [item.id, item]));
+  const bundleIds = new Set(bundle.media.map((item) => item.id));
+
+  const files = { added: 0, replaced: 0, removed: 0, unchanged: 0, totalBytes: 0 };
+  for (const [name, data] of bundle.mediaFiles) {
+    files.totalBytes += data.length;
+    const currentHash = await hashFileOrEmpty(toDiskPath(name));
+    if (!currentHash) {
+      files.added += 1;
+    } else if (currentHash === sha256(data)) {
+      files.unchanged += 1;
+    } else {
+      files.replaced += 1;
+    }
+  }
+  files.removed = currentPaths.filter((name) => !bundle.mediaFiles.has(name)).length;
+
+  const warnings: string[] = [];
+  for (const item of bundle.media) {
+    for (const url of [item.localOriginal, item.localOptimized, ...(item.renditions || []).map((rendition) => rendition.src)]) {
+      if (url && !bundle.mediaFiles.has(url.replace(/^\//, ""))) {
+        warnings.push(`Медиа ${item.id}: файл ${url} отсутствует в пакете`);
+      }
+    }
+  }
+
+  const changedFields = diffJson(site, bundle.site, 50).map((entry) => entry.path);
+  return {
+    createdAt: bundle.manifest.createdAt,
+    siteName: bundle.manifest.siteName,
+    site: { changed: changedFields.length > 0, changedFields },
+    media: {
+      added: bundle.media.filter((item) => !currentById.has(item.id)).map((item) => item.id),
+      removed: media.filter((item) => !bundleIds.has(item.id)).map((item) => item.id),
+      changed: bundle.media
+        .filter((item) => currentById.has(item.id) && JSON.stringify(currentById.get(item.id)) !== JSON.stringify(item))
+        .map((item) => item.id),
+      total: bundle.media.length
+    },
+    files,
+    warnings: warnings.slice(0, 50)
+  };
+}
+
+// Media directories are swapped by rename and content is written in a single transaction;
+// if anything fails, the previous directories are put back and the database is untouched.
+async function applySiteBundle(bundle: SiteBundle, options: { author?: string } = {}): Promise<BundlePreview> {
+  const preview = await previewSiteBundle(bundle);
+  const token = crypto.randomBytes(6).toString("hex");
+  const stagingDir = path.join(mediaRoot, `.bundle-${token}`);
+  const backupDir = path.join(mediaRoot, `.bundle-${token}-previous`);
+  const movedAside: string[] = [];
+  const installed: string[] = [];
+
+  try {
+    for (const dir of MEDIA_DIRS) {
+      await fs.mkdir(path.join(stagingDir, dir), { recursive: true });
+    }
+    for (const [name, data] of bundle.mediaFiles) {
+      const target = toDiskPath(name, stagingDir);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data);
+      // Same cleanup as uploads and URL imports: a bundle must not bring in location metadata or hidden documents.
+      try {
+        await sanitizeMediaFile(target, "", { allowRenditions: true });
+      } catch (error) {
+        throw new BundleError(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    await fs.mkdir(backupDir, { recursive: true });
+    for (const dir of MEDIA_DIRS) {
+      try {
+        await fs.rename(path.join(mediaRoot, dir), path.join(backupDir, dir));
+        movedAside.push(dir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+      await fs.rename(path.join(stagingDir, dir), path.join(mediaRoot, dir));
+      installed.push(dir);
+    }
+
+    // Drafts are reset as well, so publishing an older draft cannot bring back replaced content.
+    await saveStoresAtomically(
+      [
+        { key: "site", value: bundle.site },
+        { key: "media", value: bundle.media },
+        { key: "site:draft", value: bundle.site },
+        { key: "media:draft", value: bundle.media }
+      ],
+      { author: options.author, summary: `Импорт пакета сайта от ${bundle.manifest.createdAt}` }
+    );
+  } catch (error) {
+    for (const dir of installed) {
+      await fs.rm(path.join(mediaRoot, dir), { recursive: true, force: true });
+    }
+    for (const dir of movedAside) {
+      await fs.rename(path.join(backupDir, dir), path.join(mediaRoot, dir));
+    }
+    await fs.rm(stagingDir, { recursive: true, force: true });
+    await fs.rm(backupDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  await fs.rm(stagingDir, { recursive: true, force: true });
+  await fs.rm(backupDir, { recursive: true, force: true });
+  return preview;
+}
+
+module.exports = {
+  BUNDLE_MAX_BYTES,
+  BundleError,
+  createSiteBundle,
+  readSiteBundle,
+  previewSiteBundle,
+  applySiteBundle
+};
@@ -0,0 +1,124 @@
+const crypto = require("node:crypto") as typeof import("node:crypto");
+const qrcode = require("qrcode-generator") as (
+  typeNumber: number,
+  errorCorrectionLevel: "L" | "M" | "Q" | "H"
+) => {
+  addData: (data: string) => void;
+  make: () => void;
+  createSvgTag: (options: { cellSize?: number; margin?: number; scalable?: boolean; alt?: string }) => string;
+};
+
+// RFC 6238 with the parameters every authenticator app supports: SHA-1, 6 digits, 30-second steps.
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Accept the previous and next step to tolerate clock drift on the phone.
+const TOTP_WINDOW = 1;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = String(input || "").toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Некорректный секрет TOTP");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+function hotp(secret: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac("sha1", secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return String(code).padStart(TOTP_DIGITS, "0");
+}
+
+function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+}
+
+// Returns the matched time step, or null. Steps at or before `lastUsedStep` are rejected,
+// so a code that was already used (or an older one) cannot be replayed.
+function verifyTotp(secret: string, code: string, lastUsedStep = -1, now = Date.now()): number | null {
+  const normalized = String(code || "").replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = currentTotpStep(now);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step += 1) {
+    if (step <= lastUsedStep) {
+      continue;
+    }
+    const expected = Buffer.from(hotp(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function buildOtpauthUrl(issuer: string, accountName: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  // encodeURIComponent rather than URLSearchParams: some apps show "+" literally instead of a space.
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    "algorithm=SHA1",
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_STEP_SECONDS}`
+  ];
+  return `otpauth://totp/${label}?${params.join("&")}`;
+}
+
+// Rendered on the server so the secret never goes to a third-party QR service.
+function renderQrSvg(text: string): string {
+  const qr = qrcode(0, "M");
+  qr.addData(text);
+  qr.make();
+  return qr.createSvgTag({ cellSize: 5, margin: 4, scalable: true, alt: "QR-код для приложения-аутентификатора" });
+}
+
+module.exports = {
+  generateTotpSecret,
+  verifyTotp,
+  currentTotpStep,
+  buildOtpauthUrl,
+  renderQrSvg
+};
@@ -0,0 +1,333 @@
+const crypto = require("node:crypto") as typeof import("node:crypto");
+const { getDatabase } = require("./sqlite-db") as {
+  getDatabase: () => import("node:sqlite").DatabaseSync;
+};
+
+type WebhookEvent = "site.updated" | "services.updated" | "media.created" | "media.deleted" | "media_job.failed" | "ping";
+type WebhookDeliveryStatus = "pending" | "processing" | "delivered" | "failed";
+
+interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: string;
+  createdBy: string;
+}
+
+interface CreateWebhookInput {
+  name: string;
+  url: string;
+  events: string[];
+  createdBy: string;
+}
+
+interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  webhookName: string;
+  url: string;
+  secret: string;
+  event: WebhookEvent;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string;
+  lastStatusCode: number;
+  lastError: string;
+  responseExcerpt: string;
+  createdAt: string;
+  deliveredAt: string;
+}
+
+// `ping` is sent only by the "test" button and cannot be subscribed to.
+const WEBHOOK_EVENTS: WebhookEvent[] = ["site.updated", "services.updated", "media.created", "media.deleted", "media_job.failed"];
+const SECRET_PREFIX = "whsec_";
+// Delay before each retry; after the last one the delivery is marked failed.
+const RETRY_DELAYS_SECONDS = [30, 120, 600, 1800, 7200, 21600];
+const MAX_ATTEMPTS = RETRY_DELAYS_SECONDS.length + 1;
+const DELIVERY_COLUMNS = `
+  d.id, d.webhook_id, w.name AS webhook_name, w.url, w.secret, d.event, d.payload, d.status, d.attempts,
+  d.next_attempt_at, d.last_attempt_at, d.last_status_code, d.last_error, d.response_excerpt, d.created_at, d.delivered_at
+`;
+
+function parseEvents(raw: string): WebhookEvent[] {
+  try {
+    const events = JSON.parse(raw || "[]") as unknown;
+    return Array.isArray(events) ? events.filter((event): event is WebhookEvent => WEBHOOK_EVENTS.includes(event)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalizeWebhookRow(row: Record<string, unknown>): Webhook {
+  return {
+    id: Number(row.id || 0),
+    name: String(row.name || ""),
+    url: String(row.url || ""),
+    secret: String(row.secret || ""),
+    events: parseEvents(String(row.events || "[]")),
+    enabled: Number(row.enabled || 0) === 1,
+    createdAt: String(row.created_at || ""),
+    createdBy: String(row.created_by || "")
+  };
+}
+
+function normalizeDeliveryRow(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: Number(row.id || 0),
+    webhookId: Number(row.webhook_id || 0),
+    webhookName: String(row.webhook_name || ""),
+    url: String(row.url || ""),
+    secret: String(row.secret || ""),
+    event: String(row.event || "") as WebhookEvent,
+    payload: String(row.payload || "{}"),
+    status: String(row.status || "pending") as WebhookDeliveryStatus,
+    attempts: Number(row.attempts || 0),
+    nextAttemptAt: String(row.next_attempt_at || ""),
+    lastAttemptAt: String(row.last_attempt_at || ""),
+    lastStatusCode: Number(row.last_status_code || 0),
+    lastError: String(row.last_error || ""),
+    responseExcerpt: String(row.response_excerpt || ""),
+    createdAt: String(row.created_at || ""),
+    deliveredAt: String(row.delivered_at || "")
+  };
+}
+
+function validateWebhookUrl(rawUrl: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(rawUrl);
+  } catch {
+    throw new Error("Некорректный адрес вебхука");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Адрес вебхука должен начинаться с http:// или https://");
+  }
+  if (parsed.username || parsed.password) {
+    throw new Error("Адрес вебхука не должен содержать логин и пароль");
+  }
+  return parsed.toString();
+}
+
+// The secret is returned with the record: the receiver needs it to check signatures.
+function createWebhook(input: CreateWebhookInput): Webhook {
+  const name = String(input.name || "").trim();
+  if (!name || name.length > 80) {
+    throw new Error("Название вебхука: от 1 до 80 символов");
+  }
+  const url = validateWebhookUrl(String(input.url || "").trim());
+  const events = [...new Set(input.events)].filter((event): event is WebhookEvent => WEBHOOK_EVENTS.includes(event as WebhookEvent));
+  if (!events.length) {
+    throw new Error("Выберите хотя бы одно событие");
+  }
+
+  const result = getDatabase()
+    .prepare(`
+      INSERT INTO webhooks (name, url, secret, events, enabled, created_at, created_by)
+      VALUES (?, ?, ?, ?, 1, ?, ?)
+    `)
+    .run(name, url, `${SECRET_PREFIX}${crypto.randomBytes(24).toString("base64url")}`, JSON.stringify(events), new Date().toISOString(), input.createdBy);
+
+  return getWebhook(Number(result.lastInsertRowid)) as Webhook;
+}
+
+function getWebhook(id: number): Webhook | null {
+  const row = getDatabase().prepare("SELECT * FROM webhooks WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+  return row ? normalizeWebhookRow(row) : null;
+}
+
+function listWebhooks(): Webhook[] {
+  const rows = getDatabase().prepare("SELECT * FROM webhooks ORDER BY id DESC").all() as Record<string, unknown>[];
+  return rows.map(normalizeWebhookRow);
+}
+
+function setWebhookEnabled(id: number, enabled: boolean): boolean {
+  const result = getDatabase().prepare("UPDATE webhooks SET enabled = ? WHERE id = ?").run(enabled ? 1 : 0, id);
+  return Number(result.changes || 0) > 0;
+}
+
+// node:sqlite enforces foreign keys, so ON DELETE CASCADE would drop the delivery log as well; it is
+// removed explicitly, as for users, so the delete does not depend on the foreign_keys pragma.
+function deleteWebhook(id: number): boolean {
+  const db = getDatabase();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    db.prepare("DELETE FROM webhook_deliveries WHERE webhook_id = ?").run(id);
+    const result = db.prepare("DELETE FROM webhooks WHERE id = ?").run(id);
+    db.exec("COMMIT");
+    return Number(result.changes || 0) > 0;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+function insertDelivery(webhookId: number, event: WebhookEvent, payload: string, now: string): number {
+  const result = getDatabase()
+    .prepare(`
+      INSERT INTO webhook_deliveries (webhook_id, event, payload, status, attempts, next_attempt_at, created_at)
+      VALUES (?, ?, ?, 'pending', 0, ?, ?)
+    `)
+    .run(webhookId, event, payload, now, now);
+  return Number(result.lastInsertRowid || 0);
+}
+
+function buildPayload(event: WebhookEvent, data: unknown, now: string): string {
+  return JSON.stringify({ id: `evt_${crypto.randomUUID()}`, event, createdAt: now, data });
+}
+
+// Queues one delivery per enabled subscription to the event. All subscribers get the same
+// event id, so a receiver that is subscribed twice can tell duplicates apart.
+function enqueueWebhookEvent(event: WebhookEvent, data: unknown): number {
+  const subscribers = listWebhooks().filter((webhook) => webhook.enabled && webhook.events.includes(event));
+  if (!subscribers.length) {
+    return 0;
+  }
+
+  const now = new Date().toISOString();
+  const payload = buildPayload(event, data, now);
+  for (const webhook of subscribers) {
+    insertDelivery(webhook.id, event, payload, now);
+  }
+  return subscribers.length;
+}
+
+function enqueueWebhookPing(webhookId: number, requestedBy: string): number {
+  const now = new Date().toISOString();
+  return insertDelivery(webhookId, "ping", buildPayload("ping", { webhookId, requestedBy }, now), now);
+}
+
+// Claims the oldest due delivery of an enabled webhook; deliveries of a paused webhook wait.
+function claimDueWebhookDelivery(): WebhookDelivery | null {
+  const db = getDatabase();
+  const now = new Date().toISOString();
+  let row: Record<string, unknown> | undefined;
+
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    row = db
+      .prepare(`
+        SELECT ${DELIVERY_COLUMNS}
+        FROM webhook_deliveries d
+        JOIN webhooks w ON w.id = d.webhook_id
+        WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.enabled = 1
+        ORDER BY d.next_attempt_at ASC, d.id ASC
+        LIMIT 1
+      `)
+      .get(now) as Record<string, unknown> | undefined;
+
+    if (!row) {
+      db.exec("COMMIT");
+      return null;
+    }
+
+    db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'processing', attempts = attempts + 1, last_attempt_at = ?
+      WHERE id = ?
+    `).run(now, Number(row.id));
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+
+  return normalizeDeliveryRow({ ...row, status: "processing", attempts: Number(row.attempts || 0) + 1, last_attempt_at: now });
+}
+
+function markWebhookDelivered(id: number, statusCode: number, responseExcerpt: string): void {
+  getDatabase()
+    .prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'delivered', delivered_at = ?, last_status_code = ?, last_error = NULL, response_excerpt = ?
+      WHERE id = ?
+    `)
+    .run(new Date().toISOString(), statusCode, responseExcerpt, id);
+}
+
+// Schedules the next attempt after a failure, or gives up once the retries are used.
+// Returns the time of the next attempt, or "" when the delivery is now failed.
+function markWebhookAttemptFailed(id: number, attempts: number, errorMessage: string, statusCode = 0, responseExcerpt = ""): string {
+  const delaySeconds = RETRY_DELAYS_SECONDS[attempts - 1];
+  const nextAttemptAt = attempts < MAX_ATTEMPTS && delaySeconds !== undefined ? new Date(Date.now() + delaySeconds * 1000).toISOString() : "";
+  getDatabase()
+    .prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, next_attempt_at = COALESCE(?, next_attempt_at), last_status_code = ?, last_error = ?, response_excerpt = ?
+      WHERE id = ?
+    `)
+    .run(
+      nextAttemptAt ? "pending" : "failed",
+      nextAttemptAt || null,
+      statusCode || null,
+      errorMessage.slice(0, 2000),
+      responseExcerpt,
+      id
+    );
+  return nextAttemptAt;
+}
+
+// Sends a failed delivery again from scratch, with a full set of retries.
+function retryWebhookDelivery(id: number): boolean {
+  const result = getDatabase()
+    .prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = ?
+      WHERE id = ? AND status = 'failed'
+    `)
+    .run(new Date().toISOString(), id);
+  return Number(result.changes || 0) > 0;
+}
+
+function recycleStalledWebhookDeliveries(stalledMinutes = 10): number {
+  const threshold = new Date(Date.now() - Math.max(1, Math.floor(stalledMinutes)) * 60_000).toISOString();
+  const result = getDatabase()
+    .prepare("UPDATE webhook_deliveries SET status = 'pending' WHERE status = 'processing' AND last_attempt_at < ?")
+    .run(threshold);
+  return Number(result.changes || 0);
+}
+
+function listWebhookDeliveries(limit = 50, webhookId = 0): WebhookDelivery[] {
+  const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(200, Math.floor(limit))) : 50;
+  const rows = getDatabase()
+    .prepare(`
+      SELECT ${DELIVERY_COLUMNS}
+      FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE ? = 0 OR d.webhook_id = ?
+      ORDER BY d.id DESC
+      LIMIT ?
+    `)
+    .all(webhookId, webhookId, safeLimit) as Record<string, unknown>[];
+  return rows.map(normalizeDeliveryRow);
+}
+
+// Stripe-style signature: HMAC-SHA256 over "<unix seconds>.<body>", so a captured request
+// cannot be replayed later with a fresh timestamp.
+function signWebhookPayload(secret: string, payload: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+module.exports = {
+  WEBHOOK_EVENTS,
+  MAX_ATTEMPTS,
+  createWebhook,
+  getWebhook,
+  listWebhooks,
+  setWebhookEnabled,
+  deleteWebhook,
+  enqueueWebhookEvent,
+  enqueueWebhookPing,
+  claimDueWebhookDelivery,
+  markWebhookDelivered,
+  markWebhookAttemptFailed,
+  retryWebhookDelivery,
+  recycleStalledWebhookDeliveries,
+  listWebhookDeliveries,
+  signWebhookPayload
+};
@@ -627,4 +627,248 @@
 
     applyMediaFilter();
   }
+
+  const jobList = document.querySelector("[data-media-job-list]");
+  const jobForms = Array.from(document.querySelectorAll("[data-media-job-form]"));
+  // Forms waiting for the outcome of the job they queued, and the last state seen of each job.
+  const trackedJobs = new Map();
+  const latestJobs = new Map();
+
+  const jobTypeLabel = (type) => (type === "upload_file" ? "Загрузка файла" : "Импорт URL");
+  const jobStatusLabels = {
+    pending: "в очереди",
+    processing: "обрабатывается",
+    done: "готово, медиа добавлено в черновик",
+    failed: "ошибка"
+  };
+
+  const createJobPreview = (media) => {
+    const wrapper = document.createElement("span");
+    wrapper.className = "admin-job-result";
+    const preview = document.createElement(media.type === "video" ? "video" : "img");
+    preview.src = String(media.src || "");
+    if (media.type === "video") {
+      preview.muted = true;
+      preview.preload = "metadata";
+    } else {
+      preview.alt = "";
+    }
+    wrapper.append(preview, document.createTextNode(String(media.title || media.id)));
+    return wrapper;
+  };
+
+  const renderJobRow = (job) => {
+    const row = document.createElement("tr");
+    row.dataset.mediaJobRow = String(job.id);
+
+    const status = document.createElement("span");
+    status.className = `admin-job-status status-${job.status}`;
+    status.textContent = String(job.status);
+
+    const result = document.createElement("td");
+    if (job.media) {
+      result.append(createJobPreview(job.media));
+    } else {
+      result.textContent = job.lastError || "—";
+    }
+
+    const cells = [
+      `#${job.id}`,
+      jobTypeLabel(job.type),
+      status,
+      String(job.attempts),
+      job.createdAt ? new Date(job.createdAt).toLocaleString("ru-RU") : "—"
+    ].map((content) => {
+      const cell = document.createElement("td");
+      cell.append(content);
+      return cell;
+    });
+
+    row.append(...cells, result);
+    return row;
+  };
+
+  const upsertJobRow = (job) => {
+    if (!jobList) {
+      return;
+    }
+    jobList.querySelector("[data-media-job-empty]")?.remove();
+    const row = renderJobRow(job);
+    const existing = jobList.querySelector(`[data-media-job-row="${Number(job.id)}"]`);
+    if (existing) {
+      existing.replaceWith(row);
+      return;
+    }
+    // Newest first, as the server renders it.
+    const newer = Array.from(jobList.querySelectorAll("[data-media-job-row]")).find(
+      (item) => Number(item.dataset.mediaJobRow) < Number(job.id)
+    );
+    jobList.insertBefore(row, newer || null);
+  };
+
+  const showJobProgress = (form, job, message) => {
+    const progress = form.querySelector("[data-media-job-progress]");
+    if (!progress) {
+      return;
+    }
+    progress.hidden = false;
+    progress.replaceChildren();
+    progress.classList.toggle("is-error", Boolean(message) || job?.status === "failed");
+    if (message) {
+      progress.textContent = message;
+      return;
+    }
+
+    const details = job.status === "failed" && job.lastError ? `: ${job.lastError}` : "";
+    progress.append(`Задача #${job.id}: ${jobStatusLabels[job.status] || job.status}${details}`);
+    if (job.status === "done" && job.media) {
+      progress.append(createJobPreview(job.media));
+    }
+  };
+
+  const applyJobUpdate = (job) => {
+    if (!job || !job.id) {
+      return;
+    }
+    latestJobs.set(Number(job.id), job);
+    upsertJobRow(job);
+    const form = trackedJobs.get(Number(job.id));
+    if (form) {
+      showJobProgress(form, job);
+      if (job.status === "done" || job.status === "failed") {
+        trackedJobs.delete(Number(job.id));
+      }
+    }
+  };
+
+  if (jobList && "EventSource" in window) {
+    const liveLabel = document.querySelector("[data-media-job-live]");
+    const stream = new EventSource("/admin/media-jobs/events");
+    const setLive = (text) => {
+      if (liveLabel) {
+        liveLabel.hidden = false;
+        liveLabel.textContent = text;
+      }
+    };
+
+    stream.addEventListener("open", () => setLive("● в реальном времени"));
+    // Connection errors reconnect on their own; an `error` event sent by the server (ended session,
+    // failed snapshot) carries data and is final.
+    stream.addEventListener("error", (event) => {
+      if (!event.data) {
+        setLive("○ переподключение…");
+        return;
+      }
+      stream.close();
+      let message = "Обновления остановлены";
+      try {
+        message = JSON.parse(event.data).message || message;
+      } catch {
+        // no-op
+      }
+      setLive(`○ ${message}`);
+    });
+    // Sent on every (re)connect, so nothing is lost while the connection was down.
+    stream.addEventListener("snapshot", (event) => {
+      try {
+        const jobs = JSON.parse(event.data);
+        if (Array.isArray(jobs)) {
+          jobs.slice().reverse().forEach(applyJobUpdate);
+        }
+      } catch {
+        // no-op
+      }
+    });
+    stream.addEventListener("job", (event) => {
+      try {
+        applyJobUpdate(JSON.parse(event.data));
+      } catch {
+        // no-op
+      }
+    });
+
+    for (const form of jobForms) {
+      form.addEventListener("submit", async (event) => {
+        event.preventDefault();
+        const button = form.querySelector("button[type='submit']");
+        const data = new FormData(form);
+        // The import form is read as urlencoded; only the upload needs multipart.
+        const body = form.enctype === "multipart/form-data" ? data : new URLSearchParams(data);
+        if (button) {
+          button.disabled = true;
+        }
+
+        try {
+          const response = await fetch(form.action, {
+            method: "POST",
+            body,
+            headers: { Accept: "application/json" },
+            credentials: "same-origin"
+          });
+          const payload = await response.json().catch(() => null);
+          if (!response.ok || !payload?.data) {
+            showJobProgress(form, null, payload?.error?.message || `Ошибка ${response.status}`);
+            return;
+          }
+
+          // The worker may have picked the job up before this response arrived.
+          const jobId = Number(payload.data.id);
+          trackedJobs.set(jobId, form);
+          applyJobUpdate(latestJobs.get(jobId) || payload.data);
+          form.reset();
+        } catch {
+          showJobProgress(form, null, "Не удалось отправить форму, проверьте соединение");
+        } finally {
+          if (button) {
+            button.disabled = false;
+          }
+        }
+      });
+    }
+  }
+
+  const fieldIssuesNode = document.querySelector("[data-admin-field-issues]");
+
+  if (fieldIssuesNode) {
+    let fieldIssues = [];
+    try {
+      const parsed = JSON.parse(fieldIssuesNode.textContent || "[]");
+      fieldIssues = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      fieldIssues = [];
+    }
+
+    let firstInvalid = null;
+
+    for (const issue of fieldIssues) {
+      if (!issue || !issue.field) {
+        continue;
+      }
+
+      const inputs = Array.from(document.querySelectorAll(`[name="${String(issue.field)}"]`)).filter(
+        (input) => input.type !== "hidden"
+      );
+      const input = inputs[Number(issue.index) || 0];
+      if (!input) {
+        continue;
+      }
+
+      const details = input.closest("details");
+      if (details) {
+        details.open = true;
+      }
+
+      const message = document.createElement("span");
+      message.className = "admin-field-error";
+      message.textContent = String(issue.message || "Некорректное значение");
+      input.setAttribute("aria-invalid", "true");
+      input.insertAdjacentElement("afterend", message);
+      firstInvalid = firstInvalid || input;
+    }
+
+    if (firstInvalid) {
+      firstInvalid.scrollIntoView({ behavior: "smooth", block: "center" });
+      firstInvalid.focus({ preventScroll: true });
+    }
+  }
 })();
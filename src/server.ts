@@ -1,9 +1,11 @@
-import type { MediaItem, ServiceItem, SiteData } from "./types/content";
+import type { FaqItem, MediaItem, ServiceItem, SiteData } from "./types/content";
 
 const compression = require("compression") as typeof import("compression");
 const express = require("express") as typeof import("express");
 const helmet = require("helmet") as typeof import("helmet");
 const multer = require("multer") as typeof import("multer");
+const crypto = require("node:crypto") as typeof import("node:crypto");
+const { EventEmitter } = require("node:events") as typeof import("node:events");
 const path = require("node:path") as typeof import("node:path");
 const fs = require("node:fs/promises") as typeof import("node:fs/promises");
 const session = require("express-session") as typeof import("express-session");
@@ -15,18 +17,117 @@ interface UploadedFile {
 }
 
 interface SessionLike {
-  isAdmin?: boolean;
+  userId?: number;
+  // Set after a correct password while the second factor is still outstanding.
+  pendingUserId?: number;
+  pendingUntil?: number;
+  totpSetupSecret?: string;
+  csrfToken?: string;
+  client?: { ip: string; userAgent: string; lastSeenAt: string };
+  preview?: boolean;
+  previewUntil?: number;
   destroy: (callback: () => void) => void;
+  regenerate: (callback: (error?: unknown) => void) => void;
+}
+
+type AdminRole = "owner" | "editor" | "media_manager" | "viewer";
+type AdminPermission = "content.view" | "content.edit" | "content.publish" | "media.edit" | "site.manage" | "users.manage";
+
+type LoginThrottleScope = "username" | "ip";
+
+interface LoginThrottleState {
+  scope: LoginThrottleScope;
+  subject: string;
+  failures: number;
+  lockouts: number;
+  lockedUntil: string;
+  updatedAt: string;
+}
+
+interface ActiveSession {
+  handle: string;
+  userId: number | null;
+  ip: string;
+  userAgent: string;
+  device: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+interface ApiToken {
+  id: number;
+  userId: number;
+  name: string;
+  prefix: string;
+  scope: "read" | "write";
+  createdAt: string;
+  createdBy: string;
+  expiresAt: string;
+  lastUsedAt: string;
+  lastUsedIp: string;
+  revokedAt: string;
+}
+
+type WebhookEvent = "site.updated" | "services.updated" | "media.created" | "media.deleted" | "media_job.failed" | "ping";
+
+interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: string;
+  createdBy: string;
+}
+
+interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  webhookName: string;
+  url: string;
+  secret: string;
+  event: WebhookEvent;
+  payload: string;
+  status: "pending" | "processing" | "delivered" | "failed";
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string;
+  lastStatusCode: number;
+  lastError: string;
+  responseExcerpt: string;
+  createdAt: string;
+  deliveredAt: string;
+}
+
+interface AdminUser {
+  id: number;
+  username: string;
+  displayName: string;
+  role: AdminRole;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt: string;
+  totpEnabled: boolean;
 }
 
 interface RequestLike {
   protocol: string;
+  method: string;
   path: string;
+  originalUrl: string;
+  ip?: string;
   params: Record<string, string>;
   query: Record<string, unknown>;
   body: Record<string, unknown>;
   file?: UploadedFile;
   session?: SessionLike;
+  sessionID?: string;
+  adminUser?: AdminUser;
+  // Set instead of a session login when an API route is called with a bearer token.
+  apiToken?: ApiToken;
   get: (header: string) => string | undefined;
 }
 
@@ -35,11 +136,49 @@ interface ResponseLike {
   render: (view: string, data: Record<string, unknown>) => void;
   status: (code: number) => ResponseLike;
   type: (value: string) => ResponseLike;
-  send: (body: string) => void;
+  set: (header: string, value: string) => ResponseLike;
+  json: (body: unknown) => void;
+  send: (body: string | Buffer) => void;
+  end: () => void;
+  download: (filePath: string, fileName: string, callback?: (error?: Error) => void) => void;
+  on: (event: "finish", listener: () => void) => void;
+  statusCode: number;
+  locals: Record<string, unknown>;
 }
 
 type NextLike = (error?: unknown) => void;
 
+interface MediaJob {
+  id: number;
+  jobType: "import_url" | "upload_file";
+  payload: Record<string, unknown>;
+  status: "pending" | "processing" | "done" | "failed";
+  attempts: number;
+  lastError: string;
+  createdAt: string;
+  startedAt: string;
+  finishedAt: string;
+  mediaId: string;
+}
+
+type SchemaNode = Record<string, unknown> & { kind: string; optional?: boolean; properties?: Record<string, SchemaNode> };
+
+interface ApiOperation {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  access: "public" | "session" | AdminPermission;
+  params?: Record<string, SchemaNode>;
+  query?: Record<string, SchemaNode>;
+  body?: SchemaNode;
+  files?: string[];
+  conditional?: "if-match" | "if-none-match";
+  responses: Record<number, { description: string; schema?: SchemaNode }>;
+}
+
 type HomeSectionKey = "services" | "process" | "materials" | "about" | "gallery" | "contacts";
 
 interface SectionBlock {
@@ -105,39 +244,362 @@ interface ViewModel {
   visibleSectionOrder: HomeSectionKey[];
   mediaJobs: unknown[];
   isAdmin: boolean;
+  isPreview: boolean;
+}
+
+type StoreKey = "site" | "media" | "site:draft" | "media:draft";
+
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+interface FieldIssue extends ValidationIssue {
+  field: string;
+  index: number;
+}
+
+interface SaveOptions {
+  author?: string;
+  summary?: string;
+  expectedVersion?: number;
+}
+
+interface ContentRevisionSummary {
+  id: number;
+  key: StoreKey;
+  version: number;
+  author: string;
+  summary: string;
+  createdAt: string;
+  size: number;
+}
+
+interface SiteBundleLike {
+  manifest: { createdAt: string; siteName: string; mediaCount: number };
+}
+
+interface ConsistencyReport {
+  checkedAt: string;
+  entries: Array<{ key: StoreKey; file: string; status: string; message: string }>;
+  removedTempFiles: string[];
 }
 
-const { loadMedia, loadSite, saveMedia, saveSite } = require("./lib/content-store") as {
+const {
+  loadMedia,
+  loadSite,
+  loadDraftSite,
+  saveDraftSite,
+  loadDraftMedia,
+  addDraftMediaItem,
+  updateDraftMediaItem,
+  removeDraftMediaItem,
+  getDraftStatus,
+  publishDrafts,
+  discardDrafts,
+  listQuarantinedFiles,
+  checkContentConsistency,
+  getConsistencyReport,
+  getContentVersion,
+  toEtag,
+  ContentConflictError,
+  listContentRevisions,
+  getContentRevision,
+  getContentRevisionByVersion,
+  restoreContentRevision
+} = require("./lib/content-store") as {
   loadSite: () => Promise<SiteData>;
-  saveSite: (data: SiteData) => Promise<void>;
   loadMedia: () => Promise<MediaItem[]>;
-  saveMedia: (data: MediaItem[]) => Promise<void>;
+  loadDraftSite: () => Promise<SiteData>;
+  saveDraftSite: (data: SiteData, options?: SaveOptions) => Promise<number>;
+  loadDraftMedia: () => Promise<MediaItem[]>;
+  addDraftMediaItem: (item: MediaItem, options?: SaveOptions) => Promise<number>;
+  updateDraftMediaItem: (id: string, patch: Partial<Pick<MediaItem, "title" | "alt">>, options?: SaveOptions) => Promise<number>;
+  removeDraftMediaItem: (id: string, options?: SaveOptions) => Promise<number>;
+  getDraftStatus: () => Promise<{ site: boolean; media: boolean }>;
+  publishDrafts: (options?: SaveOptions) => Promise<{ site: boolean; media: boolean; removedMedia: MediaItem[] }>;
+  discardDrafts: (options?: SaveOptions) => Promise<{ site: boolean; media: boolean }>;
+  listQuarantinedFiles: () => Promise<Array<{ file: string; source: string; quarantinedAt: string; issues: ValidationIssue[] }>>;
+  checkContentConsistency: () => Promise<ConsistencyReport>;
+  getConsistencyReport: () => ConsistencyReport | null;
+  getContentVersion: (key: StoreKey) => number;
+  toEtag: (key: StoreKey, version: number) => string;
+  ContentConflictError: new (key: StoreKey, expectedVersion: number, currentVersion: number) => Error & {
+    key: StoreKey;
+    expectedVersion: number;
+    currentVersion: number;
+  };
+  listContentRevisions: (key?: StoreKey, limit?: number) => ContentRevisionSummary[];
+  getContentRevision: (id: number) => (ContentRevisionSummary & { value: unknown }) | null;
+  getContentRevisionByVersion: (key: StoreKey, version: number) => (ContentRevisionSummary & { value: unknown }) | null;
+  restoreContentRevision: (id: number, options?: SaveOptions) => Promise<ContentRevisionSummary>;
+};
+const { ContentValidationError, serviceItemSchema, faqItemSchema, mediaItemSchema, sectionsSchema } = require("./lib/content-schema") as {
+  ContentValidationError: new (issues: ValidationIssue[]) => Error & { issues: ValidationIssue[] };
+  serviceItemSchema: SchemaNode & { properties: Record<string, SchemaNode> };
+  faqItemSchema: SchemaNode & { properties: Record<string, SchemaNode> };
+  mediaItemSchema: SchemaNode & { properties: Record<string, SchemaNode> };
+  sectionsSchema: SchemaNode & { properties: Record<string, SchemaNode> };
+};
+const t = require("./lib/schema") as {
+  string: (options?: Record<string, unknown>) => SchemaNode;
+  number: (options?: Record<string, unknown>) => SchemaNode;
+  boolean: (options?: Record<string, unknown>) => SchemaNode;
+  array: (items: SchemaNode, options?: Record<string, unknown>) => SchemaNode;
+  object: (properties: Record<string, SchemaNode>, options?: Record<string, unknown>) => SchemaNode & { properties: Record<string, SchemaNode> };
+  optional: (node: SchemaNode) => SchemaNode;
+  partial: (node: SchemaNode, options?: Record<string, unknown>) => SchemaNode & { properties: Record<string, SchemaNode> };
+};
+const { errorSchema, validateApiRequest, buildOpenApiDocument } = require("./lib/api-spec") as {
+  errorSchema: SchemaNode;
+  validateApiRequest: (operation: ApiOperation, request: RequestLike) => ValidationIssue[];
+  buildOpenApiDocument: (
+    operations: ApiOperation[],
+    info: { title: string; version: string; description: string; serverUrl: string }
+  ) => Record<string, unknown>;
+};
+const { diffJson } = require("./lib/json-diff") as {
+  diffJson: (before: unknown, after: unknown, limit?: number) => Array<{ path: string; before: unknown; after: unknown }>;
 };
 const {
   enqueueMediaJob,
   listMediaJobs,
+  countMediaJobs,
+  getMediaJob,
   claimPendingMediaJob,
   markMediaJobDone,
   markMediaJobFailed,
   recycleStalledMediaJobs
 } = require("./lib/media-job-queue") as {
   enqueueMediaJob: (type: "import_url" | "upload_file", payload: Record<string, unknown>) => number;
-  listMediaJobs: (limit?: number) => unknown[];
+  listMediaJobs: (limit?: number, offset?: number) => MediaJob[];
+  countMediaJobs: () => number;
+  getMediaJob: (jobId: number) => MediaJob | null;
   claimPendingMediaJob: () => {
     id: number;
     jobType: "import_url" | "upload_file";
     payload: Record<string, unknown>;
     status: string;
   } | null;
-  markMediaJobDone: (jobId: number) => void;
+  markMediaJobDone: (jobId: number, mediaId?: string) => void;
   markMediaJobFailed: (jobId: number, message: string) => void;
   recycleStalledMediaJobs: (stalledMinutes?: number) => number;
 };
-const { ensureDirs, importRemoteMedia, processUploadedFile } = require("./lib/media-tools") as {
+const { getDatabase } = require("./lib/sqlite-db") as {
+  getDatabase: () => unknown;
+};
+const { MEDIA_UPLOAD_MAX_BYTES, ensureDirs, importRemoteMedia, processUploadedFile } = require("./lib/media-tools") as {
+  MEDIA_UPLOAD_MAX_BYTES: number;
   ensureDirs: () => Promise<void>;
   importRemoteMedia: (url: string, title?: string) => Promise<MediaItem>;
   processUploadedFile: (file: UploadedFile, title?: string) => Promise<MediaItem>;
 };
+const { BUNDLE_MAX_BYTES, createSiteBundle, readSiteBundle, previewSiteBundle, applySiteBundle } =
+  require("./lib/site-bundle") as {
+    BUNDLE_MAX_BYTES: number;
+    createSiteBundle: () => Promise<{ archive: Buffer; manifest: { createdAt: string } }>;
+    readSiteBundle: (archive: Buffer) => SiteBundleLike;
+    previewSiteBundle: (bundle: SiteBundleLike) => Promise<Record<string, unknown>>;
+    applySiteBundle: (bundle: SiteBundleLike, options?: { author?: string }) => Promise<Record<string, unknown>>;
+  };
+const { listBackups, createBackup, restoreBackup, deleteBackup, resolveBackupPath, getBackupSettings, startBackupScheduler } =
+  require("./lib/db-backup") as {
+    listBackups: () => Promise<Array<{ file: string; kind: string; size: number; createdAt: string; keptAs: string[] }>>;
+    createBackup: (kind?: "manual") => Promise<{ file: string }>;
+    restoreBackup: (file: string) => Promise<{ safetyBackup: string; droppedMedia: string[] }>;
+    deleteBackup: (file: string) => Promise<void>;
+    resolveBackupPath: (file: string) => string;
+    getBackupSettings: () => { dir: string; schedule: string; keepDaily: number; keepWeekly: number };
+    startBackupScheduler: () => void;
+  };
+const {
+  ADMIN_ROLES,
+  ROLE_PERMISSIONS,
+  hasPermission,
+  PASSWORD_MIN_LENGTH,
+  countAdminUsers,
+  listAdminUsers,
+  getAdminUser,
+  createAdminUser,
+  updateAdminUser,
+  setAdminUserPassword,
+  deleteAdminUser,
+  verifyAdminUserPassword,
+  authenticateAdminUser,
+  enableAdminUserTotp,
+  disableAdminUserTotp,
+  regenerateRecoveryCodes,
+  countUnusedRecoveryCodes,
+  verifyAdminUserSecondFactor
+} = require("./lib/admin-users") as {
+  ADMIN_ROLES: AdminRole[];
+  ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]>;
+  hasPermission: (role: AdminRole, permission: AdminPermission) => boolean;
+  PASSWORD_MIN_LENGTH: number;
+  countAdminUsers: () => number;
+  listAdminUsers: () => AdminUser[];
+  getAdminUser: (id: number) => AdminUser | null;
+  createAdminUser: (input: { username: string; displayName?: string; password: string; role?: AdminRole }) => Promise<AdminUser>;
+  updateAdminUser: (id: number, patch: { displayName?: string; role?: AdminRole; disabled?: boolean }) => AdminUser;
+  setAdminUserPassword: (id: number, password: string) => Promise<void>;
+  deleteAdminUser: (id: number) => void;
+  verifyAdminUserPassword: (id: number, password: string) => Promise<boolean>;
+  authenticateAdminUser: (username: string, password: string) => Promise<AdminUser | null>;
+  enableAdminUserTotp: (id: number, secret: string, code: string) => string[];
+  disableAdminUserTotp: (id: number) => void;
+  regenerateRecoveryCodes: (id: number) => string[];
+  countUnusedRecoveryCodes: (id: number) => number;
+  verifyAdminUserSecondFactor: (id: number, code: string) => "totp" | "recovery" | null;
+};
+const { generateTotpSecret, buildOtpauthUrl, renderQrSvg } = require("./lib/totp") as {
+  generateTotpSecret: () => string;
+  buildOtpauthUrl: (issuer: string, accountName: string, secret: string) => string;
+  renderQrSvg: (text: string) => string;
+};
+const { recordAuditEvent, listAuditEvents, countAuditEvents } = require("./lib/audit-log") as {
+  recordAuditEvent: (input: {
+    userId?: number | null;
+    actor: string;
+    action: string;
+    target?: string;
+    outcome?: "allowed" | "denied";
+    ip?: string;
+    details?: Record<string, unknown>;
+  }) => void;
+  listAuditEvents: (filters?: { outcome?: "allowed" | "denied"; limit?: number; offset?: number }) => Array<{
+    id: number;
+    createdAt: string;
+    userId: number | null;
+    actor: string;
+    action: string;
+    target: string;
+    outcome: "allowed" | "denied";
+    ip: string;
+    details: Record<string, unknown>;
+  }>;
+  countAuditEvents: (filters?: { outcome?: "allowed" | "denied" }) => number;
+};
+const {
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockLogin,
+  unlockUserLogins,
+  listLockouts,
+  getUsernameLockout,
+  listLoginAttempts,
+  pruneLoginAttempts
+} = require("./lib/login-guard") as {
+  checkLoginAllowed: (username: string, ip: string) => { allowed: boolean; delayMs: number; retryAfterMs: number };
+  recordLoginFailure: (
+    username: string,
+    ip: string,
+    reason: string
+  ) => { lockedUsernameUntil: string | null; lockedIpUntil: string | null };
+  recordLoginSuccess: (username: string, ip: string) => void;
+  unlockLogin: (scope: LoginThrottleScope, subject: string) => boolean;
+  unlockUserLogins: (username: string) => number;
+  listLockouts: () => LoginThrottleState[];
+  getUsernameLockout: (username: string) => LoginThrottleState | null;
+  listLoginAttempts: (options?: { failedOnly?: boolean; limit?: number }) => Array<{
+    id: number;
+    createdAt: string;
+    username: string;
+    ip: string;
+    success: boolean;
+    reason: string;
+  }>;
+  pruneLoginAttempts: () => number;
+};
+const {
+  SqliteSessionStore,
+  listActiveSessions,
+  getSessionHandle,
+  revokeSession,
+  revokeUserSessions
+} = require("./lib/session-store") as {
+  SqliteSessionStore: new () => import("express-session").Store & { startCleanup: () => void };
+  listActiveSessions: (userId?: number) => ActiveSession[];
+  getSessionHandle: (sid: string) => string;
+  revokeSession: (handle: string, userId?: number) => boolean;
+  revokeUserSessions: (userId: number, exceptHandle?: string) => number;
+};
+const { parseCspReportBody, recordCspViolations, listCspReports, countCspReports, clearCspReports } =
+  require("./lib/csp-reports") as {
+    parseCspReportBody: (body: unknown) => unknown[];
+    recordCspViolations: (violations: unknown[], userAgent?: string) => void;
+    listCspReports: (limit?: number) => Array<{
+      id: number;
+      directive: string;
+      blockedUri: string;
+      documentUri: string;
+      sourceFile: string;
+      lineNumber: number | null;
+      sample: string;
+      disposition: string;
+      userAgent: string;
+      hits: number;
+      firstSeenAt: string;
+      lastSeenAt: string;
+    }>;
+    countCspReports: () => number;
+    clearCspReports: () => number;
+  };
+const { API_TOKEN_SCOPES, createApiToken, listApiTokens, revokeApiToken, authenticateApiToken, isApiTokenActive } =
+  require("./lib/api-tokens") as {
+    API_TOKEN_SCOPES: Array<ApiToken["scope"]>;
+    createApiToken: (input: {
+      userId: number;
+      name: string;
+      scope: ApiToken["scope"];
+      expiresAt?: string;
+      createdBy: string;
+    }) => { token: string; record: ApiToken };
+    listApiTokens: () => ApiToken[];
+    revokeApiToken: (id: number) => boolean;
+    authenticateApiToken: (token: string, ip?: string) => ApiToken | null;
+    isApiTokenActive: (token: ApiToken) => boolean;
+  };
+const {
+  WEBHOOK_EVENTS,
+  createWebhook,
+  getWebhook,
+  listWebhooks,
+  setWebhookEnabled,
+  deleteWebhook,
+  enqueueWebhookEvent,
+  enqueueWebhookPing,
+  claimDueWebhookDelivery,
+  markWebhookDelivered,
+  markWebhookAttemptFailed,
+  retryWebhookDelivery,
+  recycleStalledWebhookDeliveries,
+  listWebhookDeliveries,
+  signWebhookPayload
+} = require("./lib/webhooks") as {
+  WEBHOOK_EVENTS: WebhookEvent[];
+  createWebhook: (input: { name: string; url: string; events: string[]; createdBy: string }) => Webhook;
+  getWebhook: (id: number) => Webhook | null;
+  listWebhooks: () => Webhook[];
+  setWebhookEnabled: (id: number, enabled: boolean) => boolean;
+  deleteWebhook: (id: number) => boolean;
+  enqueueWebhookEvent: (event: WebhookEvent, data: unknown) => number;
+  enqueueWebhookPing: (webhookId: number, requestedBy: string) => number;
+  claimDueWebhookDelivery: () => WebhookDelivery | null;
+  markWebhookDelivered: (id: number, statusCode: number, responseExcerpt: string) => void;
+  markWebhookAttemptFailed: (id: number, attempts: number, errorMessage: string, statusCode?: number, responseExcerpt?: string) => string;
+  retryWebhookDelivery: (id: number) => boolean;
+  recycleStalledWebhookDeliveries: (stalledMinutes?: number) => number;
+  listWebhookDeliveries: (limit?: number, webhookId?: number) => WebhookDelivery[];
+  signWebhookPayload: (secret: string, payload: string, timestamp?: number) => string;
+};
+const { postRemoteJson } = require("./lib/remote-fetch") as {
+  postRemoteJson: (
+    url: string,
+    body: string,
+    options?: { connectTimeoutMs?: number; readTimeoutMs?: number; headers?: Record<string, string>; allowAddresses?: string[] }
+  ) => Promise<{ statusCode: number; responseExcerpt: string }>;
+};
 const {
   getCachedPage,
   putCachedPage,
@@ -155,29 +617,91 @@ const {
 const app = express();
 const port = Number(process.env.PORT || 3000);
 const uploadsDir = path.join(process.cwd(), "uploads");
-const upload = multer({ dest: uploadsDir });
-
-const ADMIN_USERNAME = process.env.ADMIN_USERNAME || "admin";
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "white-lab-admin";
+const upload = multer({ dest: uploadsDir, limits: { fileSize: MEDIA_UPLOAD_MAX_BYTES, files: 1 } });
+const bundleUpload = multer({ dest: uploadsDir, limits: { fileSize: BUNDLE_MAX_BYTES } });
+
+const IS_PRODUCTION = process.env.NODE_ENV === "production";
+// The shared password older installs shipped with; it must never become a real account in production.
+const LEGACY_DEFAULT_PASSWORD = "white-lab-admin";
+const SECOND_FACTOR_TTL_MS = 5 * 60 * 1000;
+const TOTP_ISSUER = "White Lab";
+const SESSION_SECRET = process.env.SESSION_SECRET || "white-lab-dev-session-secret";
+const PREVIEW_LINK_TTL_MS = Number(process.env.PREVIEW_LINK_TTL_HOURS || 72) * 60 * 60 * 1000;
 const HOME_SECTION_KEYS: HomeSectionKey[] = ["services", "process", "materials", "about", "gallery", "contacts"];
+const WEBHOOK_TIMEOUT_MS = Math.max(1, Number(process.env.WEBHOOK_TIMEOUT_SECONDS || 10)) * 1000;
+// Webhooks obey the same private-network ban as media import; a local test receiver is allowed
+// explicitly, e.g. WEBHOOK_ALLOW_ADDRESSES=127.0.0.1.
+const WEBHOOK_ALLOW_ADDRESSES = String(process.env.WEBHOOK_ALLOW_ADDRESSES || "")
+  .split(",")
+  .map((item) => item.trim())
+  .filter(Boolean);
 
 app.set("view engine", "ejs");
 app.set("views", path.join(process.cwd(), "views"));
 app.set("trust proxy", 1);
 
+// Inline scripts run only if they carry this request's nonce; everything else must come from our origin.
+app.use((req, res, next) => {
+  res.locals.cspNonce = crypto.randomBytes(16).toString("base64");
+  res.set("Reporting-Endpoints", 'csp-endpoint="/csp-report"');
+  next();
+});
 app.use(
   helmet({
-    contentSecurityPolicy: false,
+    contentSecurityPolicy: {
+      useDefaults: false,
+      directives: {
+        defaultSrc: ["'self'"],
+        scriptSrc: ["'self'", (req, res) => `'nonce-${(res as unknown as ResponseLike).locals.cspNonce}'`],
+        styleSrc: ["'self'", "https://fonts.googleapis.com"],
+        // Sections and tiles get their order and animation delay through CSS variables in style attributes.
+        styleSrcAttr: ["'unsafe-inline'"],
+        fontSrc: ["'self'", "https://fonts.gstatic.com"],
+        imgSrc: ["'self'", "data:", "blob:"],
+        mediaSrc: ["'self'", "blob:"],
+        connectSrc: ["'self'"],
+        objectSrc: ["'none'"],
+        baseUri: ["'self'"],
+        formAction: ["'self'"],
+        frameAncestors: ["'none'"],
+        reportUri: ["/csp-report"],
+        reportTo: ["csp-endpoint"],
+        ...(IS_PRODUCTION ? { upgradeInsecureRequests: [] } : {})
+      }
+    },
     crossOriginEmbedderPolicy: false
   })
 );
 app.use(compression());
+
+app.post(
+  "/csp-report",
+  express.json({ type: ["application/csp-report", "application/reports+json", "application/json"], limit: "16kb" }),
+  (req, res) => {
+    try {
+      recordCspViolations(parseCspReportBody(req.body), String(req.get("user-agent") || ""));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[csp] cannot record report: ${message}`);
+    }
+    res.status(204).end();
+  },
+  // Malformed or oversized reports are dropped quietly instead of reaching the 500 handler.
+  (error, req, res, next) => {
+    res.status(400).end();
+  }
+);
+
 app.use(express.urlencoded({ extended: true, limit: "2mb" }));
 app.use(express.json({ limit: "2mb" }));
+const sessionStore = new SqliteSessionStore();
+const SESSION_SEEN_INTERVAL_MS = 60 * 1000;
+
 app.use(
   session({
     name: "white_lab_session",
-    secret: process.env.SESSION_SECRET || "white-lab-dev-session-secret",
+    secret: SESSION_SECRET,
+    store: sessionStore,
     resave: false,
     saveUninitialized: false,
     cookie: {
@@ -191,6 +715,134 @@ app.use(
 
 app.use(express.static(path.join(process.cwd(), "public"), { maxAge: "7d", index: false }));
 
+// Device, IP and "last seen" for the active sessions list. Written at most once a minute,
+// since any change to the session forces a store write.
+app.use((req, res, next) => {
+  if (req.session?.userId) {
+    const client = req.session.client;
+    const ip = String(req.ip || "");
+    const userAgent = String(req.get("user-agent") || "");
+    const lastSeen = client ? Date.parse(client.lastSeenAt) : 0;
+    if (!client || client.ip !== ip || client.userAgent !== userAgent || Date.now() - lastSeen > SESSION_SEEN_INTERVAL_MS) {
+      req.session.client = { ip, userAgent, lastSeenAt: new Date().toISOString() };
+    }
+  }
+  next();
+});
+
+// `?preview=<token>` switches the visitor's session into draft preview; `?preview=off` leaves it.
+app.use((req, res, next) => {
+  const rawPreview = typeof req.query.preview === "string" ? req.query.preview : "";
+  if (!rawPreview || req.method !== "GET" || req.path.startsWith("/admin")) {
+    next();
+    return;
+  }
+
+  if (rawPreview === "off") {
+    if (req.session) {
+      req.session.preview = false;
+      req.session.previewUntil = 0;
+    }
+  } else {
+    const expiresAt = verifyPreviewToken(rawPreview);
+    if (expiresAt) {
+      req.session.previewUntil = expiresAt;
+    }
+  }
+
+  res.redirect(req.path);
+});
+
+const CSRF_SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function ensureCsrfToken(req: RequestLike): string {
+  if (!req.session.csrfToken) {
+    req.session.csrfToken = crypto.randomBytes(32).toString("hex");
+  }
+  return req.session.csrfToken;
+}
+
+// Multipart bodies are parsed by multer inside the route, after this check runs,
+// so upload forms carry the token in the action URL instead of a hidden field.
+function readSubmittedCsrfToken(req: RequestLike): string {
+  const fromBody = req.body?._csrf;
+  if (typeof fromBody === "string" && fromBody) {
+    return fromBody;
+  }
+  const fromHeader = req.get("x-csrf-token");
+  if (fromHeader) {
+    return fromHeader;
+  }
+  const isMultipart = String(req.get("content-type") || "").startsWith("multipart/form-data");
+  return isMultipart && typeof req.query._csrf === "string" ? req.query._csrf : "";
+}
+
+function isCsrfTokenValid(expected: string | undefined, submitted: string): boolean {
+  if (!expected || !submitted) {
+    return false;
+  }
+  const expectedBuffer = Buffer.from(expected);
+  const submittedBuffer = Buffer.from(submitted);
+  return expectedBuffer.length === submittedBuffer.length && crypto.timingSafeEqual(expectedBuffer, submittedBuffer);
+}
+
+function readBearerToken(req: RequestLike): string {
+  const match = String(req.get("authorization") || "").match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : "";
+}
+
+// Bearer tokens are only honoured on API routes. A browser never attaches them on its own,
+// so such requests cannot be forged cross-site and skip the CSRF check and the session.
+function isBearerApiRequest(req: RequestLike): boolean {
+  return req.originalUrl.startsWith("/api/") && Boolean(readBearerToken(req));
+}
+
+// Synchronizer token bound to the session: every state-changing /admin and admin API request must echo it back.
+app.use(["/admin", "/api/admin"], (req, res, next) => {
+  if (isBearerApiRequest(req)) {
+    next();
+    return;
+  }
+  if (CSRF_SAFE_METHODS.has(req.method) || isCsrfTokenValid(req.session?.csrfToken, readSubmittedCsrfToken(req))) {
+    res.locals.csrfToken = ensureCsrfToken(req);
+    next();
+    return;
+  }
+
+  const reason = req.session?.csrfToken ? "token_mismatch" : "session_without_token";
+  console.warn(`[admin] CSRF check failed (${reason}) for ${req.method} ${req.originalUrl} from ${req.ip}`);
+  recordAuditEvent({
+    userId: req.session?.userId ?? null,
+    actor: req.session?.userId ? getAdminUser(Number(req.session.userId))?.username || "unknown" : "anonymous",
+    action: "csrf.rejected",
+    target: `${req.method} ${req.originalUrl.split("?")[0]}`,
+    outcome: "denied",
+    ip: req.ip,
+    details: { reason, referer: String(req.get("referer") || "").slice(0, 200) }
+  });
+
+  res.status(403);
+  if (wantsJson(req)) {
+    res.json({
+      error: {
+        code: "csrf_failed",
+        message: "Недействительный CSRF-токен. Обновите страницу и повторите действие",
+        details: { reason }
+      }
+    });
+    return;
+  }
+  res.render("admin/csrf", {
+    page: "admin-csrf",
+    meta: {
+      title: "Форма устарела | White Lab",
+      description: "Запрос отклонён проверкой CSRF",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin`
+    }
+  });
+});
+
 function getBaseUrl(req: RequestLike): string {
   return process.env.SITE_URL || `${req.protocol}://${req.get("host")}`;
 }
@@ -215,7 +867,7 @@ function toArrayField(value: unknown): unknown[] {
   return [value];
 }
 
-function parseJsonField<T>(value: unknown, fallback: T, fieldName: string): T {
+function parseJsonField<T>(value: unknown, fallback: T, fieldName: string, fieldPath: string): T {
   if (typeof value !== "string" || !value.trim()) {
     return fallback;
   }
@@ -223,8 +875,54 @@ function parseJsonField<T>(value: unknown, fallback: T, fieldName: string): T {
     const parsed = JSON.parse(value) as T;
     return parsed;
   } catch {
-    throw new Error(`Некорректный JSON в поле: ${fieldName}`);
+    throw new ContentValidationError([{ path: fieldPath, message: `Некорректный JSON в поле: ${fieldName}` }]);
+  }
+}
+
+const FORM_FIELD_ALIASES: Record<string, string> = {
+  "brand.coordinates.lat": "brand_lat",
+  "brand.coordinates.lng": "brand_lng",
+  "brand.map2gis": "brand_map_2gis",
+  "hero.primaryCta.text": "hero_primary_text",
+  "hero.primaryCta.url": "hero_primary_url",
+  "hero.secondaryCta.text": "hero_secondary_text",
+  "hero.secondaryCta.url": "hero_secondary_url",
+  sourceLinks: "source_links"
+};
+
+function toSnakeCase(value: string): string {
+  return value.replace(/([A-Z])/g, "_$1").toLowerCase();
+}
+
+// Maps a schema path such as `services[2].slug` onto the admin form input that produced it.
+function mapIssueToFormField(issue: ValidationIssue): FieldIssue {
+  const serviceMatch = issue.path.match(/^services\[(\d+)\]\.(\w+)/);
+  if (serviceMatch) {
+    return { ...issue, field: `service_${toSnakeCase(serviceMatch[2])}`, index: Number(serviceMatch[1]) };
+  }
+
+  const mediaMatch = issue.path.match(/^media\[(\d+)\]\.(title|alt)$/);
+  if (mediaMatch) {
+    return { ...issue, field: `media_${mediaMatch[2]}`, index: Number(mediaMatch[1]) };
+  }
+
+  const path = issue.path.replace(/\[\d+\].*$/, "");
+  const [group, ...rest] = path.split(".");
+  let field = FORM_FIELD_ALIASES[path] || "";
+
+  if (!field && group === "faq") {
+    field = "faq_json";
+  } else if (!field && group === "services") {
+    field = "services_json";
+  } else if (!field && group === "sections" && rest.length >= 2) {
+    field = `section_${rest[0]}_${toSnakeCase(rest[1])}`;
+  } else if (!field && group === "metrics" && rest.length) {
+    field = `metric_${toSnakeCase(rest[0]).replace("two_gis", "2gis")}`;
+  } else if (!field) {
+    field = [group, ...rest].map(toSnakeCase).join("_");
   }
+
+  return { ...issue, field, index: 0 };
 }
 
 function sanitizeHomeSectionOrder(rawOrder: unknown): HomeSectionKey[] {
@@ -413,12 +1111,267 @@ function resolveSectionVisibilityFromForm(
   };
 }
 
+// Token requests act as the token's owner. Successful changes are written to the audit log
+// once the response is sent, so the entry reflects what actually happened.
+function authenticateBearerRequest(req: RequestLike, res: ResponseLike, next: NextLike): void {
+  const token = authenticateApiToken(readBearerToken(req), String(req.ip || ""));
+  const user = token ? getAdminUser(token.userId) : null;
+  if (!token || !user || user.disabled) {
+    res
+      .status(401)
+      .set("WWW-Authenticate", 'Bearer error="invalid_token"')
+      .json({ error: { code: "invalid_token", message: "API-токен недействителен, отозван или истёк", details: {} } });
+    return;
+  }
+
+  req.adminUser = user;
+  req.apiToken = token;
+  if (!CSRF_SAFE_METHODS.has(req.method)) {
+    res.on("finish", () => {
+      if (res.statusCode < 400) {
+        auditAdminAction(req, "api.change", `${req.method} ${req.originalUrl.split("?")[0]}`, {
+          tokenId: token.id,
+          tokenName: token.name,
+          status: res.statusCode
+        });
+      }
+    });
+  }
+  next();
+}
+
+// The session only carries the user id; the account is re-read on every request,
+// so disabling or deleting a user takes effect immediately.
 function requireAdmin(req: RequestLike, res: ResponseLike, next: NextLike): void {
-  if (req.session?.isAdmin) {
-    next();
+  if (isBearerApiRequest(req)) {
+    authenticateBearerRequest(req, res, next);
+    return;
+  }
+
+  const user = req.session?.userId ? getAdminUser(Number(req.session.userId)) : null;
+  if (!user || user.disabled) {
+    if (req.session?.userId) {
+      req.session.userId = undefined;
+    }
+    if (wantsJson(req)) {
+      res.status(401).json({ error: { code: "unauthorized", message: "Требуется вход в панель управления", details: {} } });
+      return;
+    }
+    res.redirect("/admin/login");
+    return;
+  }
+
+  req.adminUser = user;
+  res.locals.currentUser = user;
+  res.locals.can = (permission: AdminPermission) => hasPermission(user.role, permission);
+  next();
+}
+
+function auditAdminAction(req: RequestLike, action: string, target: string, details: Record<string, unknown> = {}): void {
+  recordAuditEvent({
+    userId: req.adminUser?.id ?? null,
+    actor: getAdminActor(req),
+    action,
+    target,
+    ip: req.ip,
+    details
+  });
+}
+
+// Must run after requireAdmin. Blocked attempts get a 403 and an audit record.
+// A read-only API token narrows its owner's role down to viewing.
+function requirePermission(permission: AdminPermission) {
+  return (req: RequestLike, res: ResponseLike, next: NextLike): void => {
+    const user = req.adminUser;
+    const scopeAllows = !req.apiToken || req.apiToken.scope === "write" || permission === "content.view";
+    if (user && scopeAllows && hasPermission(user.role, permission)) {
+      next();
+      return;
+    }
+
+    recordAuditEvent({
+      userId: user?.id ?? null,
+      actor: getAdminActor(req),
+      action: "access.denied",
+      target: `${req.method} ${req.originalUrl}`,
+      outcome: "denied",
+      ip: req.ip,
+      details: { permission, role: user?.role || "", ...(req.apiToken ? { tokenId: req.apiToken.id, scope: req.apiToken.scope } : {}) }
+    });
+    console.warn(`[admin] ${getAdminActor(req)} (${user?.role || "no role"}) denied ${permission} on ${req.method} ${req.path}`);
+
+    res.status(403);
+    if (wantsJson(req)) {
+      res.json({
+        error: {
+          code: "forbidden",
+          message: "Недостаточно прав для этого действия",
+          details: { permission, role: user?.role || "", ...(req.apiToken ? { scope: req.apiToken.scope } : {}) }
+        }
+      });
+      return;
+    }
+    res.render("admin/forbidden", {
+      page: "admin-forbidden",
+      permission,
+      meta: {
+        title: "Доступ запрещён | White Lab",
+        description: "Недостаточно прав",
+        noindex: true,
+        canonical: `${getBaseUrl(req)}/admin`
+      }
+    });
+  };
+}
+
+// A fresh session id at every step of the login prevents session fixation.
+function regenerateSession(req: RequestLike, fill: (session: SessionLike) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session?.regenerate((error) => {
+      if (error || !req.session) {
+        reject(error || new Error("Сессия недоступна"));
+        return;
+      }
+      fill(req.session);
+      resolve();
+    });
+  });
+}
+
+function startAdminSession(req: RequestLike, user: AdminUser): Promise<void> {
+  return regenerateSession(req, (session) => {
+    session.userId = user.id;
+    session.client = {
+      ip: String(req.ip || ""),
+      userAgent: String(req.get("user-agent") || ""),
+      lastSeenAt: new Date().toISOString()
+    };
+  });
+}
+
+// The password was right, but the session stays unauthenticated until the second factor is checked.
+function startSecondFactor(req: RequestLike, user: AdminUser): Promise<void> {
+  return regenerateSession(req, (session) => {
+    session.pendingUserId = user.id;
+    session.pendingUntil = Date.now() + SECOND_FACTOR_TTL_MS;
+  });
+}
+
+function createPreviewToken(expiresAt: number): string {
+  const signature = crypto.createHmac("sha256", SESSION_SECRET).update(`preview:${expiresAt}`).digest("base64url");
+  return `${expiresAt}.${signature}`;
+}
+
+function verifyPreviewToken(token: string): number {
+  const [rawExpires, signature] = token.split(".");
+  const expiresAt = Number(rawExpires);
+  if (!Number.isFinite(expiresAt) || expiresAt <= Date.now() || !signature) {
+    return 0;
+  }
+
+  const expected = Buffer.from(createPreviewToken(expiresAt));
+  const actual = Buffer.from(token);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return 0;
+  }
+  return expiresAt;
+}
+
+function isPreviewRequest(req: RequestLike): boolean {
+  if (req.session?.userId && req.session.preview) {
+    return true;
+  }
+  return Number(req.session?.previewUntil || 0) > Date.now();
+}
+
+function getAdminActor(req: RequestLike): string {
+  if (req.adminUser && req.apiToken) {
+    return `${req.adminUser.username} (token #${req.apiToken.id})`;
+  }
+  return req.adminUser?.username || "system";
+}
+
+// Everything under /api/ answers in JSON, whatever the client put in Accept.
+function wantsJson(req: RequestLike): boolean {
+  if (req.originalUrl.startsWith("/api/")) {
+    return true;
+  }
+  const accept = String(req.get("accept") || "");
+  const contentType = String(req.get("content-type") || "");
+  return accept.includes("application/json") || contentType.includes("application/json");
+}
+
+function readExpectedVersion(req: RequestLike, field: string): number | undefined {
+  const fromBody = req.body?.[field];
+  if (fromBody !== undefined && String(fromBody).trim() !== "") {
+    const version = Number(fromBody);
+    if (!Number.isInteger(version) || version < 0) {
+      throw new Error("Некорректная версия контента");
+    }
+    return version;
+  }
+
+  const ifMatch = String(req.get("if-match") || "").trim();
+  const match = ifMatch.match(/^(?:W\/)?"(?:site|media)(?::draft)?-v(\d+)"$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function respondSaved(req: RequestLike, res: ResponseLike, key: StoreKey, version: number, redirectUrl: string): void {
+  if (wantsJson(req)) {
+    res.set("ETag", toEtag(key, version)).json({ ok: true, key, version });
+    return;
+  }
+  res.redirect(redirectUrl);
+}
+
+async function respondContentConflict(
+  req: RequestLike,
+  res: ResponseLike,
+  conflict: InstanceType<typeof ContentConflictError>,
+  submitted: unknown
+): Promise<void> {
+  const loaders: Record<StoreKey, () => Promise<unknown>> = {
+    site: loadSite,
+    media: loadMedia,
+    "site:draft": loadDraftSite,
+    "media:draft": loadDraftMedia
+  };
+  const current = await loaders[conflict.key]();
+  const base = getContentRevisionByVersion(conflict.key, conflict.expectedVersion);
+  const othersChanges = base ? diffJson(base.value, current) : [];
+  const pendingChanges = diffJson(current, submitted);
+
+  res.status(409).set("ETag", toEtag(conflict.key, conflict.currentVersion));
+
+  if (wantsJson(req)) {
+    res.json({
+      error: {
+        code: "content_conflict",
+        message: conflict.message,
+        details: {
+          key: conflict.key,
+          expectedVersion: conflict.expectedVersion,
+          currentVersion: conflict.currentVersion,
+          changedFields: othersChanges.map((item) => item.path)
+        }
+      }
+    });
     return;
   }
-  res.redirect("/admin/login");
+
+  res.render("admin/conflict", {
+    page: "admin-conflict",
+    conflict,
+    baseAvailable: Boolean(base),
+    othersChanges,
+    pendingChanges,
+    meta: {
+      title: "Конфликт сохранения | White Lab",
+      description: "Данные изменены другим редактором",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin`
+    }
+  });
 }
 
 function buildMeta(req: RequestLike, site: SiteData, overrides: MetaOverrides = {}): MetaData {
@@ -440,8 +1393,14 @@ function buildMeta(req: RequestLike, site: SiteData, overrides: MetaOverrides =
   };
 }
 
-async function buildViewModel(req: RequestLike): Promise<ViewModel> {
-  const [site, media] = await Promise.all([loadSite(), loadMedia()]);
+async function buildViewModel(
+  req: RequestLike,
+  options: { draft?: boolean; site?: SiteData; media?: MediaItem[] } = {}
+): Promise<ViewModel> {
+  const draft = options.draft ?? isPreviewRequest(req);
+  const [loadedSite, loadedMedia] = await Promise.all(draft ? [loadDraftSite(), loadDraftMedia()] : [loadSite(), loadMedia()]);
+  const site = options.site ? { ...options.site } : loadedSite;
+  const media = options.media || loadedMedia;
   site.sections = normalizeSections(site);
   site.services = (site.services || []).map((item) => ({
     ...item,
@@ -461,7 +1420,8 @@ async function buildViewModel(req: RequestLike): Promise<ViewModel> {
     sectionVisibility,
     visibleSectionOrder,
     mediaJobs: [],
-    isAdmin: Boolean(req.session?.isAdmin)
+    isAdmin: Boolean(req.session?.userId),
+    isPreview: draft
   };
 }
 
@@ -571,6 +1531,19 @@ function uniqueBy<T>(items: T[], keyFn: (item: T) => string): T[] {
   return result;
 }
 
+async function removeMediaFiles(items: MediaItem[]): Promise<void> {
+  const filePaths = items
+    .flatMap((item) => [item.localOriginal, item.localOptimized, ...(item.renditions || []).map((rendition) => rendition.src)])
+    .filter(Boolean)
+    .map((localPath) => path.join(process.cwd(), "public", localPath.replace("/media/", "media/")));
+
+  await Promise.all(
+    filePaths.map(async (filePath) => {
+      await fs.unlink(filePath).catch(() => {});
+    })
+  );
+}
+
 function getErrorMessage(error: unknown, fallback: string): string {
   if (error instanceof Error && error.message) {
     return error.message;
@@ -601,30 +1574,38 @@ async function renderTemplate(view: string, data: Record<string, unknown>): Prom
   });
 }
 
+// Cached pages are shared between visitors, so they are rendered with a placeholder
+// that is swapped for the current request's CSP nonce on every send.
+const CACHED_PAGE_NONCE = `nonce-placeholder-${crypto.randomBytes(12).toString("hex")}`;
+
+function sendCachedHtml(res: ResponseLike, html: string): void {
+  res.type("text/html").send(html.replaceAll(CACHED_PAGE_NONCE, String(res.locals.cspNonce || "")));
+}
+
 async function renderWithPublicCache(
   req: RequestLike,
   res: ResponseLike,
   cacheKey: string,
   renderer: () => Promise<{ view: string; data: Record<string, unknown>; statusCode?: number }>
 ): Promise<void> {
-  const allowCache = !req.session?.isAdmin;
+  const allowCache = !req.session?.userId && !isPreviewRequest(req);
 
   if (allowCache) {
     const cached = getCachedPage(cacheKey);
     if (cached?.status === "hit") {
-      res.type("text/html").send(cached.html);
+      sendCachedHtml(res, cached.html);
       return;
     }
 
     if (cached?.status === "stale") {
-      res.type("text/html").send(cached.html);
+      sendCachedHtml(res, cached.html);
 
       if (!isRevalidating(cacheKey)) {
         setRevalidating(cacheKey, true);
         renderer()
           .then(async ({ view, data, statusCode }) => {
             if ((statusCode || 200) === 200) {
-              const html = await renderTemplate(view, data);
+              const html = await renderTemplate(view, { ...data, cspNonce: CACHED_PAGE_NONCE });
               putCachedPage(cacheKey, html);
             }
           })
@@ -640,7 +1621,7 @@ async function renderWithPublicCache(
 
   const rendered = await renderer();
   const statusCode = rendered.statusCode || 200;
-  const html = await renderTemplate(rendered.view, rendered.data);
+  const html = await renderTemplate(rendered.view, { ...rendered.data, cspNonce: CACHED_PAGE_NONCE });
   if (allowCache && statusCode === 200) {
     putCachedPage(cacheKey, html);
   }
@@ -648,7 +1629,7 @@ async function renderWithPublicCache(
   if (statusCode !== 200) {
     res.status(statusCode);
   }
-  res.type("text/html").send(html);
+  sendCachedHtml(res, html);
 }
 
 app.get("/", async (req, res, next) => {
@@ -752,36 +1733,96 @@ app.get("/services/:slug", async (req, res, next) => {
   }
 });
 
-app.get("/admin/login", async (req, res) => {
-  if (req.session?.isAdmin) {
-    res.redirect("/admin");
+let setupCode = "";
+
+// First run: an owner is created from ADMIN_USERNAME/ADMIN_PASSWORD if they are set,
+// otherwise /admin/setup asks for a one-time code printed to the server log.
+async function bootstrapAdminUsers(): Promise<void> {
+  if (countAdminUsers() > 0) {
     return;
   }
 
-  res.render("admin/login", {
-    page: "admin-login",
-    error: null,
+  const envUsername = String(process.env.ADMIN_USERNAME || "").trim();
+  const envPassword = String(process.env.ADMIN_PASSWORD || "");
+  if (envUsername && envPassword) {
+    if (IS_PRODUCTION && envPassword === LEGACY_DEFAULT_PASSWORD) {
+      console.warn("[admin] ADMIN_PASSWORD is the old default password and is ignored in production");
+    } else {
+      try {
+        await createAdminUser({ username: envUsername, password: envPassword, role: "owner" });
+        console.log(`[admin] owner account "${envUsername}" created from ADMIN_USERNAME/ADMIN_PASSWORD`);
+        return;
+      } catch (error) {
+        console.warn(`[admin] cannot create owner from ADMIN_USERNAME/ADMIN_PASSWORD: ${getErrorMessage(error, "error")}`);
+      }
+    }
+  }
+
+  setupCode = crypto.randomBytes(6).toString("hex");
+  console.log(`[admin] No admin accounts yet. Open /admin/setup and enter the setup code: ${setupCode}`);
+}
+
+function isSetupCodeValid(value: unknown): boolean {
+  const expected = Buffer.from(setupCode);
+  const actual = Buffer.from(String(value || "").trim().toLowerCase());
+  return Boolean(setupCode) && expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function renderSetup(req: RequestLike, res: ResponseLike, error: string | null = null): void {
+  res.status(error ? 400 : 200).render("admin/setup", {
+    page: "admin-setup",
+    error,
+    values: { username: String(req.body?.username || ""), display_name: String(req.body?.display_name || "") },
+    passwordMinLength: PASSWORD_MIN_LENGTH,
     meta: {
-      title: "Вход в панель управления | White Lab",
-      description: "Панель управления сайта White Lab",
+      title: "Первичная настройка | White Lab",
+      description: "Создание учётной записи владельца",
       noindex: true,
-      canonical: `${getBaseUrl(req)}/admin/login`
+      canonical: `${getBaseUrl(req)}/admin/setup`
     }
   });
-});
+}
 
-app.post("/admin/login", async (req, res) => {
-  const { username, password } = req.body;
+app.get("/admin/setup", (req, res) => {
+  if (countAdminUsers() > 0) {
+    res.redirect("/admin/login");
+    return;
+  }
+  renderSetup(req, res);
+});
 
-  if (username === ADMIN_USERNAME && password === ADMIN_PASSWORD) {
-    req.session.isAdmin = true;
-    res.redirect("/admin");
+app.post("/admin/setup", async (req, res) => {
+  if (countAdminUsers() > 0) {
+    res.redirect("/admin/login");
     return;
   }
 
-  res.status(401).render("admin/login", {
+  try {
+    if (!isSetupCodeValid(req.body.setup_code)) {
+      throw new Error("Неверный код настройки. Он выводится в журнал сервера при запуске");
+    }
+    if (String(req.body.password || "") !== String(req.body.password_confirm || "")) {
+      throw new Error("Пароли не совпадают");
+    }
+
+    const owner = await createAdminUser({
+      username: String(req.body.username || ""),
+      displayName: String(req.body.display_name || ""),
+      password: String(req.body.password || ""),
+      role: "owner"
+    });
+    setupCode = "";
+    await startAdminSession(req, owner);
+    res.redirect(`/admin?success=${encodeURIComponent("Учётная запись владельца создана")}`);
+  } catch (error) {
+    renderSetup(req, res, getErrorMessage(error, "Ошибка настройки"));
+  }
+});
+
+function renderLogin(req: RequestLike, res: ResponseLike, status = 200, error: string | null = null): void {
+  res.status(status).render("admin/login", {
     page: "admin-login",
-    error: "Неверный логин или пароль",
+    error,
     meta: {
       title: "Вход в панель управления | White Lab",
       description: "Панель управления сайта White Lab",
@@ -789,6 +1830,149 @@ app.post("/admin/login", async (req, res) => {
       canonical: `${getBaseUrl(req)}/admin/login`
     }
   });
+}
+
+function reportLoginFailure(username: string, ip: string, reason: string): void {
+  const { lockedUsernameUntil, lockedIpUntil } = recordLoginFailure(username, ip, reason);
+  for (const [scope, subject, until] of [
+    ["username", username, lockedUsernameUntil],
+    ["ip", ip, lockedIpUntil]
+  ] as const) {
+    if (!until) {
+      continue;
+    }
+    console.warn(`[admin] login locked for ${scope} "${subject}" until ${until}`);
+    recordAuditEvent({
+      actor: "anonymous",
+      action: "login.locked",
+      target: `${scope}:${subject}`,
+      outcome: "denied",
+      ip,
+      details: { lockedUntil: until }
+    });
+  }
+}
+
+// Shared by both login steps. Returns the lockout message, or null once the progressive delay has passed.
+// The answer is the same for known and unknown logins, so lockouts do not reveal which accounts exist.
+async function waitForLoginSlot(res: ResponseLike, username: string, ip: string): Promise<string | null> {
+  const check = checkLoginAllowed(username, ip);
+  if (!check.allowed) {
+    res.set("Retry-After", String(Math.ceil(check.retryAfterMs / 1000)));
+    return `Слишком много неудачных попыток входа. Повторите через ${formatRetryAfter(check.retryAfterMs)}`;
+  }
+  if (check.delayMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, check.delayMs));
+  }
+  return null;
+}
+
+function formatRetryAfter(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  return minutes > 1 ? `${minutes} мин.` : "минуту";
+}
+
+app.get("/admin/login", async (req, res) => {
+  if (countAdminUsers() === 0) {
+    res.redirect("/admin/setup");
+    return;
+  }
+  if (req.session?.userId) {
+    res.redirect("/admin");
+    return;
+  }
+
+  renderLogin(req, res);
+});
+
+app.post("/admin/login", async (req, res) => {
+  const username = String(req.body.username || "");
+  const ip = String(req.ip || "");
+
+  const blocked = await waitForLoginSlot(res, username, ip);
+  if (blocked) {
+    renderLogin(req, res, 429, blocked);
+    return;
+  }
+
+  const user = await authenticateAdminUser(username, String(req.body.password || ""));
+
+  if (user?.totpEnabled) {
+    await startSecondFactor(req, user);
+    res.redirect("/admin/login/2fa");
+    return;
+  }
+  if (user) {
+    recordLoginSuccess(username, ip);
+    await startAdminSession(req, user);
+    res.redirect("/admin");
+    return;
+  }
+
+  reportLoginFailure(username, ip, "invalid_credentials");
+  renderLogin(req, res, 401, "Неверный логин или пароль");
+});
+
+function getPendingSecondFactorUser(req: RequestLike): AdminUser | null {
+  const pendingUserId = Number(req.session?.pendingUserId || 0);
+  if (!pendingUserId || Number(req.session?.pendingUntil || 0) < Date.now()) {
+    return null;
+  }
+  const user = getAdminUser(pendingUserId);
+  return user && !user.disabled && user.totpEnabled ? user : null;
+}
+
+function renderSecondFactor(req: RequestLike, res: ResponseLike, status = 200, error: string | null = null): void {
+  res.status(status).render("admin/login-2fa", {
+    page: "admin-login-2fa",
+    error,
+    meta: {
+      title: "Подтверждение входа | White Lab",
+      description: "Второй фактор для входа в панель управления",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/login/2fa`
+    }
+  });
+}
+
+app.get("/admin/login/2fa", (req, res) => {
+  if (!getPendingSecondFactorUser(req)) {
+    res.redirect("/admin/login");
+    return;
+  }
+  renderSecondFactor(req, res);
+});
+
+app.post("/admin/login/2fa", async (req, res) => {
+  const user = getPendingSecondFactorUser(req);
+  if (!user) {
+    res.redirect("/admin/login");
+    return;
+  }
+
+  const ip = String(req.ip || "");
+  const blocked = await waitForLoginSlot(res, user.username, ip);
+  if (blocked) {
+    renderSecondFactor(req, res, 429, blocked);
+    return;
+  }
+
+  const factor = verifyAdminUserSecondFactor(user.id, String(req.body.code || ""));
+  if (!factor) {
+    reportLoginFailure(user.username, ip, "invalid_second_factor");
+    renderSecondFactor(req, res, 401, "Неверный код подтверждения");
+    return;
+  }
+
+  recordLoginSuccess(user.username, ip);
+  await startAdminSession(req, user);
+  if (factor === "recovery") {
+    const left = countUnusedRecoveryCodes(user.id);
+    recordAuditEvent({ userId: user.id, actor: user.username, action: "totp.recovery_code_used", ip, details: { left } });
+    res.redirect(`/admin/account?success=${encodeURIComponent(`Вход по резервному коду. Осталось кодов: ${left}`)}`);
+    return;
+  }
+  res.redirect("/admin");
 });
 
 app.post("/admin/logout", requireAdmin, (req, res) => {
@@ -797,313 +1981,2649 @@ app.post("/admin/logout", requireAdmin, (req, res) => {
   });
 });
 
-app.get("/admin", requireAdmin, async (req, res, next) => {
+function renderUsersPage(req: RequestLike, res: ResponseLike, error: string | null = null): void {
+  res.status(error ? 400 : 200).render("admin/users", {
+    page: "admin-users",
+    users: listAdminUsers().map((user) => ({ ...user, lockout: getUsernameLockout(user.username) })),
+    roles: ADMIN_ROLES,
+    passwordMinLength: PASSWORD_MIN_LENGTH,
+    success: req.query.success || "",
+    error: error || req.query.error || "",
+    meta: {
+      title: "Пользователи | White Lab",
+      description: "Учётные записи панели управления White Lab",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/users`
+    }
+  });
+}
+
+function readUserId(req: RequestLike): number {
+  const userId = Number(req.params.id);
+  if (!Number.isInteger(userId) || userId <= 0) {
+    throw new Error("Некорректный идентификатор пользователя");
+  }
+  return userId;
+}
+
+app.get("/admin/users", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  renderUsersPage(req, res);
+});
+
+app.post("/admin/users", requireAdmin, requirePermission("users.manage"), async (req, res) => {
   try {
-    const vm = await buildViewModel(req);
-    const mediaJobs = listMediaJobs(40);
+    const user = await createAdminUser({
+      username: String(req.body.username || ""),
+      displayName: String(req.body.display_name || ""),
+      password: String(req.body.password || ""),
+      role: String(req.body.role || "editor") as AdminRole
+    });
+    auditAdminAction(req, "user.created", user.username, { role: user.role });
+    res.redirect(`/admin/users?success=${encodeURIComponent(`Пользователь ${user.username} создан`)}`);
+  } catch (error) {
+    renderUsersPage(req, res, getErrorMessage(error, "Ошибка создания пользователя"));
+  }
+});
 
-    res.render("admin/dashboard", {
-      ...vm,
-      mediaJobs,
-      page: "admin",
-      success: req.query.success || "",
-      error: req.query.error || "",
-      serializedServices: JSON.stringify(vm.site?.services || [], null, 2),
-      serializedFaq: JSON.stringify(vm.site?.faq || [], null, 2),
-      factsText: (vm.site?.about?.facts || []).join("\n"),
-      advantagesText: (vm.site?.advantages || []).join("\n"),
-      sourceLinksText: (vm.site?.sourceLinks || []).join("\n"),
-      sectionProcessStepsText: (vm.site?.sections?.process?.steps || []).join("\n"),
-      meta: {
-        title: "Панель управления | White Lab",
-        description: "Управление контентом White Lab",
-        noindex: true,
-        canonical: `${getBaseUrl(req)}/admin`
-      }
+app.post("/admin/users/:id", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  try {
+    const userId = readUserId(req);
+    if (userId === req.adminUser?.id && (req.body.disabled === "1" || req.body.role !== req.adminUser.role)) {
+      throw new Error("Свою роль и доступ может изменить только другой владелец");
+    }
+
+    const user = updateAdminUser(userId, {
+      displayName: String(req.body.display_name || ""),
+      role: String(req.body.role || "") as AdminRole,
+      disabled: req.body.disabled === "1"
     });
+    if (user.disabled) {
+      revokeUserSessions(user.id);
+    }
+    auditAdminAction(req, "user.updated", user.username, { role: user.role, disabled: user.disabled });
+    res.redirect(`/admin/users?success=${encodeURIComponent(`Пользователь ${user.username} обновлён`)}`);
   } catch (error) {
-    next(error);
+    res.redirect(`/admin/users?error=${encodeURIComponent(getErrorMessage(error, "Ошибка обновления пользователя"))}`);
   }
 });
 
-app.post("/admin/content", requireAdmin, async (req, res) => {
+app.post("/admin/users/:id/password", requireAdmin, requirePermission("users.manage"), async (req, res) => {
   try {
-    const current = await loadSite();
-    const currentSections = normalizeSections(current);
-    const processStepsInput = toArrayFromTextarea(req.body.section_process_steps);
+    const userId = readUserId(req);
+    await setAdminUserPassword(userId, String(req.body.password || ""));
+    revokeUserSessions(userId, userId === req.adminUser?.id ? getSessionHandle(String(req.sessionID)) : "");
+    auditAdminAction(req, "user.password_reset", getAdminUser(userId)?.username || String(userId));
+    res.redirect(`/admin/users?success=${encodeURIComponent("Пароль изменён")}`);
+  } catch (error) {
+    res.redirect(`/admin/users?error=${encodeURIComponent(getErrorMessage(error, "Ошибка смены пароля"))}`);
+  }
+});
 
-    const next = {
-      ...current,
-      seo: {
-        ...current.seo,
-        title: req.body.seo_title,
-        description: req.body.seo_description,
-        keywords: req.body.seo_keywords,
-        ogTitle: req.body.seo_og_title,
-        ogDescription: req.body.seo_og_description
-      },
-      brand: {
-        ...current.brand,
-        name: req.body.brand_name,
-        legalName: req.body.brand_legal_name,
-        category: req.body.brand_category,
-        city: req.body.brand_city,
-        address: req.body.brand_address,
-        postalCode: req.body.brand_postal_code,
-        region: req.body.brand_region,
-        country: req.body.brand_country,
-        phoneDisplay: req.body.brand_phone_display,
-        phoneValue: req.body.brand_phone_value,
-        email: req.body.brand_email,
-        workHours: req.body.brand_work_hours,
-        workHoursIso: req.body.brand_work_hours_iso,
-        instagram: req.body.brand_instagram,
-        orderLink: req.body.brand_order_link,
-        map2gis: req.body.brand_map_2gis,
-        mapYandex: req.body.brand_map_yandex,
-        coordinates: {
-          lat: Number(req.body.brand_lat || current?.brand?.coordinates?.lat || 0),
-          lng: Number(req.body.brand_lng || current?.brand?.coordinates?.lng || 0)
-        }
-      },
-      hero: {
-        ...current.hero,
-        badge: req.body.hero_badge,
-        title: req.body.hero_title,
-        subtitle: req.body.hero_subtitle,
-        primaryCta: {
-          text: req.body.hero_primary_text,
-          url: req.body.hero_primary_url
-        },
-        secondaryCta: {
-          text: req.body.hero_secondary_text,
-          url: req.body.hero_secondary_url
-        }
-      },
-      about: {
-        ...current.about,
-        title: req.body.about_title,
-        text: req.body.about_text,
-        facts: toArrayFromTextarea(req.body.about_facts)
-      },
-      advantages: toArrayFromTextarea(req.body.advantages),
-      services: parseJsonField(req.body.services_json, current.services || [], "Услуги"),
-      faq: parseJsonField(req.body.faq_json, current.faq || [], "ЧаВо"),
-      sourceLinks: toArrayFromTextarea(req.body.source_links),
-      sections: {
-        ...currentSections,
-        order: resolveSectionOrderFromForm(req.body),
-        services: {
-          ...currentSections.services,
-          title: req.body.section_services_title || currentSections.services.title,
-          description: req.body.section_services_description || currentSections.services.description,
-          ...resolveSectionVisibilityFromForm(req.body, "services", currentSections.services)
-        },
-        process: {
-          ...currentSections.process,
-          title: req.body.section_process_title || currentSections.process.title,
-          description: req.body.section_process_description || currentSections.process.description,
-          steps: processStepsInput.length > 0 ? processStepsInput : currentSections.process.steps,
-          ...resolveSectionVisibilityFromForm(req.body, "process", currentSections.process)
-        },
-        materials: {
-          ...currentSections.materials,
-          title: req.body.section_materials_title || currentSections.materials.title,
-          description: req.body.section_materials_description || currentSections.materials.description,
-          ...resolveSectionVisibilityFromForm(req.body, "materials", currentSections.materials)
-        },
-        about: {
-          ...currentSections.about,
-          title: req.body.section_about_title || currentSections.about.title,
-          description: req.body.section_about_description || currentSections.about.description,
-          ...resolveSectionVisibilityFromForm(req.body, "about", currentSections.about)
-        },
-        gallery: {
-          ...currentSections.gallery,
-          title: req.body.section_gallery_title || currentSections.gallery.title,
-          description: req.body.section_gallery_description || currentSections.gallery.description,
-          ...resolveSectionVisibilityFromForm(req.body, "gallery", currentSections.gallery)
-        },
-        contacts: {
-          ...currentSections.contacts,
-          title: req.body.section_contacts_title || currentSections.contacts.title,
-          ...resolveSectionVisibilityFromForm(req.body, "contacts", currentSections.contacts)
-        }
-      },
-      metrics: {
-        ...current.metrics,
-        instagramFollowers: Number(req.body.metric_instagram_followers || 0),
-        instagramPosts: Number(req.body.metric_instagram_posts || 0),
-        instagramHighlights: Number(req.body.metric_instagram_highlights || 0),
-        twoGisRating: Number(req.body.metric_2gis_rating || 0),
-        twoGisReviews: Number(req.body.metric_2gis_reviews || 0)
+app.post("/admin/users/:id/delete", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  try {
+    const userId = readUserId(req);
+    if (userId === req.adminUser?.id) {
+      throw new Error("Нельзя удалить свою учётную запись");
+    }
+    const username = getAdminUser(userId)?.username || String(userId);
+    deleteAdminUser(userId);
+    revokeUserSessions(userId);
+    auditAdminAction(req, "user.deleted", username);
+    res.redirect(`/admin/users?success=${encodeURIComponent("Пользователь удалён")}`);
+  } catch (error) {
+    res.redirect(`/admin/users?error=${encodeURIComponent(getErrorMessage(error, "Ошибка удаления пользователя"))}`);
+  }
+});
+
+app.post("/admin/users/:id/unlock", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  try {
+    const user = getAdminUser(readUserId(req));
+    if (!user) {
+      throw new Error("Пользователь не найден");
+    }
+    if (!unlockUserLogins(user.username)) {
+      throw new Error(`Вход для ${user.username} не заблокирован`);
+    }
+    auditAdminAction(req, "login.unlocked", `username:${user.username}`);
+    res.redirect(`/admin/users?success=${encodeURIComponent(`Вход для ${user.username} разблокирован`)}`);
+  } catch (error) {
+    res.redirect(`/admin/users?error=${encodeURIComponent(getErrorMessage(error, "Ошибка разблокировки"))}`);
+  }
+});
+
+app.post("/admin/users/:id/2fa/reset", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  try {
+    const user = getAdminUser(readUserId(req));
+    if (!user) {
+      throw new Error("Пользователь не найден");
+    }
+    disableAdminUserTotp(user.id);
+    auditAdminAction(req, "totp.reset", user.username);
+    res.redirect(`/admin/users?success=${encodeURIComponent(`Двухфакторная аутентификация ${user.username} сброшена`)}`);
+  } catch (error) {
+    res.redirect(`/admin/users?error=${encodeURIComponent(getErrorMessage(error, "Ошибка сброса"))}`);
+  }
+});
+
+app.post("/admin/users/:id/sessions/revoke", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  try {
+    const user = getAdminUser(readUserId(req));
+    if (!user) {
+      throw new Error("Пользователь не найден");
+    }
+    const exceptHandle = user.id === req.adminUser?.id ? getSessionHandle(String(req.sessionID)) : "";
+    const revoked = revokeUserSessions(user.id, exceptHandle);
+    auditAdminAction(req, "session.revoked_all", user.username, { count: revoked });
+    res.redirect(`/admin/sessions?success=${encodeURIComponent(`Завершено сеансов ${user.username}: ${revoked}`)}`);
+  } catch (error) {
+    res.redirect(`/admin/sessions?error=${encodeURIComponent(getErrorMessage(error, "Ошибка завершения сеансов"))}`);
+  }
+});
+
+app.get("/admin/sessions", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  const users = new Map(listAdminUsers().map((user) => [user.id, user]));
+  res.render("admin/sessions", {
+    page: "admin-sessions",
+    sessions: listActiveSessions().map((item) => ({ ...item, user: users.get(Number(item.userId)) || null })),
+    currentSessionHandle: getSessionHandle(String(req.sessionID)),
+    success: req.query.success || "",
+    error: req.query.error || "",
+    meta: {
+      title: "Активные сеансы | White Lab",
+      description: "Сеансы пользователей панели управления",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/sessions`
+    }
+  });
+});
+
+app.post("/admin/sessions/:handle/revoke", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  if (req.params.handle === getSessionHandle(String(req.sessionID))) {
+    res.redirect(`/admin/sessions?error=${encodeURIComponent("Текущий сеанс завершается кнопкой «Выйти»")}`);
+    return;
+  }
+  if (!revokeSession(req.params.handle)) {
+    res.redirect(`/admin/sessions?error=${encodeURIComponent("Сеанс уже завершён")}`);
+    return;
+  }
+  auditAdminAction(req, "session.revoked", req.params.handle);
+  res.redirect(`/admin/sessions?success=${encodeURIComponent("Сеанс завершён")}`);
+});
+
+app.get("/admin/logins", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  const failedOnly = req.query.all !== "1";
+  res.render("admin/logins", {
+    page: "admin-logins",
+    attempts: listLoginAttempts({ failedOnly, limit: 200 }),
+    lockouts: listLockouts(),
+    failedOnly,
+    success: req.query.success || "",
+    error: req.query.error || "",
+    meta: {
+      title: "Попытки входа | White Lab",
+      description: "История входов и блокировки панели управления",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/logins`
+    }
+  });
+});
+
+app.post("/admin/logins/unlock", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  const scope = req.body.scope === "ip" ? "ip" : "username";
+  const subject = String(req.body.subject || "");
+  if (unlockLogin(scope, subject)) {
+    auditAdminAction(req, "login.unlocked", `${scope}:${subject}`);
+    res.redirect(`/admin/logins?success=${encodeURIComponent(`Блокировка снята: ${subject}`)}`);
+    return;
+  }
+  res.redirect(`/admin/logins?error=${encodeURIComponent("Блокировка уже снята")}`);
+});
+
+app.get("/admin/audit", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  const outcome = req.query.outcome === "denied" || req.query.outcome === "allowed" ? req.query.outcome : undefined;
+  const pageSize = 50;
+  const total = countAuditEvents({ outcome });
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const pageNumber = Math.min(pageCount, Math.max(1, Number.parseInt(String(req.query.page || "1"), 10) || 1));
+
+  res.render("admin/audit", {
+    page: "admin-audit",
+    events: listAuditEvents({ outcome, limit: pageSize, offset: (pageNumber - 1) * pageSize }),
+    outcome: outcome || "",
+    pageNumber,
+    pageCount,
+    total,
+    meta: {
+      title: "Журнал действий | White Lab",
+      description: "Журнал действий и отказов в доступе панели управления",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/audit`
+    }
+  });
+});
+
+app.get("/admin/csp-reports", requireAdmin, requirePermission("site.manage"), (req, res) => {
+  res.render("admin/csp-reports", {
+    page: "admin-csp-reports",
+    reports: listCspReports(),
+    total: countCspReports(),
+    success: req.query.success || "",
+    meta: {
+      title: "Нарушения CSP | White Lab",
+      description: "Отчёты браузеров о нарушениях политики безопасности контента",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/csp-reports`
+    }
+  });
+});
+
+app.post("/admin/csp-reports/clear", requireAdmin, requirePermission("site.manage"), (req, res) => {
+  const removed = clearCspReports();
+  auditAdminAction(req, "csp_reports.cleared", "", { removed });
+  res.redirect(`/admin/csp-reports?success=${encodeURIComponent("Отчёты очищены")}`);
+});
+
+const API_TOKEN_LIFETIMES_DAYS = [7, 30, 90, 365];
+
+function renderApiTokensPage(req: RequestLike, res: ResponseLike, extra: { issuedToken?: string; error?: string } = {}): void {
+  const users = listAdminUsers();
+  const usersById = new Map(users.map((user) => [user.id, user]));
+  res.status(extra.error ? 400 : 200).render("admin/api-tokens", {
+    page: "admin-api-tokens",
+    tokens: listApiTokens().map((token) => ({ ...token, active: isApiTokenActive(token), user: usersById.get(token.userId) || null })),
+    users: users.filter((user) => !user.disabled),
+    scopes: API_TOKEN_SCOPES,
+    lifetimes: API_TOKEN_LIFETIMES_DAYS,
+    issuedToken: extra.issuedToken || "",
+    success: req.query.success || "",
+    error: extra.error || req.query.error || "",
+    meta: {
+      title: "API-токены | White Lab",
+      description: "Токены доступа к API панели управления",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/api-tokens`
+    }
+  });
+}
+
+app.get("/admin/api-tokens", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  renderApiTokensPage(req, res);
+});
+
+// The token is shown on this response only; after that just its prefix is visible.
+app.post("/admin/api-tokens", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  try {
+    const user = getAdminUser(Number(req.body.user_id));
+    if (!user || user.disabled) {
+      throw new Error("Выберите активного пользователя");
+    }
+    const days = Number(req.body.expires_in_days || 0);
+    if (days && !API_TOKEN_LIFETIMES_DAYS.includes(days)) {
+      throw new Error("Некорректный срок действия токена");
+    }
+
+    const { token, record } = createApiToken({
+      userId: user.id,
+      name: String(req.body.name || ""),
+      scope: String(req.body.scope || "") as ApiToken["scope"],
+      expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+      createdBy: getAdminActor(req)
+    });
+    auditAdminAction(req, "api_token.created", user.username, {
+      tokenId: record.id,
+      name: record.name,
+      scope: record.scope,
+      expiresAt: record.expiresAt
+    });
+    renderApiTokensPage(req, res, { issuedToken: token });
+  } catch (error) {
+    renderApiTokensPage(req, res, { error: getErrorMessage(error, "Ошибка выпуска токена") });
+  }
+});
+
+app.post("/admin/api-tokens/:id/revoke", requireAdmin, requirePermission("users.manage"), (req, res) => {
+  const tokenId = Number(req.params.id);
+  if (!Number.isInteger(tokenId) || !revokeApiToken(tokenId)) {
+    res.redirect(`/admin/api-tokens?error=${encodeURIComponent("Токен не найден или уже отозван")}`);
+    return;
+  }
+  auditAdminAction(req, "api_token.revoked", String(tokenId));
+  res.redirect(`/admin/api-tokens?success=${encodeURIComponent("Токен отозван")}`);
+});
+
+function renderWebhooksPage(req: RequestLike, res: ResponseLike, extra: { createdWebhook?: Webhook; error?: string } = {}): void {
+  const webhookId = Number(req.query.webhook || 0);
+  const webhooks = listWebhooks();
+  res.status(extra.error ? 400 : 200).render("admin/webhooks", {
+    page: "admin-webhooks",
+    webhooks,
+    events: WEBHOOK_EVENTS,
+    deliveries: listWebhookDeliveries(100, Number.isInteger(webhookId) ? webhookId : 0),
+    filterWebhook: webhooks.find((webhook) => webhook.id === webhookId) || null,
+    createdWebhook: extra.createdWebhook || null,
+    success: req.query.success || "",
+    error: extra.error || req.query.error || "",
+    meta: {
+      title: "Вебхуки | White Lab",
+      description: "Уведомления внешних систем об изменениях сайта",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/webhooks`
+    }
+  });
+}
+
+function readWebhookId(req: RequestLike): number {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && getWebhook(id) ? id : 0;
+}
+
+app.get("/admin/webhooks", requireAdmin, requirePermission("site.manage"), (req, res) => {
+  renderWebhooksPage(req, res);
+});
+
+// The signing secret is shown in full only here, right after creation.
+app.post("/admin/webhooks", requireAdmin, requirePermission("site.manage"), (req, res) => {
+  try {
+    const webhook = createWebhook({
+      name: String(req.body.name || ""),
+      url: String(req.body.url || ""),
+      events: ([] as unknown[]).concat(req.body.events || []).map(String),
+      createdBy: getAdminActor(req)
+    });
+    auditAdminAction(req, "webhook.created", String(webhook.id), { name: webhook.name, url: webhook.url, events: webhook.events });
+    renderWebhooksPage(req, res, { createdWebhook: webhook });
+  } catch (error) {
+    renderWebhooksPage(req, res, { error: getErrorMessage(error, "Ошибка создания вебхука") });
+  }
+});
+
+app.post("/admin/webhooks/:id/toggle", requireAdmin, requirePermission("site.manage"), (req, res) => {
+  const webhookId = readWebhookId(req);
+  if (!webhookId) {
+    res.redirect(`/admin/webhooks?error=${encodeURIComponent("Вебхук не найден")}`);
+    return;
+  }
+  const enabled = !(getWebhook(webhookId) as Webhook).enabled;
+  setWebhookEnabled(webhookId, enabled);
+  auditAdminAction(req, enabled ? "webhook.enabled" : "webhook.disabled", String(webhookId));
+  // Deliveries queued while a webhook is paused are sent once it is enabled again.
+  const message = enabled ? "Вебхук включён" : "Вебхук приостановлен, новые события для него копятся в очереди";
+  res.redirect(`/admin/webhooks?success=${encodeURIComponent(message)}`);
+});
+
+app.post("/admin/webhooks/:id/ping", requireAdmin, requirePermission("site.manage"), (req, res) => {
+  const webhookId = readWebhookId(req);
+  if (!webhookId) {
+    res.redirect(`/admin/webhooks?error=${encodeURIComponent("Вебхук не найден")}`);
+    return;
+  }
+  enqueueWebhookPing(webhookId, getAdminActor(req));
+  res.redirect(`/admin/webhooks?webhook=${webhookId}&success=${encodeURIComponent("Тестовое событие ping поставлено в очередь")}`);
+});
+
+app.post("/admin/webhooks/:id/delete", requireAdmin, requirePermission("site.manage"), (req, res) => {
+  const webhookId = readWebhookId(req);
+  if (!webhookId || !deleteWebhook(webhookId)) {
+    res.redirect(`/admin/webhooks?error=${encodeURIComponent("Вебхук не найден")}`);
+    return;
+  }
+  auditAdminAction(req, "webhook.deleted", String(webhookId));
+  res.redirect(`/admin/webhooks?success=${encodeURIComponent("Вебхук и журнал его доставок удалены")}`);
+});
+
+app.post("/admin/webhooks/deliveries/:id/retry", requireAdmin, requirePermission("site.manage"), (req, res) => {
+  const deliveryId = Number(req.params.id);
+  if (!Number.isInteger(deliveryId) || !retryWebhookDelivery(deliveryId)) {
+    res.redirect(`/admin/webhooks?error=${encodeURIComponent("Доставку можно повторить только после окончательной ошибки")}`);
+    return;
+  }
+  auditAdminAction(req, "webhook.delivery_retried", String(deliveryId));
+  res.redirect(`/admin/webhooks?success=${encodeURIComponent(`Доставка #${deliveryId} снова в очереди`)}`);
+});
+
+function renderAccountPage(req: RequestLike, res: ResponseLike, extra: { recoveryCodes?: string[]; error?: string } = {}): void {
+  const user = req.adminUser as AdminUser;
+  const setupSecret = !user.totpEnabled ? String(req.session?.totpSetupSecret || "") : "";
+  const otpauthUrl = setupSecret ? buildOtpauthUrl(TOTP_ISSUER, user.username, setupSecret) : "";
+
+  res.status(extra.error ? 400 : 200).render("admin/account", {
+    page: "admin-account",
+    passwordMinLength: PASSWORD_MIN_LENGTH,
+    recoveryCodesLeft: user.totpEnabled ? countUnusedRecoveryCodes(user.id) : 0,
+    recoveryCodes: extra.recoveryCodes || [],
+    sessions: listActiveSessions(user.id),
+    currentSessionHandle: getSessionHandle(String(req.sessionID)),
+    totpSetup: setupSecret ? { secret: setupSecret, qrSvg: renderQrSvg(otpauthUrl) } : null,
+    success: req.query.success || "",
+    error: extra.error || req.query.error || "",
+    meta: {
+      title: "Мой аккаунт | White Lab",
+      description: "Учётная запись панели управления White Lab",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/account`
+    }
+  });
+}
+
+app.get("/admin/account", requireAdmin, (req, res) => {
+  renderAccountPage(req, res);
+});
+
+app.post("/admin/account/sessions/:handle/revoke", requireAdmin, (req, res) => {
+  const user = req.adminUser as AdminUser;
+  if (req.params.handle === getSessionHandle(String(req.sessionID))) {
+    req.session.destroy(() => {
+      res.redirect("/admin/login");
+    });
+    return;
+  }
+
+  if (!revokeSession(req.params.handle, user.id)) {
+    res.redirect(`/admin/account?error=${encodeURIComponent("Сеанс уже завершён")}#sessions`);
+    return;
+  }
+  auditAdminAction(req, "session.revoked", user.username);
+  res.redirect(`/admin/account?success=${encodeURIComponent("Сеанс завершён")}#sessions`);
+});
+
+app.post("/admin/account/sessions/revoke-all", requireAdmin, (req, res) => {
+  const user = req.adminUser as AdminUser;
+  const revoked = revokeUserSessions(user.id);
+  auditAdminAction(req, "session.revoked_all", user.username, { count: revoked });
+  req.session.destroy(() => {
+    res.redirect("/admin/login");
+  });
+});
+
+app.post("/admin/account/2fa/start", requireAdmin, (req, res) => {
+  if (!req.adminUser?.totpEnabled) {
+    req.session.totpSetupSecret = generateTotpSecret();
+  }
+  res.redirect("/admin/account#two-factor");
+});
+
+app.post("/admin/account/2fa/cancel", requireAdmin, (req, res) => {
+  req.session.totpSetupSecret = undefined;
+  res.redirect("/admin/account#two-factor");
+});
+
+app.post("/admin/account/2fa/enable", requireAdmin, (req, res) => {
+  try {
+    const user = req.adminUser as AdminUser;
+    const secret = String(req.session?.totpSetupSecret || "");
+    if (!secret) {
+      throw new Error("Настройка не начата или устарела, начните заново");
+    }
+
+    const recoveryCodes = enableAdminUserTotp(user.id, secret, String(req.body.code || ""));
+    req.session.totpSetupSecret = undefined;
+    auditAdminAction(req, "totp.enabled", user.username);
+    req.adminUser = getAdminUser(user.id) as AdminUser;
+    res.locals.currentUser = req.adminUser;
+    renderAccountPage(req, res, { recoveryCodes });
+  } catch (error) {
+    renderAccountPage(req, res, { error: getErrorMessage(error, "Ошибка включения двухфакторной аутентификации") });
+  }
+});
+
+app.post("/admin/account/2fa/disable", requireAdmin, async (req, res) => {
+  try {
+    const user = req.adminUser as AdminUser;
+    if (!(await verifyAdminUserPassword(user.id, String(req.body.current_password || "")))) {
+      throw new Error("Текущий пароль указан неверно");
+    }
+    disableAdminUserTotp(user.id);
+    auditAdminAction(req, "totp.disabled", user.username);
+    res.redirect(`/admin/account?success=${encodeURIComponent("Двухфакторная аутентификация выключена")}`);
+  } catch (error) {
+    res.redirect(`/admin/account?error=${encodeURIComponent(getErrorMessage(error, "Ошибка выключения"))}#two-factor`);
+  }
+});
+
+app.post("/admin/account/2fa/recovery-codes", requireAdmin, async (req, res) => {
+  try {
+    const user = req.adminUser as AdminUser;
+    if (!(await verifyAdminUserPassword(user.id, String(req.body.current_password || "")))) {
+      throw new Error("Текущий пароль указан неверно");
+    }
+    const recoveryCodes = regenerateRecoveryCodes(user.id);
+    auditAdminAction(req, "totp.recovery_codes_regenerated", user.username);
+    renderAccountPage(req, res, { recoveryCodes });
+  } catch (error) {
+    res.redirect(`/admin/account?error=${encodeURIComponent(getErrorMessage(error, "Ошибка выпуска кодов"))}#two-factor`);
+  }
+});
+
+app.post("/admin/account/password", requireAdmin, async (req, res) => {
+  try {
+    const user = req.adminUser as AdminUser;
+    if (!(await verifyAdminUserPassword(user.id, String(req.body.current_password || "")))) {
+      throw new Error("Текущий пароль указан неверно");
+    }
+    if (String(req.body.password || "") !== String(req.body.password_confirm || "")) {
+      throw new Error("Пароли не совпадают");
+    }
+    await setAdminUserPassword(user.id, String(req.body.password || ""));
+    const revoked = revokeUserSessions(user.id, getSessionHandle(String(req.sessionID)));
+    const message = revoked ? `Пароль изменён, завершено других сеансов: ${revoked}` : "Пароль изменён";
+    res.redirect(`/admin/account?success=${encodeURIComponent(message)}`);
+  } catch (error) {
+    res.redirect(`/admin/account?error=${encodeURIComponent(getErrorMessage(error, "Ошибка смены пароля"))}`);
+  }
+});
+
+async function renderDashboard(
+  req: RequestLike,
+  res: ResponseLike,
+  options: { site?: SiteData; media?: MediaItem[]; issues?: ValidationIssue[]; statusCode?: number } = {}
+): Promise<void> {
+  const vm = await buildViewModel(req, { draft: true, site: options.site, media: options.media });
+  const mediaJobs = listMediaJobs(MEDIA_JOB_STREAM_SIZE).map((job) => describeMediaJobForAdmin(job, vm.media || []));
+  const [draftStatus, quarantined] = await Promise.all([getDraftStatus(), listQuarantinedFiles()]);
+  const issues = options.issues || [];
+
+  if (options.statusCode) {
+    res.status(options.statusCode);
+  }
+
+  res.render("admin/dashboard", {
+    ...vm,
+    mediaJobs,
+    quarantined,
+    consistencyIssues: (getConsistencyReport()?.entries || []).filter((entry) => entry.status !== "ok"),
+    validationIssues: issues,
+    fieldIssues: issues.map(mapIssueToFormField),
+    siteVersion: getContentVersion("site:draft"),
+    mediaVersion: getContentVersion("media:draft"),
+    draftStatus,
+    previewEnabled: Boolean(req.session?.preview),
+    previewLink: typeof req.query.preview_link === "string" ? req.query.preview_link : "",
+    page: "admin",
+    success: req.query.success || "",
+    error: req.query.error || "",
+    serializedServices: JSON.stringify(vm.site?.services || [], null, 2),
+    serializedFaq: JSON.stringify(vm.site?.faq || [], null, 2),
+    factsText: (vm.site?.about?.facts || []).join("\n"),
+    advantagesText: (vm.site?.advantages || []).join("\n"),
+    sourceLinksText: (vm.site?.sourceLinks || []).join("\n"),
+    sectionProcessStepsText: (vm.site?.sections?.process?.steps || []).join("\n"),
+    meta: {
+      title: "Панель управления | White Lab",
+      description: "Управление контентом White Lab",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin`
+    }
+  });
+}
+
+async function respondValidationFailed(
+  req: RequestLike,
+  res: ResponseLike,
+  error: Error & { issues: ValidationIssue[] },
+  submitted: SiteData | null
+): Promise<void> {
+  if (wantsJson(req)) {
+    res.status(422).json({
+      error: {
+        code: "validation_failed",
+        message: error.message,
+        details: { issues: error.issues }
+      }
+    });
+    return;
+  }
+
+  await renderDashboard(req, res, { site: submitted || undefined, issues: error.issues, statusCode: 422 });
+}
+
+app.get("/admin", requireAdmin, requirePermission("content.view"), async (req, res, next) => {
+  try {
+    await renderDashboard(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post("/admin/content", requireAdmin, requirePermission("content.edit"), async (req, res) => {
+  let next: SiteData | null = null;
+  try {
+    const expectedVersion = readExpectedVersion(req, "content_version");
+    const current = await loadDraftSite();
+    const currentSections = normalizeSections(current);
+    const processStepsInput = toArrayFromTextarea(req.body.section_process_steps);
+
+    next = {
+      ...current,
+      seo: {
+        ...current.seo,
+        title: req.body.seo_title,
+        description: req.body.seo_description,
+        keywords: req.body.seo_keywords,
+        ogTitle: req.body.seo_og_title,
+        ogDescription: req.body.seo_og_description
+      },
+      brand: {
+        ...current.brand,
+        name: req.body.brand_name,
+        legalName: req.body.brand_legal_name,
+        category: req.body.brand_category,
+        city: req.body.brand_city,
+        address: req.body.brand_address,
+        postalCode: req.body.brand_postal_code,
+        region: req.body.brand_region,
+        country: req.body.brand_country,
+        phoneDisplay: req.body.brand_phone_display,
+        phoneValue: req.body.brand_phone_value,
+        email: req.body.brand_email,
+        workHours: req.body.brand_work_hours,
+        workHoursIso: req.body.brand_work_hours_iso,
+        instagram: req.body.brand_instagram,
+        orderLink: req.body.brand_order_link,
+        map2gis: req.body.brand_map_2gis,
+        mapYandex: req.body.brand_map_yandex,
+        coordinates: {
+          lat: Number(req.body.brand_lat || current?.brand?.coordinates?.lat || 0),
+          lng: Number(req.body.brand_lng || current?.brand?.coordinates?.lng || 0)
+        }
+      },
+      hero: {
+        ...current.hero,
+        badge: req.body.hero_badge,
+        title: req.body.hero_title,
+        subtitle: req.body.hero_subtitle,
+        primaryCta: {
+          text: req.body.hero_primary_text,
+          url: req.body.hero_primary_url
+        },
+        secondaryCta: {
+          text: req.body.hero_secondary_text,
+          url: req.body.hero_secondary_url
+        }
+      },
+      about: {
+        ...current.about,
+        title: req.body.about_title,
+        text: req.body.about_text,
+        facts: toArrayFromTextarea(req.body.about_facts)
+      },
+      advantages: toArrayFromTextarea(req.body.advantages),
+      services: parseJsonField(req.body.services_json, current.services || [], "Услуги", "services"),
+      faq: parseJsonField(req.body.faq_json, current.faq || [], "ЧаВо", "faq"),
+      sourceLinks: toArrayFromTextarea(req.body.source_links),
+      sections: {
+        ...currentSections,
+        order: resolveSectionOrderFromForm(req.body),
+        services: {
+          ...currentSections.services,
+          title: req.body.section_services_title || currentSections.services.title,
+          description: req.body.section_services_description || currentSections.services.description,
+          ...resolveSectionVisibilityFromForm(req.body, "services", currentSections.services)
+        },
+        process: {
+          ...currentSections.process,
+          title: req.body.section_process_title || currentSections.process.title,
+          description: req.body.section_process_description || currentSections.process.description,
+          steps: processStepsInput.length > 0 ? processStepsInput : currentSections.process.steps,
+          ...resolveSectionVisibilityFromForm(req.body, "process", currentSections.process)
+        },
+        materials: {
+          ...currentSections.materials,
+          title: req.body.section_materials_title || currentSections.materials.title,
+          description: req.body.section_materials_description || currentSections.materials.description,
+          ...resolveSectionVisibilityFromForm(req.body, "materials", currentSections.materials)
+        },
+        about: {
+          ...currentSections.about,
+          title: req.body.section_about_title || currentSections.about.title,
+          description: req.body.section_about_description || currentSections.about.description,
+          ...resolveSectionVisibilityFromForm(req.body, "about", currentSections.about)
+        },
+        gallery: {
+          ...currentSections.gallery,
+          title: req.body.section_gallery_title || currentSections.gallery.title,
+          description: req.body.section_gallery_description || currentSections.gallery.description,
+          ...resolveSectionVisibilityFromForm(req.body, "gallery", currentSections.gallery)
+        },
+        contacts: {
+          ...currentSections.contacts,
+          title: req.body.section_contacts_title || currentSections.contacts.title,
+          ...resolveSectionVisibilityFromForm(req.body, "contacts", currentSections.contacts)
+        }
+      },
+      metrics: {
+        ...current.metrics,
+        instagramFollowers: Number(req.body.metric_instagram_followers || 0),
+        instagramPosts: Number(req.body.metric_instagram_posts || 0),
+        instagramHighlights: Number(req.body.metric_instagram_highlights || 0),
+        twoGisRating: Number(req.body.metric_2gis_rating || 0),
+        twoGisReviews: Number(req.body.metric_2gis_reviews || 0)
+      }
+    };
+
+    const version = await saveDraftSite(next, { author: getAdminActor(req), summary: "Контент и SEO", expectedVersion });
+    respondSaved(req, res, "site:draft", version, "/admin?success=Черновик контента сохранён");
+  } catch (error) {
+    if (error instanceof ContentConflictError) {
+      await respondContentConflict(req, res, error, next);
+      return;
+    }
+    if (error instanceof ContentValidationError) {
+      await respondValidationFailed(req, res, error, next);
+      return;
+    }
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка сохранения"));
+    res.redirect(`/admin?error=${message}`);
+  }
+});
+
+// Job state changes for the open dashboards. Listeners live only as long as their event stream.
+const mediaJobEvents = new EventEmitter();
+mediaJobEvents.setMaxListeners(0);
+const MEDIA_JOB_STREAM_SIZE = 40;
+const MEDIA_JOB_STREAM_HEARTBEAT_MS = 25_000;
+
+// The API fields of a job plus a preview of the media it produced, if it is still in the draft.
+function describeMediaJobForAdmin(job: MediaJob, media: MediaItem[]): Record<string, unknown> {
+  const item = job.mediaId ? media.find((entry) => entry.id === job.mediaId) : undefined;
+  return {
+    ...serializeMediaJob(job),
+    media: item ? { id: item.id, type: item.type, title: item.title || item.alt, src: item.localOptimized } : null
+  };
+}
+
+async function announceMediaJob(jobId: number): Promise<void> {
+  const job = getMediaJob(jobId);
+  if (!job || !mediaJobEvents.listenerCount("job")) {
+    return;
+  }
+  mediaJobEvents.emit("job", describeMediaJobForAdmin(job, job.mediaId ? await loadDraftMedia() : []));
+}
+
+// The stream outlives the request that opened it, so the login is checked again before every
+// event and heartbeat: a revoked session, a disabled account or a lost permission ends the stream.
+async function isEventStreamAllowed(req: RequestLike, permission: AdminPermission): Promise<boolean> {
+  const userId = Number(req.session?.userId || 0);
+  const stored = await new Promise<{ userId?: number } | null>((resolve) => {
+    sessionStore.get(String(req.sessionID || ""), (error: unknown, data?: { userId?: number } | null) => {
+      resolve(error ? null : data || null);
+    });
+  });
+  if (!userId || Number(stored?.userId || 0) !== userId) {
+    return false;
+  }
+  const user = getAdminUser(userId);
+  return Boolean(user && !user.disabled && hasPermission(user.role, permission));
+}
+
+// Server-Sent Events: a snapshot of the latest jobs on every (re)connect, then one `job` event
+// per state change. `no-transform` keeps the compression middleware from buffering the stream.
+app.get("/admin/media-jobs/events", requireAdmin, requirePermission("content.view"), async (req, res) => {
+  res.status(200).set({
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    "X-Accel-Buffering": "no"
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  const close = () => {
+    closed = true;
+    clearInterval(heartbeat);
+    mediaJobEvents.off("job", onJob);
+  };
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  // The client closes its EventSource on an `error` event with data instead of reconnecting.
+  const fail = (code: string, message: string) => {
+    send("error", { code, message });
+    close();
+    res.end();
+  };
+  // Writes go through one chain so that events keep their order around the asynchronous check.
+  let pending = Promise.resolve();
+  const deliver = (write: () => void) => {
+    pending = pending.then(async () => {
+      if (closed) {
+        return;
+      }
+      if (!(await isEventStreamAllowed(req, "content.view"))) {
+        fail("unauthorized", "Сеанс завершён, войдите снова");
+        return;
+      }
+      write();
+    });
+  };
+  const onJob = (job: Record<string, unknown>) => deliver(() => send("job", job));
+  const heartbeat = setInterval(() => deliver(() => res.write(": ping\n\n")), MEDIA_JOB_STREAM_HEARTBEAT_MS);
+  req.on("close", close);
+
+  mediaJobEvents.on("job", onJob);
+  res.write("retry: 3000\n\n");
+  try {
+    const media = await loadDraftMedia();
+    deliver(() => send("snapshot", listMediaJobs(MEDIA_JOB_STREAM_SIZE).map((job) => describeMediaJobForAdmin(job, media))));
+  } catch (error) {
+    console.error(`[media-jobs] event stream snapshot failed: ${getErrorMessage(error, "unknown error")}`);
+    fail("snapshot_failed", "Не удалось загрузить список задач, обновите страницу");
+  }
+});
+
+// The dashboard submits these forms with fetch and follows the job over the event stream;
+// without JavaScript they still post normally and redirect back.
+async function respondMediaJobQueued(req: RequestLike, res: ResponseLike, jobId: number, message: string): Promise<void> {
+  await announceMediaJob(jobId);
+  if (wantsJson(req)) {
+    res.status(202).json({ data: describeMediaJobForAdmin(getMediaJob(jobId) as MediaJob, []) });
+    return;
+  }
+  res.redirect(`/admin?success=${encodeURIComponent(message)}`);
+}
+
+function respondMediaJobRejected(req: RequestLike, res: ResponseLike, message: string): void {
+  if (wantsJson(req)) {
+    sendApiError(res, 400, "bad_request", message);
+    return;
+  }
+  res.redirect(`/admin?error=${encodeURIComponent(message)}`);
+}
+
+app.post("/admin/media/import", requireAdmin, requirePermission("media.edit"), async (req, res) => {
+  try {
+    const { import_url: importUrl, import_title: importTitle } = req.body;
+    if (!importUrl) {
+      throw new Error("Укажите URL для импорта");
+    }
+
+    const jobId = enqueueMediaJob("import_url", {
+      url: String(importUrl),
+      title: String(importTitle || "")
+    });
+
+    await respondMediaJobQueued(req, res, jobId, `Импорт поставлен в очередь (задача #${jobId})`);
+  } catch (error) {
+    respondMediaJobRejected(req, res, getErrorMessage(error, "Ошибка импорта"));
+  }
+});
+
+// Per-type limits are checked by the media worker once the format is known; multer only
+// enforces the largest of them so an oversized body is cut off while it is still streaming.
+const receiveMediaUpload: import("express").RequestHandler = (req, res, next) => {
+  upload.single("media_file")(req, res, (error: unknown) => {
+    if ((error as { code?: string } | undefined)?.code === "LIMIT_FILE_SIZE") {
+      const limitMb = Math.round(MEDIA_UPLOAD_MAX_BYTES / 1024 / 1024);
+      if (wantsJson(req)) {
+        res.status(413).json({ error: { code: "payload_too_large", message: `Файл больше ${limitMb} МБ`, details: { limitMb } } });
+        return;
+      }
+      res.redirect(`/admin?error=${encodeURIComponent(`Файл больше ${limitMb} МБ`)}`);
+      return;
+    }
+    next(error);
+  });
+};
+
+app.post("/admin/media/upload", requireAdmin, requirePermission("media.edit"), receiveMediaUpload, async (req, res) => {
+  try {
+    if (!req.file) {
+      throw new Error("Файл не выбран");
+    }
+
+    const jobId = enqueueMediaJob("upload_file", {
+      path: req.file.path,
+      originalname: req.file.originalname,
+      mimetype: req.file.mimetype,
+      title: String(req.body.upload_title || "")
+    });
+
+    await respondMediaJobQueued(req, res, jobId, `Файл поставлен в очередь обработки (#${jobId})`);
+  } catch (error) {
+    if (req.file?.path) {
+      await fs.unlink(req.file.path).catch(() => {});
+    }
+    respondMediaJobRejected(req, res, getErrorMessage(error, "Ошибка загрузки"));
+  }
+});
+
+app.post("/admin/services", requireAdmin, requirePermission("content.edit"), async (req, res) => {
+  let submitted: SiteData | null = null;
+  try {
+    const expectedVersion = readExpectedVersion(req, "content_version");
+    const current = await loadDraftSite();
+    const existingBySlug = new Map((current.services || []).map((item) => [item.slug, item]));
+
+    const slugs = toArrayField(req.body.service_slug).map((value) => String(value || "").trim());
+    const titles = toArrayField(req.body.service_title).map((value) => String(value || "").trim());
+    const shorts = toArrayField(req.body.service_short).map((value) => String(value || "").trim());
+    const descriptions = toArrayField(req.body.service_description).map((value) => String(value || "").trim());
+    const materialsRaw = toArrayField(req.body.service_materials);
+    const mediaIdsRaw = toArrayField(req.body.service_media_ids);
+    const maxLength = Math.max(slugs.length, titles.length, shorts.length, descriptions.length, materialsRaw.length, mediaIdsRaw.length);
+    const nextServices = [];
+
+    for (let index = 0; index < maxLength; index += 1) {
+      const slug = slugs[index] || "";
+      const title = titles[index] || "";
+
+      if (!slug && !title) {
+        continue;
+      }
+
+      if (!slug || !title) {
+        throw new Error(`Строка услуги #${index + 1}: обязательны slug и title.`);
+      }
+
+      const previous = existingBySlug.get(slug) || {};
+      nextServices.push({
+        ...previous,
+        slug,
+        title,
+        short: shorts[index] || "",
+        description: descriptions[index] || "",
+        materials: toArrayFromTextarea(materialsRaw[index]),
+        mediaIds: toArrayFromTextarea(mediaIdsRaw[index])
+      });
+    }
+
+    if (!nextServices.length) {
+      throw new Error("Нужно указать хотя бы одну услугу.");
+    }
+
+    submitted = {
+      ...current,
+      services: nextServices
+    };
+    const version = await saveDraftSite(submitted, {
+      author: getAdminActor(req),
+      summary: `Страницы услуг (${nextServices.length})`,
+      expectedVersion
+    });
+
+    respondSaved(req, res, "site:draft", version, "/admin?success=Черновик страниц услуг сохранён");
+  } catch (error) {
+    if (error instanceof ContentConflictError) {
+      await respondContentConflict(req, res, error, submitted);
+      return;
+    }
+    if (error instanceof ContentValidationError) {
+      await respondValidationFailed(req, res, error, submitted);
+      return;
+    }
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка сохранения услуг"));
+    res.redirect(`/admin?error=${message}`);
+  }
+});
+
+app.post("/admin/media/update-meta", requireAdmin, requirePermission("media.edit"), async (req, res) => {
+  const mediaId = String(req.body.media_id || "").trim();
+  const patch = {
+    title: String(req.body.media_title || "").trim(),
+    alt: String(req.body.media_alt || "").trim()
+  };
+  try {
+    const expectedVersion = readExpectedVersion(req, "media_version");
+    if (!mediaId) {
+      throw new Error("Не выбран идентификатор медиа");
+    }
+
+    const version = await updateDraftMediaItem(mediaId, patch, {
+      author: getAdminActor(req),
+      summary: `Метаданные медиа ${mediaId}`,
+      expectedVersion
+    });
+    respondSaved(req, res, "media:draft", version, "/admin?success=Метаданные медиа сохранены в черновик");
+  } catch (error) {
+    if (error instanceof ContentConflictError) {
+      const media = await loadDraftMedia();
+      const submitted = media.map((item) => (item.id === mediaId ? { ...item, ...patch } : item));
+      await respondContentConflict(req, res, error, submitted);
+      return;
+    }
+    if (error instanceof ContentValidationError) {
+      if (wantsJson(req)) {
+        await respondValidationFailed(req, res, error, null);
+        return;
+      }
+      // Item issues are relative to the item; address them by its card so the form marks that card's inputs.
+      const media = await loadDraftMedia();
+      const index = media.findIndex((item) => item.id === mediaId);
+      const submitted = media.map((item) => (item.id === mediaId ? { ...item, ...patch } : item));
+      const issues = error.issues.map((issue: ValidationIssue) => ({ ...issue, path: `media[${index}].${issue.path}` }));
+      await renderDashboard(req, res, { media: submitted, issues, statusCode: 422 });
+      return;
+    }
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка обновления медиа"));
+    res.redirect(`/admin?error=${message}`);
+  }
+});
+
+app.post("/admin/media/delete", requireAdmin, requirePermission("media.edit"), async (req, res) => {
+  const mediaId = String(req.body.media_id || "").trim();
+  try {
+    const expectedVersion = readExpectedVersion(req, "media_version");
+    if (!mediaId) {
+      throw new Error("Не выбран идентификатор медиа");
+    }
+
+    // Files stay on disk until publish: the live site may still show this item.
+    const version = await removeDraftMediaItem(mediaId, {
+      author: getAdminActor(req),
+      summary: `Удаление медиа ${mediaId}`,
+      expectedVersion
+    });
+
+    respondSaved(req, res, "media:draft", version, "/admin?success=Медиа удалено из черновика");
+  } catch (error) {
+    if (error instanceof ContentConflictError) {
+      const media = await loadDraftMedia();
+      await respondContentConflict(req, res, error, media.filter((entry) => entry.id !== mediaId));
+      return;
+    }
+    if (error instanceof ContentValidationError && wantsJson(req)) {
+      await respondValidationFailed(req, res, error, null);
+      return;
+    }
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка удаления"));
+    res.redirect(`/admin?error=${message}`);
+  }
+});
+
+interface PublishedContent {
+  site: SiteData;
+  media: MediaItem[];
+}
+
+async function loadPublishedContent(): Promise<PublishedContent> {
+  const [site, media] = await Promise.all([loadSite(), loadMedia()]);
+  return { site, media };
+}
+
+// Compares the live content before and after a publish, restore or import and queues webhook
+// events for what changed. The change is already live, so a failure here is only logged.
+async function announcePublishedChanges(req: RequestLike, before: PublishedContent): Promise<void> {
+  try {
+    const after = await loadPublishedContent();
+    const baseUrl = getBaseUrl(req);
+    const author = getAdminActor(req);
+    const siteKeys = [...new Set([...Object.keys(before.site), ...Object.keys(after.site)])] as Array<keyof SiteData>;
+    const changed = siteKeys.filter((key) => JSON.stringify(before.site[key]) !== JSON.stringify(after.site[key]));
+    if (changed.length) {
+      enqueueWebhookEvent("site.updated", { changed, author });
+    }
+
+    if (changed.includes("services")) {
+      const previous = new Map((before.site.services || []).map((service) => [service.slug, JSON.stringify(service)]));
+      const current = after.site.services || [];
+      enqueueWebhookEvent("services.updated", {
+        added: current.filter((service) => !previous.has(service.slug)).map((service) => service.slug),
+        removed: [...previous.keys()].filter((slug) => !current.some((service) => service.slug === slug)),
+        changed: current
+          .filter((service) => previous.has(service.slug) && previous.get(service.slug) !== JSON.stringify(service))
+          .map((service) => service.slug),
+        services: current.map((service) => toPublicService(baseUrl, service)),
+        author
+      });
+    }
+
+    const previousMedia = new Set(before.media.map((item) => item.id));
+    const currentMedia = new Set(after.media.map((item) => item.id));
+    for (const item of after.media.filter((entry) => !previousMedia.has(entry.id))) {
+      enqueueWebhookEvent("media.created", { media: toPublicMediaItem(baseUrl, item), author });
+    }
+    for (const item of before.media.filter((entry) => !currentMedia.has(entry.id))) {
+      enqueueWebhookEvent("media.deleted", { media: { id: item.id, type: item.type, title: item.title }, author });
+    }
+  } catch (error) {
+    console.error(`[webhooks] failed to queue content events: ${getErrorMessage(error, "unknown error")}`);
+  }
+}
+
+app.post("/admin/publish", requireAdmin, requirePermission("content.publish"), async (req, res) => {
+  try {
+    const before = await loadPublishedContent();
+    const result = await publishDrafts({ author: getAdminActor(req) });
+    if (!result.site && !result.media) {
+      res.redirect(`/admin?success=${encodeURIComponent("Нет неопубликованных изменений")}`);
+      return;
+    }
+
+    invalidatePageCache("page:");
+    await removeMediaFiles(result.removedMedia);
+    await announcePublishedChanges(req, before);
+    res.redirect(`/admin?success=${encodeURIComponent("Черновик опубликован")}`);
+  } catch (error) {
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка публикации"));
+    res.redirect(`/admin?error=${message}`);
+  }
+});
+
+app.post("/admin/draft/discard", requireAdmin, requirePermission("content.edit"), async (req, res) => {
+  try {
+    const result = await discardDrafts({ author: getAdminActor(req) });
+    const message = result.site || result.media ? "Черновик сброшен к опубликованной версии" : "Черновик совпадает с опубликованной версией";
+    res.redirect(`/admin?success=${encodeURIComponent(message)}`);
+  } catch (error) {
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка сброса черновика"));
+    res.redirect(`/admin?error=${message}`);
+  }
+});
+
+app.post("/admin/preview", requireAdmin, requirePermission("content.view"), (req, res) => {
+  req.session.preview = String(req.body.enabled || "") === "1";
+  res.redirect(req.session.preview ? "/" : "/admin");
+});
+
+app.post("/admin/preview-link", requireAdmin, requirePermission("content.publish"), (req, res) => {
+  const token = createPreviewToken(Date.now() + Math.max(60_000, PREVIEW_LINK_TTL_MS));
+  const link = `${getBaseUrl(req)}/?preview=${encodeURIComponent(token)}`;
+  res.redirect(`/admin?success=${encodeURIComponent("Ссылка предпросмотра создана")}&preview_link=${encodeURIComponent(link)}`);
+});
+
+app.get("/admin/revisions", requireAdmin, requirePermission("content.view"), async (req, res, next) => {
+  try {
+    const key = ["site", "media", "site:draft", "media:draft"].includes(String(req.query.key))
+      ? (String(req.query.key) as StoreKey)
+      : undefined;
+
+    res.render("admin/revisions", {
+      page: "admin-revisions",
+      revisions: listContentRevisions(key, 150),
+      filterKey: key || "",
+      success: req.query.success || "",
+      error: req.query.error || "",
+      meta: {
+        title: "История изменений | White Lab",
+        description: "Ревизии контента и медиатеки White Lab",
+        noindex: true,
+        canonical: `${getBaseUrl(req)}/admin/revisions`
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/admin/revisions/:id", requireAdmin, requirePermission("content.view"), async (req, res, next) => {
+  try {
+    const revision = getContentRevision(Number(req.params.id));
+    if (!revision) {
+      res.redirect(`/admin/revisions?error=${encodeURIComponent("Ревизия не найдена")}`);
+      return;
+    }
+
+    res.render("admin/revision", {
+      page: "admin-revision",
+      revision,
+      serializedValue: JSON.stringify(revision.value, null, 2),
+      meta: {
+        title: `Ревизия #${revision.id} | White Lab`,
+        description: "Просмотр ревизии контента White Lab",
+        noindex: true,
+        canonical: `${getBaseUrl(req)}/admin/revisions/${revision.id}`
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post("/admin/revisions/:id/restore", requireAdmin, requirePermission("content.publish"), async (req, res) => {
+  try {
+    const revisionId = Number(req.params.id);
+    if (!Number.isInteger(revisionId) || revisionId <= 0) {
+      throw new Error("Некорректный номер ревизии");
+    }
+
+    const before = await loadPublishedContent();
+    const revision = await restoreContentRevision(revisionId, { author: getAdminActor(req) });
+    invalidatePageCache("page:");
+    await announcePublishedChanges(req, before);
+    res.redirect(`/admin/revisions?success=${encodeURIComponent(`Восстановлена ревизия #${revision.id}`)}`);
+  } catch (error) {
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка восстановления ревизии"));
+    res.redirect(`/admin/revisions?error=${message}`);
+  }
+});
+
+// Uploaded bundles wait in uploads/ under a random token until the preview is confirmed or cancelled.
+function resolvePendingBundlePath(token: unknown): string {
+  const value = String(token || "");
+  if (!/^[a-f0-9]{32}$/.test(value)) {
+    throw new Error("Пакет для импорта не найден, загрузите его заново");
+  }
+  return path.join(uploadsDir, `bundle-${value}.tar.gz`);
+}
+
+app.get("/admin/bundle/export", requireAdmin, requirePermission("site.manage"), async (req, res, next) => {
+  try {
+    const { archive, manifest } = await createSiteBundle();
+    const stamp = manifest.createdAt.slice(0, 16).replace(/[-:]/g, "").replace("T", "-");
+    res.set("Content-Type", "application/gzip");
+    res.set("Content-Disposition", `attachment; filename="white-lab-bundle-${stamp}.tar.gz"`);
+    res.send(archive);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post("/admin/bundle/preview", requireAdmin, requirePermission("site.manage"), bundleUpload.single("bundle_file"), async (req, res) => {
+  try {
+    if (!req.file) {
+      throw new Error("Файл пакета не выбран");
+    }
+
+    const bundle = readSiteBundle(await fs.readFile(req.file.path));
+    const preview = await previewSiteBundle(bundle);
+    const token = crypto.randomBytes(16).toString("hex");
+    await fs.rename(req.file.path, resolvePendingBundlePath(token));
+
+    res.render("admin/bundle-preview", {
+      page: "admin-bundle",
+      token,
+      manifest: bundle.manifest,
+      preview,
+      meta: {
+        title: "Импорт пакета сайта | White Lab",
+        description: "Проверка пакета сайта перед импортом",
+        noindex: true,
+        canonical: `${getBaseUrl(req)}/admin`
+      }
+    });
+  } catch (error) {
+    if (req.file?.path) {
+      await fs.unlink(req.file.path).catch(() => {});
+    }
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка проверки пакета"));
+    res.redirect(`/admin?error=${message}#admin-bundle`);
+  }
+});
+
+app.post("/admin/bundle/apply", requireAdmin, requirePermission("site.manage"), async (req, res) => {
+  try {
+    const bundlePath = resolvePendingBundlePath(req.body.bundle_token);
+    const archive = await fs.readFile(bundlePath).catch(() => null);
+    if (!archive) {
+      throw new Error("Пакет для импорта не найден, загрузите его заново");
+    }
+
+    // The archive is verified again: the preview only proves what it looked like at upload time.
+    const bundle = readSiteBundle(archive);
+    const before = await loadPublishedContent();
+    await applySiteBundle(bundle, { author: getAdminActor(req) });
+    await fs.unlink(bundlePath).catch(() => {});
+    invalidatePageCache("page:");
+    await announcePublishedChanges(req, before);
+    auditAdminAction(req, "bundle.applied", bundle.manifest.createdAt, { mediaCount: bundle.manifest.mediaCount });
+    res.redirect(`/admin?success=${encodeURIComponent(`Пакет от ${bundle.manifest.createdAt} импортирован`)}`);
+  } catch (error) {
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка импорта пакета"));
+    res.redirect(`/admin?error=${message}#admin-bundle`);
+  }
+});
+
+app.post("/admin/bundle/cancel", requireAdmin, requirePermission("site.manage"), async (req, res) => {
+  try {
+    await fs.unlink(resolvePendingBundlePath(req.body.bundle_token)).catch(() => {});
+  } catch {
+    // Nothing to clean up for a malformed token.
+  }
+  res.redirect("/admin#admin-bundle");
+});
+
+app.get("/admin/backups", requireAdmin, requirePermission("site.manage"), async (req, res, next) => {
+  try {
+    const settings = getBackupSettings();
+    res.render("admin/backups", {
+      page: "admin-backups",
+      backups: await listBackups(),
+      settings: { ...settings, dir: path.relative(process.cwd(), settings.dir) || "." },
+      success: req.query.success || "",
+      error: req.query.error || "",
+      meta: {
+        title: "Резервные копии | White Lab",
+        description: "Резервные копии базы данных White Lab",
+        noindex: true,
+        canonical: `${getBaseUrl(req)}/admin/backups`
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post("/admin/backups", requireAdmin, requirePermission("site.manage"), async (req, res) => {
+  try {
+    const backup = await createBackup("manual");
+    auditAdminAction(req, "backup.created", backup.file);
+    res.redirect(`/admin/backups?success=${encodeURIComponent(`Создана копия ${backup.file}`)}`);
+  } catch (error) {
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка резервного копирования"));
+    res.redirect(`/admin/backups?error=${message}`);
+  }
+});
+
+app.get("/admin/backups/:file/download", requireAdmin, requirePermission("site.manage"), async (req, res) => {
+  try {
+    const filePath = resolveBackupPath(req.params.file);
+    await fs.access(filePath);
+    res.download(filePath, req.params.file);
+  } catch {
+    res.redirect(`/admin/backups?error=${encodeURIComponent("Резервная копия не найдена")}`);
+  }
+});
+
+app.post("/admin/backups/:file/restore", requireAdmin, requirePermission("site.manage"), async (req, res) => {
+  try {
+    const before = await loadPublishedContent();
+    const { safetyBackup, droppedMedia } = await restoreBackup(req.params.file);
+    invalidatePageCache("page:");
+    await announcePublishedChanges(req, before);
+    auditAdminAction(req, "backup.restored", req.params.file, { safetyBackup, droppedMedia });
+    const dropped = droppedMedia.length
+      ? `. Файлы удалены с диска, поэтому из медиатеки убраны: ${droppedMedia.slice(0, 10).join(", ")}` +
+        (droppedMedia.length > 10 ? ` и ещё ${droppedMedia.length - 10}` : "")
+      : "";
+    const message = `Восстановлена копия ${req.params.file}. Состояние до восстановления сохранено в ${safetyBackup}${dropped}`;
+    res.redirect(`/admin/backups?success=${encodeURIComponent(message)}`);
+  } catch (error) {
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка восстановления"));
+    res.redirect(`/admin/backups?error=${message}`);
+  }
+});
+
+app.post("/admin/backups/:file/delete", requireAdmin, requirePermission("site.manage"), async (req, res) => {
+  try {
+    await deleteBackup(req.params.file);
+    auditAdminAction(req, "backup.deleted", req.params.file);
+    res.redirect(`/admin/backups?success=${encodeURIComponent(`Копия ${req.params.file} удалена`)}`);
+  } catch (error) {
+    const message = encodeURIComponent(getErrorMessage(error, "Ошибка удаления копии"));
+    res.redirect(`/admin/backups?error=${message}`);
+  }
+});
+
+// JSON API for scripts and integrations. It edits the same drafts as the forms above, so saves
+// go through the same validation and version checks and the public cache is only reset on publish.
+const ADMIN_API = "/api/admin/v1";
+const API_DEFAULT_PER_PAGE = 20;
+const API_MAX_PER_PAGE = 100;
+const SERVICE_FIELDS = ["slug", "title", "short", "description", "materials", "mediaIds"];
+const FAQ_FIELDS = ["q", "a"];
+
+interface ApiPagination {
+  page: number;
+  perPage: number;
+  total: number;
+  pageCount: number;
+}
+
+function sendApiError(res: ResponseLike, status: number, code: string, message: string, details: Record<string, unknown> = {}): void {
+  res.status(status).json({ error: { code, message, details } });
+}
+
+// Bounds are enforced by the route's query schema; the defaults apply when a value is missing.
+function readPagination(req: RequestLike): { page: number; perPage: number } {
+  const page = Math.floor(Number(req.query.page));
+  const perPage = Math.floor(Number(req.query.per_page));
+  return {
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+    perPage: Number.isFinite(perPage) && perPage > 0 ? Math.min(perPage, API_MAX_PER_PAGE) : API_DEFAULT_PER_PAGE
+  };
+}
+
+function describePage(page: number, perPage: number, total: number): ApiPagination {
+  return { page, perPage, total, pageCount: Math.max(1, Math.ceil(total / perPage)) };
+}
+
+function paginate<T>(req: RequestLike, items: T[]): { data: T[]; pagination: ApiPagination } {
+  const { page, perPage } = readPagination(req);
+  return {
+    data: items.slice((page - 1) * perPage, page * perPage),
+    pagination: describePage(page, perPage, items.length)
+  };
+}
+
+function sendDraftData(res: ResponseLike, key: StoreKey, version: number, body: Record<string, unknown>, status = 200): void {
+  res.status(status).set("ETag", toEtag(key, version)).json({ ...body, version });
+}
+
+function pickFields(body: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (body?.[field] !== undefined) {
+      picked[field] = body[field];
+    }
+  }
+  return picked;
+}
+
+// Upload payloads hold a server path, so only the fields an integration needs leave the API.
+function serializeMediaJob(job: MediaJob): Record<string, unknown> {
+  return {
+    id: job.id,
+    type: job.jobType,
+    status: job.status,
+    attempts: job.attempts,
+    title: String(job.payload?.title || ""),
+    url: job.jobType === "import_url" ? String(job.payload?.url || "") : "",
+    fileName: job.jobType === "upload_file" ? String(job.payload?.originalname || "") : "",
+    lastError: job.lastError,
+    mediaId: job.mediaId,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt
+  };
+}
+
+function readFaqIndex(req: RequestLike, faq: unknown[]): number {
+  const index = Number(req.params.index);
+  return Number.isInteger(index) && index >= 0 && index < faq.length ? index : -1;
+}
+
+async function respondApiFailure(req: RequestLike, res: ResponseLike, error: unknown, submitted: unknown, fallback: string): Promise<void> {
+  if (error instanceof ContentConflictError) {
+    await respondContentConflict(req, res, error, submitted);
+    return;
+  }
+  if (error instanceof ContentValidationError) {
+    await respondValidationFailed(req, res, error, null);
+    return;
+  }
+  sendApiError(res, 400, "bad_request", getErrorMessage(error, fallback));
+}
+
+async function saveSiteFromApi(req: RequestLike, site: SiteData, summary: string): Promise<number> {
+  return saveDraftSite(site, {
+    author: getAdminActor(req),
+    summary: `API: ${summary}`,
+    expectedVersion: readExpectedVersion(req, "version")
+  });
+}
+
+const apiOperations: ApiOperation[] = [];
+
+// Runs after authentication, so anonymous callers get 401/403 before any detail about their input.
+function checkApiRequest(operation: ApiOperation) {
+  return async (req: RequestLike, res: ResponseLike, next: NextLike): Promise<void> => {
+    const issues = validateApiRequest(operation, req);
+    if (!issues.length) {
+      next();
+      return;
+    }
+    if (req.file?.path) {
+      await fs.unlink(req.file.path).catch(() => {});
+    }
+    await respondValidationFailed(req, res, new ContentValidationError(issues), null);
+  };
+}
+
+// Every API route is declared through here: its schemas check the request and describe it in
+// /api/openapi.json, so the document cannot list a rule the route does not enforce. Extra
+// handlers before the last one (e.g. the multipart parser) run between the guards and the check.
+function apiRoute(operation: ApiOperation, ...handlers: import("express").RequestHandler[]): void {
+  apiOperations.push(operation);
+  const handler = handlers.pop() as import("express").RequestHandler;
+  const guards =
+    operation.access === "public"
+      ? []
+      : operation.access === "session"
+        ? [requireAdmin]
+        : [requireAdmin, requirePermission(operation.access as AdminPermission)];
+  app[operation.method](operation.path, ...guards, ...handlers, checkApiRequest(operation), handler);
+}
+
+const apiVersionField = {
+  version: t.optional(t.number({ integer: true, min: 0, description: "Версия черновика, с которой работал клиент (вместо If-Match)" }))
+};
+const apiPageQuery = {
+  page: t.optional(t.number({ integer: true, min: 1, description: "Номер страницы, с 1" })),
+  per_page: t.optional(t.number({ integer: true, min: 1, max: API_MAX_PER_PAGE, description: `Элементов на странице, по умолчанию ${API_DEFAULT_PER_PAGE}` }))
+};
+const apiPaginationSchema = t.object({
+  page: t.number({ integer: true }),
+  perPage: t.number({ integer: true }),
+  total: t.number({ integer: true }),
+  pageCount: t.number({ integer: true })
+});
+const processSectionSchema = sectionsSchema.properties.process as SchemaNode & { properties: Record<string, SchemaNode> };
+const sectionSchema = t.object(processSectionSchema.properties, {
+  description: "Поля раздела; описание есть у всех, кроме contacts, шаги — только у process"
+});
+const faqEntrySchema = t.object({ index: t.number({ integer: true, min: 0 }), ...faqItemSchema.properties });
+const mediaJobSchema = t.object({
+  id: t.number({ integer: true }),
+  type: t.string({ enum: ["import_url", "upload_file"] }),
+  status: t.string({ enum: ["pending", "processing", "done", "failed"] }),
+  attempts: t.number({ integer: true }),
+  title: t.string(),
+  url: t.string(),
+  fileName: t.string(),
+  lastError: t.string(),
+  mediaId: t.string({ description: "Элемент медиатеки, созданный задачей; пусто, пока задача не выполнена" }),
+  createdAt: t.string(),
+  startedAt: t.string(),
+  finishedAt: t.string()
+});
+const apiDeletedSchema = t.object({ data: t.object({}, { nullable: true, description: "Всегда null" }), version: t.number({ integer: true }) });
+
+function apiData(node: SchemaNode, versioned = false): SchemaNode {
+  return t.object({ data: node, ...(versioned ? { version: t.number({ integer: true, description: "Версия черновика, она же в ETag" }) } : {}) });
+}
+
+function apiList(node: SchemaNode, versioned = false): SchemaNode {
+  return t.object({
+    data: t.array(node),
+    pagination: apiPaginationSchema,
+    ...(versioned ? { version: t.number({ integer: true, description: "Версия черновика, она же в ETag" }) } : {})
+  });
+}
+
+const sectionKeyParam = { key: t.string({ enum: HOME_SECTION_KEYS }) };
+const slugParam = { slug: t.string({ minLength: 1, maxLength: 120 }) };
+const faqIndexParam = { index: t.number({ integer: true, min: 0, description: "Номер вопроса в списке, с нуля" }) };
+const mediaIdParam = { id: t.string({ minLength: 1, maxLength: 200 }) };
+
+// Session clients read their CSRF token here and send it back in X-CSRF-Token.
+// Token clients need none and see the token's own scope and expiry instead.
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/session`,
+    operationId: "getSession",
+    summary: "Текущий пользователь, права и CSRF-токен",
+    tag: "Сессия",
+    access: "session",
+    responses: {
+      200: {
+        description: "Пользователь и способ входа",
+        schema: apiData(
+          t.object({
+            user: t.object({
+              id: t.number({ integer: true }),
+              username: t.string(),
+              displayName: t.string(),
+              role: t.string({ enum: ADMIN_ROLES })
+            }),
+            permissions: t.array(t.string()),
+            token: t.object(
+              { id: t.number({ integer: true }), name: t.string(), scope: t.string({ enum: API_TOKEN_SCOPES }), expiresAt: t.string() },
+              { nullable: true, description: "API-токен запроса, null при входе по сессии" }
+            ),
+            csrfToken: t.string({ nullable: true, description: "Только для сессии" })
+          })
+        )
+      }
+    }
+  },
+  (req, res) => {
+    const user = req.adminUser;
+    const token = req.apiToken;
+    const permissions = ROLE_PERMISSIONS[user.role] || [];
+    res.json({
+      data: {
+        user: { id: user.id, username: user.username, displayName: user.displayName, role: user.role },
+        permissions: token?.scope === "read" ? permissions.filter((item) => item === "content.view") : permissions,
+        token: token ? { id: token.id, name: token.name, scope: token.scope, expiresAt: token.expiresAt } : null,
+        csrfToken: token ? null : ensureCsrfToken(req)
+      }
+    });
+  }
+);
+
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/sections`,
+    operationId: "getSections",
+    summary: "Все разделы главной в черновике",
+    tag: "Разделы",
+    access: "content.view",
+    responses: { 200: { description: "Порядок и настройки разделов", schema: apiData(t.object({}, { description: "order и разделы по ключам" }), true) } }
+  },
+  async (req, res) => {
+    const site = await loadDraftSite();
+    sendDraftData(res, "site:draft", getContentVersion("site:draft"), { data: normalizeSections(site) });
+  }
+);
+
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/sections/:key`,
+    operationId: "getSection",
+    summary: "Раздел главной",
+    tag: "Разделы",
+    access: "content.view",
+    params: sectionKeyParam,
+    responses: { 200: { description: "Раздел", schema: apiData(sectionSchema, true) } }
+  },
+  async (req, res) => {
+    const site = await loadDraftSite();
+    sendDraftData(res, "site:draft", getContentVersion("site:draft"), { data: normalizeSections(site)[req.params.key as HomeSectionKey] });
+  }
+);
+
+apiRoute(
+  {
+    method: "put",
+    path: `${ADMIN_API}/sections/order`,
+    operationId: "setSectionOrder",
+    summary: "Порядок разделов главной",
+    description: "Неперечисленные разделы добавляются в конец в исходном порядке.",
+    tag: "Разделы",
+    access: "content.edit",
+    conditional: "if-match",
+    body: t.object({ order: { ...sectionsSchema.properties.order, optional: false }, ...apiVersionField }),
+    responses: {
+      200: { description: "Новый порядок", schema: apiData(t.array(t.string({ enum: HOME_SECTION_KEYS })), true) },
+      409: { description: "Черновик изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    let submitted: SiteData | null = null;
+    try {
+      const current = await loadDraftSite();
+      submitted = {
+        ...current,
+        sections: { ...normalizeSections(current), order: sanitizeHomeSectionOrder(req.body.order) }
+      };
+      const version = await saveSiteFromApi(req, submitted, "порядок разделов");
+      sendDraftData(res, "site:draft", version, { data: normalizeSections(submitted).order });
+    } catch (error) {
+      await respondApiFailure(req, res, error, submitted, "Ошибка сохранения порядка разделов");
+    }
+  }
+);
+
+apiRoute(
+  {
+    method: "patch",
+    path: `${ADMIN_API}/sections/:key`,
+    operationId: "updateSection",
+    summary: "Изменить раздел главной",
+    description: "Меняются только переданные поля; поля, которых у раздела нет, игнорируются.",
+    tag: "Разделы",
+    access: "content.edit",
+    conditional: "if-match",
+    params: sectionKeyParam,
+    body: t.object({ ...processSectionSchema.properties, ...apiVersionField }),
+    responses: {
+      200: { description: "Раздел после изменения", schema: apiData(sectionSchema, true) },
+      409: { description: "Черновик изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    const key = req.params.key as HomeSectionKey;
+    let submitted: SiteData | null = null;
+    try {
+      const current = await loadDraftSite();
+      const sections = normalizeSections(current);
+      const patch = pickFields(req.body, Object.keys(defaultSectionConfig()[key]));
+      submitted = { ...current, sections: { ...sections, [key]: { ...sections[key], ...patch } } };
+      const version = await saveSiteFromApi(req, submitted, `раздел ${key}`);
+      sendDraftData(res, "site:draft", version, { data: normalizeSections(submitted)[key] });
+    } catch (error) {
+      await respondApiFailure(req, res, error, submitted, "Ошибка сохранения раздела");
+    }
+  }
+);
+
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/services`,
+    operationId: "listServices",
+    summary: "Услуги в черновике",
+    tag: "Услуги",
+    access: "content.view",
+    query: apiPageQuery,
+    responses: { 200: { description: "Страница списка услуг", schema: apiList(serviceItemSchema, true) } }
+  },
+  async (req, res) => {
+    const site = await loadDraftSite();
+    sendDraftData(res, "site:draft", getContentVersion("site:draft"), paginate(req, site.services || []));
+  }
+);
+
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/services/:slug`,
+    operationId: "getService",
+    summary: "Услуга",
+    tag: "Услуги",
+    access: "content.view",
+    params: slugParam,
+    responses: { 200: { description: "Услуга", schema: apiData(serviceItemSchema, true) }, 404: { description: "Услуга не найдена" } }
+  },
+  async (req, res) => {
+    const site = await loadDraftSite();
+    const service = (site.services || []).find((item) => item.slug === req.params.slug);
+    if (!service) {
+      sendApiError(res, 404, "not_found", "Услуга не найдена", { slug: req.params.slug });
+      return;
+    }
+    sendDraftData(res, "site:draft", getContentVersion("site:draft"), { data: service });
+  }
+);
+
+apiRoute(
+  {
+    method: "post",
+    path: `${ADMIN_API}/services`,
+    operationId: "createService",
+    summary: "Добавить услугу",
+    tag: "Услуги",
+    access: "content.edit",
+    conditional: "if-match",
+    body: t.object({ ...serviceItemSchema.properties, ...apiVersionField }),
+    responses: {
+      201: { description: "Услуга добавлена в черновик", schema: apiData(serviceItemSchema, true) },
+      409: { description: "Услуга с таким slug уже есть или черновик изменён" }
+    }
+  },
+  async (req, res) => {
+    let submitted: SiteData | null = null;
+    try {
+      const current = await loadDraftSite();
+      const service = pickFields(req.body, SERVICE_FIELDS) as unknown as ServiceItem;
+      if ((current.services || []).some((item) => item.slug === service.slug)) {
+        sendApiError(res, 409, "already_exists", "Услуга с таким slug уже есть", { slug: service.slug });
+        return;
+      }
+
+      submitted = { ...current, services: [...(current.services || []), service] };
+      const version = await saveSiteFromApi(req, submitted, `новая услуга ${service.slug}`);
+      res.set("Location", `${ADMIN_API}/services/${encodeURIComponent(service.slug)}`);
+      sendDraftData(res, "site:draft", version, { data: service }, 201);
+    } catch (error) {
+      await respondApiFailure(req, res, error, submitted, "Ошибка сохранения услуги");
+    }
+  }
+);
+
+apiRoute(
+  {
+    method: "patch",
+    path: `${ADMIN_API}/services/:slug`,
+    operationId: "updateService",
+    summary: "Изменить услугу",
+    description: "Меняются только переданные поля; новый slug переименовывает услугу.",
+    tag: "Услуги",
+    access: "content.edit",
+    conditional: "if-match",
+    params: slugParam,
+    body: t.object({ ...t.partial(serviceItemSchema).properties, ...apiVersionField }),
+    responses: {
+      200: { description: "Услуга после изменения", schema: apiData(serviceItemSchema, true) },
+      404: { description: "Услуга не найдена" },
+      409: { description: "Черновик изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    let submitted: SiteData | null = null;
+    try {
+      const current = await loadDraftSite();
+      const services = current.services || [];
+      const index = services.findIndex((item) => item.slug === req.params.slug);
+      if (index < 0) {
+        sendApiError(res, 404, "not_found", "Услуга не найдена", { slug: req.params.slug });
+        return;
+      }
+
+      const service = { ...services[index], ...pickFields(req.body, SERVICE_FIELDS) } as ServiceItem;
+      submitted = { ...current, services: services.map((item, position) => (position === index ? service : item)) };
+      const version = await saveSiteFromApi(req, submitted, `услуга ${req.params.slug}`);
+      sendDraftData(res, "site:draft", version, { data: service });
+    } catch (error) {
+      await respondApiFailure(req, res, error, submitted, "Ошибка сохранения услуги");
+    }
+  }
+);
+
+apiRoute(
+  {
+    method: "delete",
+    path: `${ADMIN_API}/services/:slug`,
+    operationId: "deleteService",
+    summary: "Удалить услугу",
+    description: "Последнюю услугу удалить нельзя.",
+    tag: "Услуги",
+    access: "content.edit",
+    conditional: "if-match",
+    params: slugParam,
+    responses: {
+      200: { description: "Услуга удалена из черновика", schema: apiDeletedSchema },
+      404: { description: "Услуга не найдена" },
+      409: { description: "Черновик изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    let submitted: SiteData | null = null;
+    try {
+      const current = await loadDraftSite();
+      const services = current.services || [];
+      if (!services.some((item) => item.slug === req.params.slug)) {
+        sendApiError(res, 404, "not_found", "Услуга не найдена", { slug: req.params.slug });
+        return;
+      }
+      // Same rule as the services form: the site always keeps at least one service page.
+      if (services.length === 1) {
+        throw new ContentValidationError([{ path: "services", message: "Нужно указать хотя бы одну услугу" }]);
+      }
+
+      submitted = { ...current, services: services.filter((item) => item.slug !== req.params.slug) };
+      const version = await saveSiteFromApi(req, submitted, `удаление услуги ${req.params.slug}`);
+      sendDraftData(res, "site:draft", version, { data: null });
+    } catch (error) {
+      await respondApiFailure(req, res, error, submitted, "Ошибка удаления услуги");
+    }
+  }
+);
+
+// FAQ entries have no ids; the position in the list addresses them, and If-Match keeps it stable.
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/faq`,
+    operationId: "listFaq",
+    summary: "Вопросы и ответы в черновике",
+    tag: "ЧаВо",
+    access: "content.view",
+    query: apiPageQuery,
+    responses: { 200: { description: "Страница списка вопросов", schema: apiList(faqEntrySchema, true) } }
+  },
+  async (req, res) => {
+    const site = await loadDraftSite();
+    const items = (site.faq || []).map((item, index) => ({ index, ...item }));
+    sendDraftData(res, "site:draft", getContentVersion("site:draft"), paginate(req, items));
+  }
+);
+
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/faq/:index`,
+    operationId: "getFaqItem",
+    summary: "Вопрос и ответ",
+    tag: "ЧаВо",
+    access: "content.view",
+    params: faqIndexParam,
+    responses: { 200: { description: "Вопрос", schema: apiData(faqEntrySchema, true) }, 404: { description: "Вопрос не найден" } }
+  },
+  async (req, res) => {
+    const faq = (await loadDraftSite()).faq || [];
+    const index = readFaqIndex(req, faq);
+    if (index < 0) {
+      sendApiError(res, 404, "not_found", "Вопрос не найден", { index: req.params.index });
+      return;
+    }
+    sendDraftData(res, "site:draft", getContentVersion("site:draft"), { data: { index, ...faq[index] } });
+  }
+);
+
+apiRoute(
+  {
+    method: "post",
+    path: `${ADMIN_API}/faq`,
+    operationId: "createFaqItem",
+    summary: "Добавить вопрос в конец списка",
+    tag: "ЧаВо",
+    access: "content.edit",
+    conditional: "if-match",
+    body: t.object({ ...faqItemSchema.properties, ...apiVersionField }),
+    responses: {
+      201: { description: "Вопрос добавлен в черновик", schema: apiData(faqEntrySchema, true) },
+      409: { description: "Черновик изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    let submitted: SiteData | null = null;
+    try {
+      const current = await loadDraftSite();
+      const item = pickFields(req.body, FAQ_FIELDS) as unknown as FaqItem;
+      const faq = [...(current.faq || []), item];
+      submitted = { ...current, faq };
+      const version = await saveSiteFromApi(req, submitted, "новый вопрос ЧаВо");
+      res.set("Location", `${ADMIN_API}/faq/${faq.length - 1}`);
+      sendDraftData(res, "site:draft", version, { data: { index: faq.length - 1, ...item } }, 201);
+    } catch (error) {
+      await respondApiFailure(req, res, error, submitted, "Ошибка сохранения вопроса");
+    }
+  }
+);
+
+apiRoute(
+  {
+    method: "patch",
+    path: `${ADMIN_API}/faq/:index`,
+    operationId: "updateFaqItem",
+    summary: "Изменить вопрос или ответ",
+    tag: "ЧаВо",
+    access: "content.edit",
+    conditional: "if-match",
+    params: faqIndexParam,
+    body: t.object({ ...t.partial(faqItemSchema).properties, ...apiVersionField }),
+    responses: {
+      200: { description: "Вопрос после изменения", schema: apiData(faqEntrySchema, true) },
+      404: { description: "Вопрос не найден" },
+      409: { description: "Черновик изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    let submitted: SiteData | null = null;
+    try {
+      const current = await loadDraftSite();
+      const faq = current.faq || [];
+      const index = readFaqIndex(req, faq);
+      if (index < 0) {
+        sendApiError(res, 404, "not_found", "Вопрос не найден", { index: req.params.index });
+        return;
+      }
+
+      const item = { ...faq[index], ...pickFields(req.body, FAQ_FIELDS) } as FaqItem;
+      submitted = { ...current, faq: faq.map((entry, position) => (position === index ? item : entry)) };
+      const version = await saveSiteFromApi(req, submitted, `вопрос ЧаВо #${index + 1}`);
+      sendDraftData(res, "site:draft", version, { data: { index, ...item } });
+    } catch (error) {
+      await respondApiFailure(req, res, error, submitted, "Ошибка сохранения вопроса");
+    }
+  }
+);
+
+apiRoute(
+  {
+    method: "delete",
+    path: `${ADMIN_API}/faq/:index`,
+    operationId: "deleteFaqItem",
+    summary: "Удалить вопрос",
+    description: "Номера следующих вопросов уменьшаются на единицу.",
+    tag: "ЧаВо",
+    access: "content.edit",
+    conditional: "if-match",
+    params: faqIndexParam,
+    responses: {
+      200: { description: "Вопрос удалён из черновика", schema: apiDeletedSchema },
+      404: { description: "Вопрос не найден" },
+      409: { description: "Черновик изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    let submitted: SiteData | null = null;
+    try {
+      const current = await loadDraftSite();
+      const faq = current.faq || [];
+      const index = readFaqIndex(req, faq);
+      if (index < 0) {
+        sendApiError(res, 404, "not_found", "Вопрос не найден", { index: req.params.index });
+        return;
       }
-    };
 
-    await saveSite(next);
-    invalidatePageCache("page:");
-    res.redirect("/admin?success=Контент обновлён");
-  } catch (error) {
-    const message = encodeURIComponent(getErrorMessage(error, "Ошибка сохранения"));
-    res.redirect(`/admin?error=${message}`);
+      submitted = { ...current, faq: faq.filter((_entry, position) => position !== index) };
+      const version = await saveSiteFromApi(req, submitted, `удаление вопроса ЧаВо #${index + 1}`);
+      sendDraftData(res, "site:draft", version, { data: null });
+    } catch (error) {
+      await respondApiFailure(req, res, error, submitted, "Ошибка удаления вопроса");
+    }
   }
-});
+);
 
-app.post("/admin/media/import", requireAdmin, async (req, res) => {
-  try {
-    const { import_url: importUrl, import_title: importTitle } = req.body;
-    if (!importUrl) {
-      throw new Error("Укажите URL для импорта");
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/media`,
+    operationId: "listMedia",
+    summary: "Медиатека черновика",
+    tag: "Медиа",
+    access: "content.view",
+    query: apiPageQuery,
+    responses: { 200: { description: "Страница медиатеки", schema: apiList(mediaItemSchema, true) } }
+  },
+  async (req, res) => {
+    const media = await loadDraftMedia();
+    sendDraftData(res, "media:draft", getContentVersion("media:draft"), paginate(req, media));
+  }
+);
+
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/media/:id`,
+    operationId: "getMediaItem",
+    summary: "Элемент медиатеки",
+    tag: "Медиа",
+    access: "content.view",
+    params: mediaIdParam,
+    responses: { 200: { description: "Элемент", schema: apiData(mediaItemSchema, true) }, 404: { description: "Медиа не найдено" } }
+  },
+  async (req, res) => {
+    const item = (await loadDraftMedia()).find((entry) => entry.id === req.params.id);
+    if (!item) {
+      sendApiError(res, 404, "not_found", "Медиа не найдено", { id: req.params.id });
+      return;
     }
+    sendDraftData(res, "media:draft", getContentVersion("media:draft"), { data: item });
+  }
+);
 
-    const jobId = enqueueMediaJob("import_url", {
-      url: String(importUrl),
-      title: String(importTitle || "")
-    });
+apiRoute(
+  {
+    method: "patch",
+    path: `${ADMIN_API}/media/:id`,
+    operationId: "updateMediaItem",
+    summary: "Изменить подпись и alt",
+    tag: "Медиа",
+    access: "media.edit",
+    conditional: "if-match",
+    params: mediaIdParam,
+    body: t.object({
+      title: t.optional(mediaItemSchema.properties.title),
+      alt: t.optional(mediaItemSchema.properties.alt),
+      ...apiVersionField
+    }),
+    responses: {
+      200: { description: "Элемент после изменения", schema: apiData(mediaItemSchema, true) },
+      404: { description: "Медиа не найдено" },
+      409: { description: "Элемент изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    const mediaId = req.params.id;
+    const patch = pickFields(req.body, ["title", "alt"]) as Partial<Pick<MediaItem, "title" | "alt">>;
+    try {
+      const media = await loadDraftMedia();
+      if (!media.some((entry) => entry.id === mediaId)) {
+        sendApiError(res, 404, "not_found", "Медиа не найдено", { id: mediaId });
+        return;
+      }
 
-    res.redirect(`/admin?success=${encodeURIComponent(`Импорт поставлен в очередь (задача #${jobId})`)}`);
-  } catch (error) {
-    const message = encodeURIComponent(getErrorMessage(error, "Ошибка импорта"));
-    res.redirect(`/admin?error=${message}`);
+      const version = await updateDraftMediaItem(mediaId, patch, {
+        author: getAdminActor(req),
+        summary: `API: метаданные медиа ${mediaId}`,
+        expectedVersion: readExpectedVersion(req, "version")
+      });
+      const item = (await loadDraftMedia()).find((entry) => entry.id === mediaId);
+      sendDraftData(res, "media:draft", version, { data: item || null });
+    } catch (error) {
+      const media = await loadDraftMedia();
+      await respondApiFailure(req, res, error, media.map((item) => (item.id === mediaId ? { ...item, ...patch } : item)), "Ошибка обновления медиа");
+    }
   }
-});
+);
 
-app.post("/admin/media/upload", requireAdmin, upload.single("media_file"), async (req, res) => {
-  try {
+apiRoute(
+  {
+    method: "delete",
+    path: `${ADMIN_API}/media/:id`,
+    operationId: "deleteMediaItem",
+    summary: "Удалить элемент медиатеки",
+    description: "Файлы удаляются с диска при публикации.",
+    tag: "Медиа",
+    access: "media.edit",
+    conditional: "if-match",
+    params: mediaIdParam,
+    responses: {
+      200: { description: "Элемент удалён из черновика", schema: apiDeletedSchema },
+      404: { description: "Медиа не найдено" },
+      409: { description: "Элемент изменён другим редактором" }
+    }
+  },
+  async (req, res) => {
+    const mediaId = req.params.id;
+    try {
+      const media = await loadDraftMedia();
+      if (!media.some((entry) => entry.id === mediaId)) {
+        sendApiError(res, 404, "not_found", "Медиа не найдено", { id: mediaId });
+        return;
+      }
+
+      // As with the form, files stay on disk until the deletion is published.
+      const version = await removeDraftMediaItem(mediaId, {
+        author: getAdminActor(req),
+        summary: `API: удаление медиа ${mediaId}`,
+        expectedVersion: readExpectedVersion(req, "version")
+      });
+      sendDraftData(res, "media:draft", version, { data: null });
+    } catch (error) {
+      const media = await loadDraftMedia();
+      await respondApiFailure(req, res, error, media.filter((entry) => entry.id !== mediaId), "Ошибка удаления медиа");
+    }
+  }
+);
+
+apiRoute(
+  {
+    method: "post",
+    path: `${ADMIN_API}/media/import`,
+    operationId: "importMedia",
+    summary: "Импорт медиа по ссылке",
+    description: "Ставит задачу в очередь; её состояние — по ссылке из заголовка Location.",
+    tag: "Медиа",
+    access: "media.edit",
+    body: t.object({ url: t.string({ minLength: 1, maxLength: 4000 }), title: t.optional(mediaItemSchema.properties.title) }),
+    responses: { 202: { description: "Задача поставлена в очередь", schema: apiData(mediaJobSchema) } }
+  },
+  async (req, res) => {
+    const jobId = enqueueMediaJob("import_url", { url: String(req.body.url).trim(), title: String(req.body.title || "") });
+    await announceMediaJob(jobId);
+    res.status(202).set("Location", `${ADMIN_API}/media-jobs/${jobId}`).json({ data: serializeMediaJob(getMediaJob(jobId)) });
+  }
+);
+
+apiRoute(
+  {
+    method: "post",
+    path: `${ADMIN_API}/media/upload`,
+    operationId: "uploadMedia",
+    summary: "Загрузка файла",
+    description: "Ставит задачу в очередь; её состояние — по ссылке из заголовка Location.",
+    tag: "Медиа",
+    access: "media.edit",
+    body: t.object({ title: t.optional(mediaItemSchema.properties.title) }),
+    files: ["media_file"],
+    responses: {
+      202: { description: "Задача поставлена в очередь", schema: apiData(mediaJobSchema) },
+      413: { description: "Файл слишком большой" }
+    }
+  },
+  receiveMediaUpload,
+  async (req, res) => {
     if (!req.file) {
-      throw new Error("Файл не выбран");
+      await respondValidationFailed(req, res, new ContentValidationError([{ path: "media_file", message: "Обязательное поле" }]), null);
+      return;
     }
 
     const jobId = enqueueMediaJob("upload_file", {
       path: req.file.path,
       originalname: req.file.originalname,
       mimetype: req.file.mimetype,
-      title: String(req.body.upload_title || "")
+      title: String(req.body.title || "")
     });
+    await announceMediaJob(jobId);
+    res.status(202).set("Location", `${ADMIN_API}/media-jobs/${jobId}`).json({ data: serializeMediaJob(getMediaJob(jobId)) });
+  }
+);
 
-    res.redirect(`/admin?success=${encodeURIComponent(`Файл поставлен в очередь обработки (#${jobId})`)}`);
-  } catch (error) {
-    if (req.file?.path) {
-      await fs.unlink(req.file.path).catch(() => {});
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/media-jobs`,
+    operationId: "listMediaJobs",
+    summary: "Задачи обработки медиа, новые первыми",
+    tag: "Медиа",
+    access: "content.view",
+    query: apiPageQuery,
+    responses: { 200: { description: "Страница списка задач", schema: apiList(mediaJobSchema) } }
+  },
+  (req, res) => {
+    const { page, perPage } = readPagination(req);
+    res.json({
+      data: listMediaJobs(perPage, (page - 1) * perPage).map(serializeMediaJob),
+      pagination: describePage(page, perPage, countMediaJobs())
+    });
+  }
+);
+
+apiRoute(
+  {
+    method: "get",
+    path: `${ADMIN_API}/media-jobs/:id`,
+    operationId: "getMediaJob",
+    summary: "Задача обработки медиа",
+    tag: "Медиа",
+    access: "content.view",
+    params: { id: t.number({ integer: true, min: 1 }) },
+    responses: { 200: { description: "Задача", schema: apiData(mediaJobSchema) }, 404: { description: "Задача не найдена" } }
+  },
+  (req, res) => {
+    const job = getMediaJob(Number(req.params.id));
+    if (!job) {
+      sendApiError(res, 404, "not_found", "Задача не найдена", { id: req.params.id });
+      return;
     }
-    const message = encodeURIComponent(getErrorMessage(error, "Ошибка загрузки"));
-    res.redirect(`/admin?error=${message}`);
+    res.json({ data: serializeMediaJob(job) });
   }
-});
+);
 
-app.post("/admin/services", requireAdmin, async (req, res) => {
-  try {
-    const current = await loadSite();
-    const existingBySlug = new Map((current.services || []).map((item) => [item.slug, item]));
+apiRoute(
+  {
+    method: "post",
+    path: `${ADMIN_API}/publish`,
+    operationId: "publishDrafts",
+    summary: "Опубликовать черновик",
+    description: "Сбрасывает кэш страниц и публичного API, удаляет файлы удалённых медиа.",
+    tag: "Публикация",
+    access: "content.publish",
+    responses: {
+      200: {
+        description: "Что было опубликовано",
+        schema: apiData(t.object({ site: t.boolean(), media: t.boolean(), removedMedia: t.array(t.string()) }))
+      },
+      500: { description: "Ошибка публикации", schema: errorSchema }
+    }
+  },
+  async (req, res) => {
+    try {
+      const before = await loadPublishedContent();
+      const result = await publishDrafts({ author: getAdminActor(req) });
+      if (result.site || result.media) {
+        invalidatePageCache("page:");
+        await removeMediaFiles(result.removedMedia);
+        await announcePublishedChanges(req, before);
+      }
+      res.json({ data: { site: result.site, media: result.media, removedMedia: result.removedMedia.map((item) => item.id) } });
+    } catch (error) {
+      sendApiError(res, 500, "publish_failed", getErrorMessage(error, "Ошибка публикации"));
+    }
+  }
+);
 
-    const slugs = toArrayField(req.body.service_slug).map((value) => String(value || "").trim());
-    const titles = toArrayField(req.body.service_title).map((value) => String(value || "").trim());
-    const shorts = toArrayField(req.body.service_short).map((value) => String(value || "").trim());
-    const descriptions = toArrayField(req.body.service_description).map((value) => String(value || "").trim());
-    const materialsRaw = toArrayField(req.body.service_materials);
-    const mediaIdsRaw = toArrayField(req.body.service_media_ids);
-    const maxLength = Math.max(slugs.length, titles.length, shorts.length, descriptions.length, materialsRaw.length, mediaIdsRaw.length);
-    const nextServices = [];
+apiRoute(
+  {
+    method: "post",
+    path: `${ADMIN_API}/draft/discard`,
+    operationId: "discardDrafts",
+    summary: "Сбросить черновик к опубликованной версии",
+    tag: "Публикация",
+    access: "content.edit",
+    responses: { 200: { description: "Что было сброшено", schema: apiData(t.object({ site: t.boolean(), media: t.boolean() })) } }
+  },
+  async (req, res) => {
+    const result = await discardDrafts({ author: getAdminActor(req) });
+    res.json({ data: { site: result.site, media: result.media } });
+  }
+);
 
-    for (let index = 0; index < maxLength; index += 1) {
-      const slug = slugs[index] || "";
-      const title = titles[index] || "";
+// Read-only API over the published content for partner sites and apps. Responses share the
+// page cache, so publishing refreshes them, and section schedules apply as on the home page:
+// content of a section that is switched off or scheduled out is not returned.
+const PUBLIC_API = "/api/v1";
+
+app.use(PUBLIC_API, (req, res, next) => {
+  res.set("Access-Control-Allow-Origin", "*");
+  res.set("Access-Control-Allow-Headers", "If-None-Match");
+  res.set("Access-Control-Expose-Headers", "ETag");
+  res.set("Cross-Origin-Resource-Policy", "cross-origin");
+  if (req.method === "OPTIONS") {
+    res.set("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS").status(204).end();
+    return;
+  }
+  next();
+});
 
-      if (!slug && !title) {
-        continue;
-      }
+function toPublicMediaItem(baseUrl: string, item: MediaItem): Record<string, unknown> {
+  return {
+    id: item.id,
+    type: item.type,
+    title: item.title,
+    alt: item.alt,
+    url: `${baseUrl}${item.localOptimized}`,
+    createdAt: item.createdAt
+  };
+}
 
-      if (!slug || !title) {
-        throw new Error(`Строка услуги #${index + 1}: обязательны slug и title.`);
-      }
+function toPublicService(baseUrl: string, service: ServiceItem): Record<string, unknown> {
+  return {
+    slug: service.slug,
+    title: service.title,
+    short: service.short || "",
+    url: `${baseUrl}/services/${encodeURIComponent(service.slug)}`
+  };
+}
 
-      const previous = existingBySlug.get(slug) || {};
-      nextServices.push({
-        ...previous,
-        slug,
-        title,
-        short: shorts[index] || "",
-        description: descriptions[index] || "",
-        materials: toArrayFromTextarea(materialsRaw[index]),
-        mediaIds: toArrayFromTextarea(mediaIdsRaw[index])
-      });
+// The body is cached as a string, so the ETag stays the same for as long as the content does.
+async function sendPublicApiJson(
+  req: RequestLike,
+  res: ResponseLike,
+  cacheKey: string,
+  build: () => Promise<{ body: unknown; statusCode?: number }>
+): Promise<void> {
+  let body = "";
+  const cached = getCachedPage(cacheKey);
+  if (cached) {
+    body = cached.html;
+    if (cached.status === "stale" && !isRevalidating(cacheKey)) {
+      setRevalidating(cacheKey, true);
+      build()
+        .then((result) => {
+          if ((result.statusCode || 200) === 200) {
+            putCachedPage(cacheKey, JSON.stringify(result.body));
+          }
+        })
+        .catch(() => {})
+        .finally(() => {
+          setRevalidating(cacheKey, false);
+        });
     }
-
-    if (!nextServices.length) {
-      throw new Error("Нужно указать хотя бы одну услугу.");
+  } else {
+    const result = await build();
+    if ((result.statusCode || 200) !== 200) {
+      res.status(result.statusCode).json(result.body);
+      return;
     }
+    body = JSON.stringify(result.body);
+    putCachedPage(cacheKey, body);
+  }
 
-    await saveSite({
-      ...current,
-      services: nextServices
-    });
-    invalidatePageCache("page:");
-
-    res.redirect("/admin?success=Страницы услуг обновлены");
-  } catch (error) {
-    const message = encodeURIComponent(getErrorMessage(error, "Ошибка сохранения услуг"));
-    res.redirect(`/admin?error=${message}`);
+  const etag = `"${crypto.createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+  res.set("ETag", etag).set("Cache-Control", "public, max-age=30");
+  const ifNoneMatch = String(req.get("if-none-match") || "");
+  if (ifNoneMatch.split(",").some((value) => value.trim().replace(/^W\//, "") === etag || value.trim() === "*")) {
+    res.status(304).end();
+    return;
   }
+  res.type("application/json").send(body);
+}
+
+const publicMediaSchema = t.object({
+  id: t.string(),
+  type: t.string({ enum: ["image", "video"] }),
+  title: t.string(),
+  alt: t.string(),
+  url: t.string({ description: "Абсолютная ссылка на оптимизированный файл" }),
+  createdAt: t.string({ format: "date-time" })
 });
+const publicServiceSchema = t.object({
+  slug: t.string(),
+  title: t.string(),
+  short: t.string(),
+  url: t.string({ description: "Страница услуги на сайте" })
+});
+const publicNotModified = { 304: { description: "Данные не изменились с прошлого ответа с этим ETag" } };
+
+apiRoute(
+  {
+    method: "get",
+    path: `${PUBLIC_API}/services`,
+    operationId: "listPublicServices",
+    summary: "Опубликованные услуги",
+    tag: "Публичный API",
+    access: "public",
+    conditional: "if-none-match",
+    responses: { 200: { description: "Все услуги в порядке сайта", schema: t.object({ data: t.array(publicServiceSchema) }) }, ...publicNotModified }
+  },
+  async (req, res) => {
+    await sendPublicApiJson(req, res, "page:api:services", async () => {
+      const { site, sectionVisibility } = await buildViewModel(req, { draft: false });
+      const baseUrl = getBaseUrl(req);
+      const services = sectionVisibility.services ? site.services || [] : [];
+      return { body: { data: services.map((service) => toPublicService(baseUrl, service)) } };
+    });
+  }
+);
 
-app.post("/admin/media/update-meta", requireAdmin, async (req, res) => {
-  try {
-    const mediaId = String(req.body.media_id || "").trim();
-    if (!mediaId) {
-      throw new Error("Не выбран идентификатор медиа");
+apiRoute(
+  {
+    method: "get",
+    path: `${PUBLIC_API}/services/:slug`,
+    operationId: "getPublicService",
+    summary: "Опубликованная услуга с описанием и медиа",
+    tag: "Публичный API",
+    access: "public",
+    conditional: "if-none-match",
+    params: slugParam,
+    responses: {
+      200: {
+        description: "Услуга",
+        schema: apiData(
+          t.object({
+            ...publicServiceSchema.properties,
+            description: t.string(),
+            materials: t.array(t.string()),
+            media: t.array(publicMediaSchema)
+          })
+        )
+      },
+      ...publicNotModified,
+      404: { description: "Услуга не найдена" }
     }
+  },
+  async (req, res) => {
+    await sendPublicApiJson(req, res, `page:api:service:${req.params.slug}`, async () => {
+      const { site, media, sectionVisibility } = await buildViewModel(req, { draft: false });
+      const services = sectionVisibility.services ? site.services || [] : [];
+      const service = services.find((item) => item.slug === req.params.slug);
+      if (!service) {
+        return {
+          statusCode: 404,
+          body: { error: { code: "not_found", message: "Услуга не найдена", details: { slug: req.params.slug } } }
+        };
+      }
 
-    const media = await loadMedia();
-    const index = media.findIndex((item) => item.id === mediaId);
-    if (index < 0) {
-      throw new Error("Медиа не найдено");
+      const baseUrl = getBaseUrl(req);
+      return {
+        body: {
+          data: {
+            ...toPublicService(baseUrl, service),
+            description: service.description || "",
+            materials: service.materials || [],
+            media: (service.mediaIds || [])
+              .map((id) => media.find((item) => item.id === id))
+              .filter(Boolean)
+              .map((item) => toPublicMediaItem(baseUrl, item))
+          }
+        }
+      };
+    });
+  }
+);
+
+apiRoute(
+  {
+    method: "get",
+    path: `${PUBLIC_API}/faq`,
+    operationId: "listPublicFaq",
+    summary: "Опубликованные вопросы и ответы",
+    tag: "Публичный API",
+    access: "public",
+    conditional: "if-none-match",
+    responses: {
+      200: { description: "Все вопросы в порядке сайта", schema: t.object({ data: t.array(t.object({ q: t.string(), a: t.string() })) }) },
+      ...publicNotModified
     }
+  },
+  async (req, res) => {
+    await sendPublicApiJson(req, res, "page:api:faq", async () => {
+      // The home page shows the FAQ inside the contacts section.
+      const { site, sectionVisibility } = await buildViewModel(req, { draft: false });
+      const faq = sectionVisibility.contacts ? site.faq || [] : [];
+      return { body: { data: faq.map((item) => ({ q: item.q, a: item.a })) } };
+    });
+  }
+);
 
-    media[index] = {
-      ...media[index],
-      title: String(req.body.media_title || "").trim(),
-      alt: String(req.body.media_alt || "").trim()
-    };
+apiRoute(
+  {
+    method: "get",
+    path: `${PUBLIC_API}/contacts`,
+    operationId: "getPublicContacts",
+    summary: "Контакты и адрес",
+    tag: "Публичный API",
+    access: "public",
+    conditional: "if-none-match",
+    responses: {
+      200: {
+        description: "Контакты из настроек бренда",
+        schema: apiData(
+          t.object({
+            name: t.string(),
+            legalName: t.string(),
+            category: t.string(),
+            address: t.object({
+              street: t.string(),
+              city: t.string(),
+              region: t.string(),
+              postalCode: t.string(),
+              country: t.string(),
+              coordinates: t.object({ lat: t.optional(t.number()), lng: t.optional(t.number()) }, { nullable: true })
+            }),
+            phone: t.object({ display: t.string(), value: t.string() }),
+            email: t.string(),
+            workHours: t.string(),
+            workHoursIso: t.string(),
+            links: t.object({ instagram: t.string(), order: t.string(), map2gis: t.string(), mapYandex: t.string() })
+          })
+        )
+      },
+      ...publicNotModified,
+      404: { description: "Раздел контактов скрыт на сайте" }
+    }
+  },
+  async (req, res) => {
+    await sendPublicApiJson(req, res, "page:api:contacts", async () => {
+      const { site, sectionVisibility } = await buildViewModel(req, { draft: false });
+      if (!sectionVisibility.contacts) {
+        return {
+          statusCode: 404,
+          body: { error: { code: "not_found", message: "Раздел контактов скрыт", details: { section: "contacts" } } }
+        };
+      }
+      const brand = site.brand || {};
+      return {
+        body: {
+          data: {
+            name: brand.name || "",
+            legalName: brand.legalName || "",
+            category: brand.category || "",
+            address: {
+              street: brand.address || "",
+              city: brand.city || "",
+              region: brand.region || "",
+              postalCode: brand.postalCode || "",
+              country: brand.country || "",
+              coordinates: brand.coordinates || null
+            },
+            phone: { display: brand.phoneDisplay || "", value: brand.phoneValue || "" },
+            email: brand.email || "",
+            workHours: brand.workHours || "",
+            workHoursIso: brand.workHoursIso || "",
+            links: {
+              instagram: brand.instagram || "",
+              order: brand.orderLink || "",
+              map2gis: brand.map2gis || "",
+              mapYandex: brand.mapYandex || ""
+            }
+          }
+        }
+      };
+    });
+  }
+);
 
-    await saveMedia(media);
-    invalidatePageCache("page:");
-    res.redirect("/admin?success=Метаданные медиа обновлены");
-  } catch (error) {
-    const message = encodeURIComponent(getErrorMessage(error, "Ошибка обновления медиа"));
-    res.redirect(`/admin?error=${message}`);
+// Only sections visible right now, in home page order, without their scheduling fields.
+apiRoute(
+  {
+    method: "get",
+    path: `${PUBLIC_API}/sections`,
+    operationId: "listPublicSections",
+    summary: "Видимые сейчас разделы главной",
+    tag: "Публичный API",
+    access: "public",
+    conditional: "if-none-match",
+    responses: {
+      200: {
+        description: "Разделы в порядке главной страницы",
+        schema: t.object({
+          data: t.array(
+            t.object({
+              key: t.string({ enum: HOME_SECTION_KEYS }),
+              title: t.optional(t.string()),
+              description: t.optional(t.string()),
+              steps: t.optional(t.array(t.string(), { description: "Только у process" }))
+            })
+          )
+        })
+      },
+      ...publicNotModified
+    }
+  },
+  async (req, res) => {
+    await sendPublicApiJson(req, res, "page:api:sections", async () => {
+      const { site, visibleSectionOrder } = await buildViewModel(req, { draft: false });
+      const sections = site.sections as HomeSectionsConfig;
+      return {
+        body: {
+          data: visibleSectionOrder.map((key) => {
+            const { enabled: _enabled, visibleFrom: _from, visibleTo: _to, ...content } = sections[key as HomeSectionKey];
+            return { key, ...content };
+          })
+        }
+      };
+    });
   }
-});
+);
 
-app.post("/admin/media/delete", requireAdmin, async (req, res) => {
-  try {
-    const { media_id: mediaId } = req.body;
-    if (!mediaId) {
-      throw new Error("Не выбран идентификатор медиа");
+apiRoute(
+  {
+    method: "get",
+    path: `${PUBLIC_API}/media`,
+    operationId: "listPublicMedia",
+    summary: "Опубликованная медиатека",
+    tag: "Публичный API",
+    access: "public",
+    conditional: "if-none-match",
+    query: { ...apiPageQuery, type: t.optional(t.string({ enum: ["image", "video"], description: "Только фото или только видео" })) },
+    responses: {
+      200: { description: "Страница медиатеки", schema: apiList(publicMediaSchema) },
+      ...publicNotModified,
+      404: { description: "Страница за концом списка" }
     }
+  },
+  async (req, res) => {
+    const type = String(req.query.type || "");
+    const { page, perPage } = readPagination(req);
+    await sendPublicApiJson(req, res, `page:api:media:${type}:${page}:${perPage}`, async () => {
+      const { media, sectionVisibility } = await buildViewModel(req, { draft: false });
+      const baseUrl = getBaseUrl(req);
+      const gallery = sectionVisibility.gallery ? media : [];
+      const items = gallery.filter((item) => !type || item.type === type).map((item) => toPublicMediaItem(baseUrl, item));
+      const result = paginate(req, items);
+      // Pages past the end are not cached, so arbitrary page numbers cannot fill the cache.
+      if (page > result.pagination.pageCount) {
+        return {
+          statusCode: 404,
+          body: { error: { code: "not_found", message: "Страница не найдена", details: { page, pageCount: result.pagination.pageCount } } }
+        };
+      }
+      return { body: result };
+    });
+  }
+);
 
-    const media = await loadMedia();
-    const item = media.find((entry) => entry.id === mediaId);
-    const next = media.filter((entry) => entry.id !== mediaId);
+function describeApi(req: RequestLike): { title: string; version: string; description: string; serverUrl: string } {
+  return {
+    title: "White Lab API",
+    version: "1",
+    description:
+      "Публичный API опубликованного контента (/api/v1) и API панели для скриптов и интеграций (/api/admin/v1). " +
+      "Ошибки приходят в виде {\"error\":{\"code\",\"message\",\"details\"}}; при 422 в details.issues перечислены поля.",
+    serverUrl: getBaseUrl(req)
+  };
+}
 
-    if (item) {
-      const filePaths = [item.localOriginal, item.localOptimized]
-        .filter(Boolean)
-        .map((localPath) => path.join(process.cwd(), "public", localPath.replace("/media/", "media/")));
+// The document is built from the registrations above on each request; the server URL follows
+// the host the client used, so the spec works behind the proxy and on a local copy alike.
+app.get("/api/openapi.json", (req, res) => {
+  res.set("Access-Control-Allow-Origin", "*");
+  res.json(buildOpenApiDocument(apiOperations, describeApi(req)));
+});
 
-      await Promise.all(
-        filePaths.map(async (filePath) => {
-          await fs.unlink(filePath).catch(() => {});
-        })
-      );
+app.get("/admin/api-docs", requireAdmin, requirePermission("content.view"), (req, res) => {
+  const document = buildOpenApiDocument(apiOperations, describeApi(req));
+  res.render("admin/api-docs", {
+    page: "admin-api-docs",
+    document,
+    meta: {
+      title: "Документация API | White Lab",
+      description: "Методы публичного API и API панели",
+      noindex: true,
+      canonical: `${getBaseUrl(req)}/admin/api-docs`
     }
+  });
+});
 
-    await saveMedia(next);
-    invalidatePageCache("page:");
-    res.redirect("/admin?success=Медиа удалено");
-  } catch (error) {
-    const message = encodeURIComponent(getErrorMessage(error, "Ошибка удаления"));
-    res.redirect(`/admin?error=${message}`);
-  }
+app.use("/api", (req, res) => {
+  sendApiError(res, 404, "not_found", "Метод API не найден", { method: req.method, path: req.originalUrl.split("?")[0] });
 });
 
 app.get("/robots.txt", (req, res) => {
@@ -1130,8 +4650,18 @@ app.get("/sitemap.xml", async (req, res) => {
 });
 
 app.use((error, req, res, next) => {
+  if (req.originalUrl.startsWith("/api/") && error?.type === "entity.parse.failed") {
+    sendApiError(res, 400, "bad_request", "Тело запроса — некорректный JSON");
+    return;
+  }
+
   console.error(error);
 
+  if (req.originalUrl.startsWith("/api/")) {
+    sendApiError(res, 500, "internal_error", "Внутренняя ошибка сервера");
+    return;
+  }
+
   if (req.path.startsWith("/admin")) {
     res.status(500).send("Ошибка в панели управления");
     return;
@@ -1162,6 +4692,7 @@ async function processOneMediaJob(): Promise<void> {
     if (!currentJob) {
       return;
     }
+    await announceMediaJob(currentJob.id);
 
     if (currentJob.jobType === "import_url") {
       const importUrl = String(currentJob.payload?.url || "").trim();
@@ -1171,11 +4702,9 @@ async function processOneMediaJob(): Promise<void> {
       }
 
       const mediaItem = await importRemoteMedia(importUrl, importTitle);
-      const media = await loadMedia();
-      media.unshift(mediaItem);
-      await saveMedia(media);
-      invalidatePageCache("page:");
-      markMediaJobDone(currentJob.id);
+      await addDraftMediaItem(mediaItem, { author: "media-worker", summary: `Импорт медиа ${mediaItem.id} (задача #${currentJob.id})` });
+      markMediaJobDone(currentJob.id, mediaItem.id);
+      await announceMediaJob(currentJob.id);
       return;
     }
 
@@ -1193,11 +4722,12 @@ async function processOneMediaJob(): Promise<void> {
 
       try {
         const mediaItem = await processUploadedFile(uploadPayload, uploadTitle);
-        const media = await loadMedia();
-        media.unshift(mediaItem);
-        await saveMedia(media);
-        invalidatePageCache("page:");
-        markMediaJobDone(currentJob.id);
+        await addDraftMediaItem(mediaItem, {
+          author: "media-worker",
+          summary: `Загрузка медиа ${mediaItem.id} (задача #${currentJob.id})`
+        });
+        markMediaJobDone(currentJob.id, mediaItem.id);
+        await announceMediaJob(currentJob.id);
       } finally {
         await fs.unlink(uploadPayload.path).catch(() => {});
       }
@@ -1209,6 +4739,8 @@ async function processOneMediaJob(): Promise<void> {
     const message = getErrorMessage(error, "Ошибка обработки медиа-задачи");
     if (currentJob) {
       markMediaJobFailed(currentJob.id, message);
+      enqueueWebhookEvent("media_job.failed", { job: serializeMediaJob(getMediaJob(currentJob.id)) });
+      await announceMediaJob(currentJob.id).catch(() => {});
       if (currentJob.jobType === "upload_file") {
         const uploadPath = String(currentJob.payload?.path || "");
         if (uploadPath) {
@@ -1230,15 +4762,87 @@ function startMediaWorker(): void {
   }, 1200).unref();
 }
 
+let webhookWorkerBusy = false;
+
+async function deliverOneWebhook(): Promise<void> {
+  if (webhookWorkerBusy) {
+    return;
+  }
+  webhookWorkerBusy = true;
+
+  try {
+    recycleStalledWebhookDeliveries(10);
+    const delivery = claimDueWebhookDelivery();
+    if (!delivery) {
+      return;
+    }
+
+    try {
+      const response = await postRemoteJson(delivery.url, delivery.payload, {
+        connectTimeoutMs: WEBHOOK_TIMEOUT_MS,
+        readTimeoutMs: WEBHOOK_TIMEOUT_MS,
+        headers: {
+          "user-agent": "WhiteLab-Webhooks/1",
+          "x-whitelab-event": delivery.event,
+          "x-whitelab-delivery": String(delivery.id),
+          "x-whitelab-signature": signWebhookPayload(delivery.secret, delivery.payload)
+        },
+        allowAddresses: WEBHOOK_ALLOW_ADDRESSES
+      });
+      if (response.statusCode >= 200 && response.statusCode < 300) {
+        markWebhookDelivered(delivery.id, response.statusCode, response.responseExcerpt);
+        return;
+      }
+      markWebhookAttemptFailed(delivery.id, delivery.attempts, `HTTP ${response.statusCode}`, response.statusCode, response.responseExcerpt);
+    } catch (error) {
+      markWebhookAttemptFailed(delivery.id, delivery.attempts, getErrorMessage(error, "Ошибка отправки вебхука"));
+    }
+  } finally {
+    webhookWorkerBusy = false;
+  }
+}
+
+function startWebhookWorker(): void {
+  setInterval(() => {
+    deliverOneWebhook().catch((error) => {
+      console.error("Webhook worker error", error);
+      webhookWorkerBusy = false;
+    });
+  }, 1000).unref();
+}
+
 (async () => {
+  try {
+    // Open the database up front so pending migrations run (or a too-new schema
+    // is reported) before the server starts accepting requests.
+    getDatabase();
+  } catch (error) {
+    console.error(`[sqlite] ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const consistency = await checkContentConsistency();
+  for (const entry of consistency.entries.filter((item) => item.status !== "ok")) {
+    console.warn(`[content-store] ${entry.file}: ${entry.message}`);
+  }
+  if (consistency.removedTempFiles.length) {
+    console.warn(`[content-store] removed unfinished writes: ${consistency.removedTempFiles.join(", ")}`);
+  }
+
   await ensureDirs();
   await fs.mkdir(uploadsDir, { recursive: true });
+  await bootstrapAdminUsers();
+  sessionStore.startCleanup();
+  const prunedAttempts = pruneLoginAttempts();
+  if (prunedAttempts) {
+    console.log(`[admin] removed ${prunedAttempts} old login attempts`);
+  }
   startMediaWorker();
+  startWebhookWorker();
+  startBackupScheduler();
 
   app.listen(port, () => {
     console.log(`White Lab running on http://localhost:${port}`);
-    if (ADMIN_USERNAME === "admin" && ADMIN_PASSWORD === "white-lab-admin") {
-      console.log("Using default admin credentials. Set ADMIN_USERNAME and ADMIN_PASSWORD for production.");
-    }
   });
 })();
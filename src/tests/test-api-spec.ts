@@ -0,0 +1,102 @@
+/**
+ * API schema checks
+ * Request validation and the OpenAPI output come from the same route description (run `npm run build` first)
+ */
+
+const path = require('path');
+const t = require(path.join(__dirname, 'dist', 'lib', 'schema.js'));
+const { validateApiRequest, toOpenApiPath, buildOpenApiDocument } = require(path.join(__dirname, 'dist', 'lib', 'api-spec.js'));
+
+const tests = [];
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const operation = {
+  method: 'patch',
+  path: '/api/admin/v1/items/:id',
+  operationId: 'updateItem',
+  summary: 'Изменить элемент',
+  tag: 'Элементы',
+  access: 'content.edit',
+  conditional: 'if-match',
+  params: { id: t.number({ integer: true, min: 1 }) },
+  query: { dry_run: t.optional(t.boolean()) },
+  body: t.partial(t.object({ title: t.string({ minLength: 1, maxLength: 10 }), tags: t.array(t.string({ enum: ['a', 'b'] })) })),
+  responses: { 200: { description: 'Элемент' } }
+};
+
+test('Path and query strings are converted before checking', () => {
+  const issues = validateApiRequest(operation, { params: { id: '12' }, query: { dry_run: 'true' }, body: {} });
+  assert(issues.length === 0, `Unexpected issues: ${JSON.stringify(issues)}`);
+});
+
+test('Parameter issues are reported under params and query', () => {
+  const issues = validateApiRequest(operation, { params: { id: '1.5' }, query: { dry_run: 'yes' }, body: {} });
+  const paths = issues.map((issue) => issue.path).sort();
+  assert(paths.join(',') === 'params.id,query.dry_run', `Unexpected paths: ${paths}`);
+});
+
+test('Body issues keep the field path', () => {
+  const issues = validateApiRequest(operation, { params: { id: '1' }, query: {}, body: { title: '', tags: ['c'] } });
+  const paths = issues.map((issue) => issue.path).sort();
+  assert(paths.join(',') === 'tags[0],title', `Unexpected paths: ${paths}`);
+});
+
+test('Nullable nodes accept null and publish a null type', () => {
+  const node = t.object({ name: t.string() }, { nullable: true });
+  assert(t.validate(node, null).length === 0, 'null should be accepted');
+  const schema = t.toJsonSchema(node);
+  assert(JSON.stringify(schema.type) === '["object","null"]', `Unexpected type: ${JSON.stringify(schema.type)}`);
+});
+
+test('Optional empty dates are documented as an alternative', () => {
+  const schema = t.toJsonSchema(t.string({ format: 'date-time', allowEmpty: true }));
+  assert(Array.isArray(schema.anyOf) && schema.anyOf[1].const === '', 'Empty string alternative is missing');
+});
+
+test('Document lists the route with its rules and implied errors', () => {
+  assert(toOpenApiPath(operation.path) === '/api/admin/v1/items/{id}', 'Path template not converted');
+  const document = buildOpenApiDocument([operation], { title: 'Test', version: '1', description: '', serverUrl: 'http://localhost' });
+  const described = document.paths['/api/admin/v1/items/{id}'].patch;
+  assert(document.openapi === '3.1.0', 'Wrong OpenAPI version');
+  assert(described['x-permission'] === 'content.edit', 'Permission is missing');
+  assert(described.parameters.some((item) => item.name === 'If-Match' && item.in === 'header'), 'If-Match header is missing');
+  const body = described.requestBody.content['application/json'].schema;
+  assert(body.properties.title.minLength === 1 && !body.required, 'Partial body schema is wrong');
+  for (const status of ['200', '401', '403', '422']) {
+    assert(described.responses[status], `Response ${status} is missing`);
+  }
+});
+
+function runTests() {
+  console.log('\n🧪 Running API schema tests\n');
+  console.log('='.repeat(60));
+
+  for (const { name, fn } of tests) {
+    try {
+      fn();
+      console.log(`✅ ${name}`);
+      passed++;
+    } catch (error) {
+      console.log(`❌ ${name}`);
+      console.log(`   Error: ${error.message}`);
+      failed++;
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`\n📊 Test Results: ${passed} passed, ${failed} failed out of ${tests.length} tests\n`);
+  process.exit(failed === 0 ? 0 : 1);
+}
+
+runTests();
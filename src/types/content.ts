@@ -1,5 +1,13 @@
 export type MediaType = "image" | "video";
 
+export type MediaRenditionFormat = "avif" | "webp";
+
+export interface MediaRendition {
+  format: MediaRenditionFormat;
+  width: number;
+  src: string;
+}
+
 export interface MediaItem {
   id: string;
   title: string;
@@ -10,6 +18,10 @@ export interface MediaItem {
   localOriginal: string;
   localOptimized: string;
   createdAt: string;
+  // Pixel size of the source image and its downscaled copies; absent for videos and older items.
+  width?: number;
+  height?: number;
+  renditions?: MediaRendition[];
 }
 
 export interface ServiceItem {
@@ -0,0 +1,162 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const repoDir = __dirname;
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'white-lab-content-store-'));
+fs.mkdirSync(path.join(workDir, 'content'));
+process.chdir(workDir);
+const store = require(path.join(repoDir, 'dist', 'lib', 'content-store.js'));
+const tests = [];
+let passed = 0;
+let failed = 0;
+function test(name, fn) {
+    tests.push({
+        name,
+        fn
+    });
+}
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+const baseSite = JSON.parse(fs.readFileSync(path.join(repoDir, 'content', 'site.json'), 'utf8'));
+const baseMedia = JSON.parse(fs.readFileSync(path.join(repoDir, 'content', 'media.json'), 'utf8')).slice(0, 3);
+function mediaFilePath(url) {
+    return path.join(workDir, 'public', url);
+}
+for (const item of baseMedia){
+    for (const url of [
+        item.localOriginal,
+        item.localOptimized
+    ]){
+        fs.mkdirSync(path.dirname(mediaFilePath(url)), {
+            recursive: true
+        });
+        fs.writeFileSync(mediaFilePath(url), 'media');
+    }
+}
+function withTitle(title) {
+    return {
+        ...baseSite,
+        seo: {
+            ...baseSite.seo,
+            title
+        }
+    };
+}
+function latestRevision(key) {
+    return store.listContentRevisions(key, 1)[0];
+}
+test('Restoring a published site revision also resets the draft', async ()=>{
+    await store.saveSite(withTitle('Версия A'), {
+        author: 'test'
+    });
+    const revisionA = latestRevision('site');
+    await store.saveDraftSite(withTitle('Версия B'), {
+        author: 'test'
+    });
+    await store.publishDrafts({
+        author: 'test'
+    });
+    assert((await store.loadSite()).seo.title === 'Версия B', 'Draft was not published');
+    await store.restoreContentRevision(revisionA.id, {
+        author: 'test'
+    });
+    assert((await store.loadSite()).seo.title === 'Версия A', 'Published site was not restored');
+    assert((await store.loadDraftSite()).seo.title === 'Версия A', 'Draft still holds the rolled-back content');
+    const result = await store.publishDrafts({
+        author: 'test'
+    });
+    assert(!result.site, 'Publish after restore found draft changes');
+    assert((await store.loadSite()).seo.title === 'Версия A', 'Publish brought the rolled-back content back');
+});
+test('Restoring a published media revision also resets the media draft', async ()=>{
+    await store.saveMedia(baseMedia, {
+        author: 'test'
+    });
+    const revisionA = latestRevision('media');
+    await store.saveDraftMedia(baseMedia.slice(0, 1), {
+        author: 'test'
+    });
+    await store.publishDrafts({
+        author: 'test'
+    });
+    assert((await store.loadMedia()).length === 1, 'Media draft was not published');
+    await store.restoreContentRevision(revisionA.id, {
+        author: 'test'
+    });
+    const ids = (items)=>items.map((item)=>item.id).join(',');
+    assert(ids(await store.loadMedia()) === ids(baseMedia), 'Published media was not restored');
+    assert(ids(await store.loadDraftMedia()) === ids(baseMedia), 'Media draft still holds the rolled-back list');
+    const result = await store.publishDrafts({
+        author: 'test'
+    });
+    assert(!result.media && ids(await store.loadMedia()) === ids(baseMedia), 'Publish changed the restored media');
+});
+test('Restoring a draft revision leaves the published site alone', async ()=>{
+    await store.saveDraftSite(withTitle('Черновик C'), {
+        author: 'test'
+    });
+    const draftRevision = latestRevision('site:draft');
+    await store.saveDraftSite(withTitle('Черновик D'), {
+        author: 'test'
+    });
+    await store.restoreContentRevision(draftRevision.id, {
+        author: 'test'
+    });
+    assert((await store.loadDraftSite()).seo.title === 'Черновик C', 'Draft revision was not restored');
+    assert((await store.loadSite()).seo.title === 'Версия A', 'Published site changed');
+});
+test('A media revision whose files were deleted is not restored', async ()=>{
+    const revisionFull = latestRevision('media');
+    await store.saveDraftMedia(baseMedia.slice(1), {
+        author: 'test'
+    });
+    const result = await store.publishDrafts({
+        author: 'test'
+    });
+    assert(result.removedMedia.length === 1, 'Publish did not report the removed item');
+    fs.unlinkSync(mediaFilePath(baseMedia[0].localOptimized));
+    try {
+        await store.restoreContentRevision(revisionFull.id, {
+            author: 'test'
+        });
+    } catch (error) {
+        assert(error.message.includes(`${baseMedia[0].id}: ${baseMedia[0].localOptimized}`), `Unexpected error: ${error.message}`);
+        assert((await store.loadMedia()).length === baseMedia.length - 1, 'Published media changed');
+        assert((await store.loadDraftMedia()).length === baseMedia.length - 1, 'Media draft changed');
+        return;
+    }
+    throw new Error('Revision with missing files was restored');
+});
+async function runTests() {
+    console.log('\n🧪 Running content store tests\n');
+    console.log('='.repeat(60));
+    for (const { name, fn } of tests){
+        try {
+            await fn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}`);
+            console.log(`   Error: ${error.message}`);
+            failed++;
+        }
+    }
+    process.chdir(repoDir);
+    fs.rmSync(workDir, {
+        recursive: true,
+        force: true
+    });
+    console.log('='.repeat(60));
+    console.log(`\n📊 Test Results: ${passed} passed, ${failed} failed out of ${tests.length} tests\n`);
+    process.exit(failed === 0 ? 0 : 1);
+}
+runTests().catch((error)=>{
+    console.error('Fatal error running tests:', error);
+    process.exit(1);
+});
+
+
+//# sourceURL=src/tests/test-content-store.ts
\ No newline at end of file
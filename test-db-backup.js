@@ -0,0 +1,101 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const repoDir = __dirname;
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'white-lab-db-backup-'));
+fs.mkdirSync(path.join(workDir, 'content'));
+process.chdir(workDir);
+const store = require(path.join(repoDir, 'dist', 'lib', 'content-store.js'));
+const { createBackup, restoreBackup } = require(path.join(repoDir, 'dist', 'lib', 'db-backup.js'));
+const tests = [];
+let passed = 0;
+let failed = 0;
+function test(name, fn) {
+    tests.push({
+        name,
+        fn
+    });
+}
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+const media = JSON.parse(fs.readFileSync(path.join(repoDir, 'content', 'media.json'), 'utf8')).slice(0, 3);
+function mediaFilePath(url) {
+    return path.join(workDir, 'public', url);
+}
+for (const item of media){
+    for (const url of [
+        item.localOriginal,
+        item.localOptimized
+    ]){
+        fs.mkdirSync(path.dirname(mediaFilePath(url)), {
+            recursive: true
+        });
+        fs.writeFileSync(mediaFilePath(url), 'media');
+    }
+}
+const ids = (items)=>items.map((item)=>item.id).join(',');
+test('Restore keeps media whose files are still on disk', async ()=>{
+    await store.saveMedia(media, {
+        author: 'test'
+    });
+    await store.saveDraftMedia(media, {
+        author: 'test'
+    });
+    const backup = await createBackup('manual');
+    await store.saveMedia(media.slice(0, 1), {
+        author: 'test'
+    });
+    const result = await restoreBackup(backup.file);
+    assert(result.droppedMedia.length === 0, `Dropped: ${result.droppedMedia}`);
+    assert(ids(await store.loadMedia()) === ids(media), 'Published media was not restored');
+});
+test('Restore drops media whose files were deleted since the backup', async ()=>{
+    const backup = await createBackup('manual');
+    const [gone, ...kept] = media;
+    await store.saveDraftMedia(kept, {
+        author: 'test'
+    });
+    await store.saveMedia(kept, {
+        author: 'test'
+    });
+    fs.unlinkSync(mediaFilePath(gone.localOptimized));
+    const result = await restoreBackup(backup.file);
+    assert(result.droppedMedia.join(',') === gone.id, `Unexpected dropped list: ${result.droppedMedia}`);
+    assert(ids(await store.loadMedia()) === ids(kept), 'Item without files is published');
+    assert(ids(await store.loadDraftMedia()) === ids(kept), 'Item without files is in the draft');
+    const mirror = JSON.parse(fs.readFileSync(path.join(workDir, 'content', 'media.json'), 'utf8'));
+    assert(ids(mirror) === ids(kept), 'media.json still lists the item');
+});
+async function runTests() {
+    console.log('\n🧪 Running database backup tests\n');
+    console.log('='.repeat(60));
+    for (const { name, fn } of tests){
+        try {
+            await fn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}`);
+            console.log(`   Error: ${error.message}`);
+            failed++;
+        }
+    }
+    process.chdir(repoDir);
+    fs.rmSync(workDir, {
+        recursive: true,
+        force: true
+    });
+    console.log('='.repeat(60));
+    console.log(`\n📊 Test Results: ${passed} passed, ${failed} failed out of ${tests.length} tests\n`);
+    process.exit(failed === 0 ? 0 : 1);
+}
+runTests().catch((error)=>{
+    console.error('Fatal error running tests:', error);
+    process.exit(1);
+});
+
+
+//# sourceURL=src/tests/test-db-backup.ts
\ No newline at end of file
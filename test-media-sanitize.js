@@ -0,0 +1,320 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { sanitizeMediaFile } = require(path.join(__dirname, 'dist', 'lib', 'media-sanitize.js'));
+const tests = [];
+let passed = 0;
+let failed = 0;
+function test(name, fn) {
+    tests.push({
+        name,
+        fn
+    });
+}
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'white-lab-media-sanitize-'));
+let fileCounter = 0;
+function writeSample(data) {
+    fileCounter += 1;
+    const filePath = path.join(workDir, `sample-${fileCounter}`);
+    fs.writeFileSync(filePath, data);
+    return filePath;
+}
+async function expectRejection(data, declaredMime, pattern) {
+    try {
+        await sanitizeMediaFile(writeSample(data), declaredMime);
+    } catch (error) {
+        assert(error.message.startsWith('Файл отклонён: '), `Not a rejection: ${error.message}`);
+        assert(pattern.test(error.message), `Unexpected error: ${error.message}`);
+        return;
+    }
+    throw new Error('File should have been rejected');
+}
+function jpegSegment(marker, payload) {
+    const header = Buffer.alloc(4);
+    header.writeUInt16BE(0xff00 | marker, 0);
+    header.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([
+        header,
+        payload
+    ]);
+}
+function buildExif(orientation) {
+    const tiff = Buffer.alloc(80);
+    tiff.write('MM', 0, 'latin1');
+    tiff.writeUInt16BE(42, 2);
+    tiff.writeUInt32BE(8, 4);
+    tiff.writeUInt16BE(2, 8);
+    tiff.writeUInt16BE(0x0112, 10);
+    tiff.writeUInt16BE(3, 12);
+    tiff.writeUInt32BE(1, 14);
+    tiff.writeUInt16BE(orientation, 18);
+    tiff.writeUInt16BE(0x8825, 22);
+    tiff.writeUInt16BE(4, 24);
+    tiff.writeUInt32BE(1, 26);
+    tiff.writeUInt32BE(38, 30);
+    tiff.writeUInt32BE(0, 34);
+    tiff.writeUInt16BE(1, 38);
+    tiff.writeUInt16BE(0x0001, 40);
+    tiff.writeUInt16BE(2, 42);
+    tiff.writeUInt32BE(2, 44);
+    tiff.write('N\0', 48, 'latin1');
+    tiff.write('GPS 56.8854N 35.8606E', 56, 'latin1');
+    return jpegSegment(0xe1, Buffer.concat([
+        Buffer.from('Exif\0\0', 'latin1'),
+        tiff
+    ]));
+}
+function buildJpeg({ exif = null, trailing = Buffer.alloc(0), truncated = false } = {}) {
+    const sof = Buffer.from([
+        8,
+        0,
+        2,
+        0,
+        3,
+        1,
+        1,
+        0x11,
+        0
+    ]);
+    const sos = Buffer.from([
+        1,
+        1,
+        0,
+        0,
+        0x3f,
+        0
+    ]);
+    return Buffer.concat([
+        Buffer.from([
+            0xff,
+            0xd8
+        ]),
+        jpegSegment(0xe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'latin1')),
+        exif || Buffer.alloc(0),
+        jpegSegment(0xfe, Buffer.from('camera comment', 'latin1')),
+        jpegSegment(0xc0, sof),
+        jpegSegment(0xda, sos),
+        Buffer.from([
+            0x12,
+            0x34,
+            0xff,
+            0x00,
+            0x56
+        ]),
+        truncated ? Buffer.alloc(0) : Buffer.from([
+            0xff,
+            0xd9
+        ]),
+        trailing
+    ]);
+}
+function pngChunk(type, data) {
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, 'latin1');
+    data.copy(chunk, 8);
+    return chunk;
+}
+function buildPng({ text = '', trailing = Buffer.alloc(0), truncated = false } = {}) {
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(1, 0);
+    ihdr.writeUInt32BE(1, 4);
+    ihdr[8] = 8;
+    ihdr[9] = 2;
+    return Buffer.concat([
+        Buffer.from([
+            0x89,
+            0x50,
+            0x4e,
+            0x47,
+            0x0d,
+            0x0a,
+            0x1a,
+            0x0a
+        ]),
+        pngChunk('IHDR', ihdr),
+        text ? pngChunk('tEXt', Buffer.from(`Comment\0${text}`, 'latin1')) : Buffer.alloc(0),
+        pngChunk('IDAT', Buffer.from([
+            0x78,
+            0x9c,
+            0x63,
+            0x60,
+            0x00,
+            0x00,
+            0x00,
+            0x04,
+            0x00,
+            0x01
+        ])),
+        truncated ? Buffer.alloc(0) : pngChunk('IEND', Buffer.alloc(0)),
+        trailing
+    ]);
+}
+function box(type, ...children) {
+    const body = Buffer.concat(children);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(body.length + 8, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([
+        header,
+        body
+    ]);
+}
+test('JPEG loses GPS EXIF and comments but keeps its orientation', async ()=>{
+    const filePath = writeSample(buildJpeg({
+        exif: buildExif(6)
+    }));
+    const result = await sanitizeMediaFile(filePath, 'image/jpeg');
+    const output = fs.readFileSync(filePath);
+    const text = output.toString('latin1');
+    assert(result.format === 'jpeg' && result.ext === 'jpg', `Unexpected format ${result.format}`);
+    assert(result.size === output.length, 'Reported size does not match the file');
+    assert(!text.includes('56.8854N') && !text.includes('camera comment'), 'Location or comment survived');
+    assert(!output.includes(Buffer.from([
+        0x88,
+        0x25
+    ])), 'GPSInfo tag survived');
+    const exifStart = output.indexOf(Buffer.from('Exif\0\0', 'latin1'));
+    assert(exifStart > 0, 'Orientation EXIF segment missing');
+    const tiff = output.subarray(exifStart + 6);
+    assert(tiff.readUInt16BE(10) === 0x0112 && tiff.readUInt16BE(18) === 6, 'Orientation was not kept');
+    assert(text.includes('JFIF'), 'JFIF header dropped');
+});
+test('JPEG without a rotation gets no EXIF segment at all', async ()=>{
+    const filePath = writeSample(buildJpeg({
+        exif: buildExif(1)
+    }));
+    await sanitizeMediaFile(filePath, 'image/jpeg');
+    assert(!fs.readFileSync(filePath).includes(Buffer.from('Exif\0\0', 'latin1')), 'Empty EXIF segment written');
+});
+test('Appended ZIP and HTML documents are rejected', async ()=>{
+    const zip = Buffer.concat([
+        Buffer.from('PK\x03\x04', 'latin1'),
+        Buffer.alloc(64)
+    ]);
+    await expectRejection(buildPng({
+        trailing: zip
+    }), 'image/png', /документ ZIP/);
+    await expectRejection(buildJpeg({
+        trailing: Buffer.from('<html><script>alert(1)</script>')
+    }), '', /документ HTML/);
+    await expectRejection(buildPng({
+        text: '<?php echo 1; ?>'
+    }), 'image/png', /документ PHP/);
+});
+test('Declared MIME type must match the bytes', async ()=>{
+    await expectRejection(buildPng(), 'image/jpeg', /\(PNG\) не совпадает с заявленным типом image\/jpeg/);
+    await expectRejection(buildJpeg(), 'video/mp4', /\(JPEG\) не совпадает/);
+    const result = await sanitizeMediaFile(writeSample(buildPng()), 'application/octet-stream');
+    assert(result.format === 'png', 'Generic MIME type should fall back to sniffing');
+});
+test('Truncated and unknown files get a specific rejection', async ()=>{
+    await expectRejection(buildJpeg({
+        truncated: true
+    }), 'image/jpeg', /JPEG обрывается до маркера конца изображения/);
+    await expectRejection(buildPng({
+        truncated: true
+    }), 'image/png', /PNG обрывается до блока IEND/);
+    await expectRejection(Buffer.from('GIF89a'), 'image/gif', /повреждённый GIF/);
+    await expectRejection(Buffer.from('just some text'), '', /формат не распознан/);
+    await expectRejection(Buffer.alloc(0), '', /пустой файл/);
+});
+test('HEIC photos are turned away with a hint', async ()=>{
+    const heic = box('ftyp', Buffer.from('heic\0\0\0\0mif1', 'latin1'));
+    await expectRejection(heic, 'image/heic', /HEIC и AVIF не поддерживаются/);
+});
+test('PNG text chunks are dropped', async ()=>{
+    const filePath = writeSample(buildPng({
+        text: 'Author: someone'
+    }));
+    await sanitizeMediaFile(filePath, 'image/png');
+    const text = fs.readFileSync(filePath).toString('latin1');
+    assert(!text.includes('tEXt') && !text.includes('someone'), 'tEXt chunk survived');
+    assert(text.includes('IHDR') && text.includes('IDAT') && text.includes('IEND'), 'Image chunks dropped');
+});
+test('MP4 metadata boxes are retyped as zero-filled free boxes in place', async ()=>{
+    const location = Buffer.from('\xa9xyz+56.8854+035.8606/', 'latin1');
+    const mp4 = Buffer.concat([
+        box('ftyp', Buffer.from('isom\0\0\0\0isommp41', 'latin1')),
+        box('moov', box('mvhd', Buffer.alloc(12)), box('udta', location), box('trak', box('tkhd', Buffer.alloc(8)), box('meta', location))),
+        box('mdat', Buffer.from('frame data'))
+    ]);
+    const filePath = writeSample(mp4);
+    const result = await sanitizeMediaFile(filePath, 'video/mp4');
+    const output = fs.readFileSync(filePath);
+    const text = output.toString('latin1');
+    assert(result.format === 'mp4' && output.length === mp4.length, 'File size changed');
+    assert(!text.includes('56.8854') && !text.includes('udta') && !text.includes('meta'), 'Location box survived');
+    assert(text.includes('frame data') && text.includes('mvhd') && text.includes('tkhd'), 'Media boxes were touched');
+});
+test('Broken MP4 box sizes are rejected', async ()=>{
+    const mp4 = Buffer.concat([
+        box('ftyp', Buffer.from('isom\0\0\0\0', 'latin1')),
+        Buffer.from([
+            0,
+            0,
+            0x10,
+            0,
+            0x6d,
+            0x6f,
+            0x6f,
+            0x76
+        ])
+    ]);
+    await expectRejection(mp4, 'video/mp4', /повреждённый файл видео/);
+});
+test('AVIF is accepted only as an app rendition and still checked for documents', async ()=>{
+    const avif = box('ftyp', Buffer.from('avif\0\0\0\0mif1miaf', 'latin1'), Buffer.alloc(32));
+    await expectRejection(avif, '', /HEIC и AVIF не поддерживаются/);
+    const result = await sanitizeMediaFile(writeSample(avif), '', {
+        allowRenditions: true
+    });
+    assert(result.format === 'avif' && result.ext === 'avif', `Unexpected format ${result.format}`);
+    const withPage = Buffer.concat([
+        avif,
+        Buffer.from('<html><body>hi</body></html>')
+    ]);
+    try {
+        await sanitizeMediaFile(writeSample(withPage), '', {
+            allowRenditions: true
+        });
+    } catch (error) {
+        assert(/документ HTML/.test(error.message), `Unexpected error: ${error.message}`);
+        return;
+    }
+    throw new Error('AVIF with an appended page was accepted');
+});
+async function runTests() {
+    console.log('\n🧪 Running media sanitizer tests\n');
+    console.log('='.repeat(60));
+    for (const { name, fn } of tests){
+        try {
+            await fn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}`);
+            console.log(`   Error: ${error.message}`);
+            failed++;
+        }
+    }
+    fs.rmSync(workDir, {
+        recursive: true,
+        force: true
+    });
+    console.log('='.repeat(60));
+    console.log(`\n📊 Test Results: ${passed} passed, ${failed} failed out of ${tests.length} tests\n`);
+    process.exit(failed === 0 ? 0 : 1);
+}
+runTests().catch((error)=>{
+    console.error('Fatal error running tests:', error);
+    process.exit(1);
+});
+
+
+//# sourceURL=src/tests/test-media-sanitize.ts
\ No newline at end of file
@@ -0,0 +1,176 @@
+const { spawn } = require('child_process');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+const tests = [];
+let passed = 0;
+let failed = 0;
+let baseUrl = '';
+function test(name, fn) {
+    tests.push({
+        name,
+        fn
+    });
+}
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'white-lab-public-api-'));
+const hour = 60 * 60 * 1000;
+function prepareWorkDir() {
+    const site = JSON.parse(fs.readFileSync(path.join(__dirname, 'content', 'site.json'), 'utf8'));
+    site.sections = {
+        ...site.sections || {},
+        services: {
+            ...site.sections?.services || {},
+            enabled: false
+        },
+        gallery: {
+            ...site.sections?.gallery || {},
+            enabled: true,
+            visibleFrom: new Date(Date.now() + 24 * hour).toISOString()
+        },
+        contacts: {
+            ...site.sections?.contacts || {},
+            enabled: true,
+            visibleTo: new Date(Date.now() - 24 * hour).toISOString()
+        }
+    };
+    fs.mkdirSync(path.join(workDir, 'content'));
+    fs.writeFileSync(path.join(workDir, 'content', 'site.json'), JSON.stringify(site, null, 2));
+    fs.copyFileSync(path.join(__dirname, 'content', 'media.json'), path.join(workDir, 'content', 'media.json'));
+    for (const dir of [
+        'views',
+        'public'
+    ]){
+        fs.symlinkSync(path.join(__dirname, dir), path.join(workDir, dir), 'dir');
+    }
+    return site;
+}
+function findFreePort() {
+    return new Promise((resolve, reject)=>{
+        const probe = net.createServer();
+        probe.once('error', reject);
+        probe.listen(0, '127.0.0.1', ()=>{
+            const { port } = probe.address();
+            probe.close(()=>resolve(port));
+        });
+    });
+}
+function startServer(port) {
+    const child = spawn(process.execPath, [
+        path.join(__dirname, 'dist', 'server.js')
+    ], {
+        cwd: workDir,
+        env: {
+            ...process.env,
+            PORT: String(port),
+            BACKUP_SCHEDULE: 'off'
+        },
+        stdio: [
+            'ignore',
+            'pipe',
+            'pipe'
+        ]
+    });
+    return new Promise((resolve, reject)=>{
+        let output = '';
+        const timer = setTimeout(()=>reject(new Error(`Server did not start:\n${output}`)), 15000);
+        const onData = (chunk)=>{
+            output += chunk;
+            if (output.includes('White Lab running on')) {
+                clearTimeout(timer);
+                resolve(child);
+            }
+        };
+        child.stdout.on('data', onData);
+        child.stderr.on('data', onData);
+        child.once('exit', (code)=>{
+            clearTimeout(timer);
+            reject(new Error(`Server exited with code ${code}:\n${output}`));
+        });
+    });
+}
+async function getJson(pathname) {
+    const response = await fetch(`${baseUrl}/api/v1${pathname}`);
+    return {
+        status: response.status,
+        body: await response.json()
+    };
+}
+const site = prepareWorkDir();
+const serviceSlug = site.services[0].slug;
+test('Disabled services section returns no services', async ()=>{
+    const list = await getJson('/services');
+    assert(list.status === 200, `Unexpected status ${list.status}`);
+    assert(Array.isArray(list.body.data) && list.body.data.length === 0, `Services leaked: ${JSON.stringify(list.body.data)}`);
+    const item = await getJson(`/services/${serviceSlug}`);
+    assert(item.status === 404 && item.body.error.code === 'not_found', `Service ${serviceSlug} answered ${item.status}`);
+});
+test('Gallery scheduled for later returns no media', async ()=>{
+    const all = await getJson('/media');
+    assert(all.status === 200, `Unexpected status ${all.status}`);
+    assert(all.body.data.length === 0 && all.body.pagination.total === 0, `Media leaked: ${all.body.pagination.total} items`);
+    const images = await getJson('/media?type=image');
+    assert(images.body.data.length === 0, 'Images leaked through the type filter');
+});
+test('Contacts scheduled out hide contacts and the FAQ', async ()=>{
+    const faq = await getJson('/faq');
+    assert(faq.status === 200 && faq.body.data.length === 0, `FAQ leaked: ${JSON.stringify(faq.body.data)}`);
+    const contacts = await getJson('/contacts');
+    assert(contacts.status === 404, `Contacts answered ${contacts.status}`);
+});
+test('Sections list shows only the visible sections', async ()=>{
+    const sections = await getJson('/sections');
+    const keys = sections.body.data.map((section)=>section.key);
+    assert(keys.length > 0, 'No sections returned');
+    assert(!keys.some((key)=>[
+            'services',
+            'gallery',
+            'contacts'
+        ].includes(key)), `Hidden sections listed: ${keys}`);
+});
+async function runTests() {
+    console.log('\n🧪 Running public API visibility tests\n');
+    console.log('='.repeat(60));
+    const port = await findFreePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    const server = await startServer(port);
+    for (const { name, fn } of tests){
+        try {
+            await fn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}`);
+            console.log(`   Error: ${error.message}`);
+            failed++;
+        }
+    }
+    server.removeAllListeners('exit');
+    await new Promise((resolve)=>{
+        server.once('exit', resolve);
+        server.kill();
+    });
+    fs.rmSync(workDir, {
+        recursive: true,
+        force: true
+    });
+    console.log('='.repeat(60));
+    console.log(`\n📊 Test Results: ${passed} passed, ${failed} failed out of ${tests.length} tests\n`);
+    process.exit(failed === 0 ? 0 : 1);
+}
+runTests().catch((error)=>{
+    console.error('Fatal error running tests:', error);
+    fs.rmSync(workDir, {
+        recursive: true,
+        force: true
+    });
+    process.exit(1);
+});
+
+
+//# sourceURL=src/tests/test-public-api.ts
\ No newline at end of file
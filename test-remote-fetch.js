@@ -0,0 +1,170 @@
+const http = require('http');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { fetchRemoteFile, isBlockedAddress } = require(path.join(__dirname, 'dist', 'lib', 'remote-fetch.js'));
+const tests = [];
+let passed = 0;
+let failed = 0;
+let baseUrl = '';
+function test(name, fn) {
+    tests.push({
+        name,
+        fn
+    });
+}
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+const destination = path.join(os.tmpdir(), `white-lab-remote-fetch-${process.pid}`);
+const stubOptions = {
+    allowAddresses: [
+        '127.0.0.1'
+    ],
+    maxBytes: 4096,
+    readTimeoutMs: 500
+};
+async function expectFailure(url, options, pattern) {
+    try {
+        await fetchRemoteFile(url, destination, options);
+    } catch (error) {
+        assert(pattern.test(error.message), `Unexpected error: ${error.message}`);
+        assert(!fs.existsSync(destination), 'Partial file left behind');
+        return;
+    }
+    throw new Error(`Download of ${url} should have failed`);
+}
+const stub = http.createServer((req, res)=>{
+    if (req.url === '/image') {
+        res.writeHead(200, {
+            'content-type': 'image/png'
+        });
+        res.end(Buffer.alloc(1024));
+    } else if (req.url === '/redirect') {
+        res.writeHead(302, {
+            location: '/image'
+        });
+        res.end();
+    } else if (req.url === '/redirect-metadata') {
+        res.writeHead(302, {
+            location: 'http://169.254.169.254/latest/meta-data/'
+        });
+        res.end();
+    } else if (req.url === '/redirect-file') {
+        res.writeHead(302, {
+            location: 'file:///etc/passwd'
+        });
+        res.end();
+    } else if (req.url === '/loop') {
+        res.writeHead(302, {
+            location: '/loop'
+        });
+        res.end();
+    } else if (req.url === '/huge') {
+        res.writeHead(200, {
+            'content-type': 'image/png'
+        });
+        res.write(Buffer.alloc(3000));
+        setTimeout(()=>res.end(Buffer.alloc(3000)), 20);
+    } else if (req.url === '/huge-declared') {
+        res.writeHead(200, {
+            'content-type': 'image/png',
+            'content-length': '1000000'
+        });
+        res.end();
+    } else if (req.url === '/stalled') {
+        res.writeHead(200, {
+            'content-type': 'image/png'
+        });
+        res.write('x');
+    } else if (req.url === '/page') {
+        res.writeHead(200, {
+            'content-type': 'text/html'
+        });
+        res.end('<p>page</p>');
+    } else {
+        res.writeHead(404);
+        res.end();
+    }
+});
+test('Loopback and private hosts are blocked by default', async ()=>{
+    await expectFailure(`${baseUrl}/image`, {}, /внутреннюю сеть/);
+    await expectFailure(`http://localhost:${new URL(baseUrl).port}/image`, {}, /внутреннюю сеть/);
+    await expectFailure('http://[::ffff:127.0.0.1]/image', {}, /внутреннюю сеть/);
+    assert(isBlockedAddress('10.0.0.1') && isBlockedAddress('169.254.169.254') && isBlockedAddress('fd00::1'), 'Private range allowed');
+    assert(!isBlockedAddress('8.8.8.8') && !isBlockedAddress('2a00:1450::1'), 'Public address blocked');
+});
+test('NAT64 and 6to4 addresses are checked by their embedded IPv4 address', async ()=>{
+    assert(isBlockedAddress('64:ff9b::7f00:1') && isBlockedAddress('64:ff9b::10.0.0.1'), 'NAT64 to a private address allowed');
+    assert(isBlockedAddress('2002:7f00:1::') && isBlockedAddress('2002:a9fe:a9fe::1'), '6to4 of a private address allowed');
+    assert(!isBlockedAddress('64:ff9b::808:808') && !isBlockedAddress('2002:808:808::1'), 'NAT64/6to4 of a public address blocked');
+});
+test('Only http and https are accepted', async ()=>{
+    await expectFailure('ftp://example.com/file.png', {}, /http и https/);
+    await expectFailure('file:///etc/passwd', {}, /http и https/);
+});
+test('Allowed stub address downloads to disk', async ()=>{
+    const result = await fetchRemoteFile(`${baseUrl}/image`, destination, stubOptions);
+    assert(result.bytes === 1024, `Expected 1024 bytes, got ${result.bytes}`);
+    assert(fs.statSync(destination).size === 1024, 'File size mismatch');
+    fs.rmSync(destination, {
+        force: true
+    });
+});
+test('Redirects are followed and re-checked', async ()=>{
+    const result = await fetchRemoteFile(`${baseUrl}/redirect`, destination, stubOptions);
+    assert(result.finalUrl.endsWith('/image'), `Unexpected final URL ${result.finalUrl}`);
+    fs.rmSync(destination, {
+        force: true
+    });
+    await expectFailure(`${baseUrl}/redirect-metadata`, stubOptions, /внутреннюю сеть/);
+    await expectFailure(`${baseUrl}/redirect-file`, stubOptions, /http и https/);
+    await expectFailure(`${baseUrl}/loop`, stubOptions, /перенаправлений/);
+});
+test('Size limit is enforced while streaming and from Content-Length', async ()=>{
+    await expectFailure(`${baseUrl}/huge`, stubOptions, /Файл больше/);
+    await expectFailure(`${baseUrl}/huge-declared`, stubOptions, /Файл больше/);
+});
+test('Stalled responses time out', async ()=>{
+    await expectFailure(`${baseUrl}/stalled`, stubOptions, /перестал отвечать/);
+});
+test('Rejected content type stops before the body is saved', async ()=>{
+    const options = {
+        ...stubOptions,
+        acceptContentType: (type)=>type.startsWith('image/')
+    };
+    await expectFailure(`${baseUrl}/page`, options, /Неподдерживаемый тип/);
+});
+async function runTests() {
+    console.log('\n🧪 Running remote media download tests\n');
+    console.log('='.repeat(60));
+    await new Promise((resolve)=>stub.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${stub.address().port}`;
+    for (const { name, fn } of tests){
+        try {
+            await fn();
+            console.log(`✅ ${name}`);
+            passed++;
+        } catch (error) {
+            console.log(`❌ ${name}`);
+            console.log(`   Error: ${error.message}`);
+            failed++;
+        }
+    }
+    stub.close();
+    fs.rmSync(destination, {
+        force: true
+    });
+    console.log('='.repeat(60));
+    console.log(`\n📊 Test Results: ${passed} passed, ${failed} failed out of ${tests.length} tests\n`);
+    process.exit(failed === 0 ? 0 : 1);
+}
+runTests().catch((error)=>{
+    console.error('Fatal error running tests:', error);
+    process.exit(1);
+});
+
+
+//# sourceURL=src/tests/test-remote-fetch.ts
\ No newline at end of file